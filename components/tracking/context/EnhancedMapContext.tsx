@@ -11,7 +11,12 @@ import L from 'leaflet';
 import type { SelectOption, ExtendedAircraft } from '@/types/base';
 import type { CachedAircraftData } from '@/types/base'; // Import your new type
 import type { AircraftModel } from '../../../types/aircraft-models';
+import type { AircraftSearchResult } from '@/types/database';
+import type { AircraftDetail } from '@/lib/services/aircraft-detail';
+import { REGIONS, BoundingBox } from '@/types/regions';
+import { boundingBoxFromEdges } from '@/utils/geo';
 import openSkyTrackingService from '@/lib/services/openSkyTrackingService';
+import { useEnhancedUI } from './EnhancedUIContext';
 import {
   saveAircraftData,
   loadAircraftData,
@@ -29,6 +34,12 @@ interface AircraftPosition {
   // Debug action
 }
 
+// Region key that tracks whatever the map currently shows
+export const VIEWPORT_REGION = 'VIEWPORT';
+
+// Query parameter for deep links to a single aircraft
+const AIRCRAFT_QUERY_PARAM = 'aircraft';
+
 // Define context interface
 interface EnhancedMapContextType {
   // Map state
@@ -53,6 +64,18 @@ interface EnhancedMapContextType {
   activeModels: AircraftModel[];
   totalActive: number;
 
+  // Region mode state (REGIONS key or VIEWPORT_REGION)
+  selectedRegion: string | null;
+  manufacturerFilter: string | null;
+  activeManufacturers: { manufacturer: string; count: number }[];
+
+  // Registration country filter (client side)
+  countryFilter: string | null;
+  activeCountries: { country: string; flag: string; count: number }[];
+
+  // Registry search result tracked on its own
+  searchedAircraft: AircraftSearchResult | null;
+
   // Loading state
   isLoading: boolean;
   isRefreshing: boolean;
@@ -64,9 +87,21 @@ interface EnhancedMapContextType {
   maxTrailLength: number;
   aircraftTrails: Map<string, AircraftPosition[]>;
 
+  // Full flight track of the aircraft selected in the info panel
+  selectedTrack: { icao24: string; positions: AircraftPosition[] } | null;
+  isTrackLoading: boolean;
+
+  // Registry, reference and live detail of the selected aircraft
+  selectedDetail: AircraftDetail | null;
+  isDetailLoading: boolean;
+
   // Actions
   selectManufacturer: (manufacturer: string | null) => Promise<void>;
   selectModel: (model: string | null) => void;
+  selectRegion: (region: string | null) => Promise<void>;
+  setManufacturerFilter: (manufacturer: string | null) => void;
+  setCountryFilter: (country: string | null) => void;
+  trackSearchResult: (result: AircraftSearchResult) => Promise<void>;
   reset: () => Promise<void>;
   refreshPositions: () => Promise<void>;
   fullRefresh: () => Promise<void>;
@@ -100,6 +135,15 @@ const EnhancedMapContext = createContext<EnhancedMapContextType>({
   activeModels: [],
   totalActive: 0,
 
+  selectedRegion: null,
+  manufacturerFilter: null,
+  activeManufacturers: [],
+
+  countryFilter: null,
+  activeCountries: [],
+
+  searchedAircraft: null,
+
   isLoading: false,
   isRefreshing: false,
   trackingStatus: '',
@@ -110,8 +154,18 @@ const EnhancedMapContext = createContext<EnhancedMapContextType>({
   maxTrailLength: 10,
   aircraftTrails: new Map(),
 
+  selectedTrack: null,
+  isTrackLoading: false,
+
+  selectedDetail: null,
+  isDetailLoading: false,
+
   selectManufacturer: async () => {},
   selectModel: () => {},
+  selectRegion: async () => {},
+  setManufacturerFilter: () => {},
+  setCountryFilter: () => {},
+  trackSearchResult: async () => {},
   reset: async () => {},
   refreshPositions: async () => {},
   fullRefresh: async () => {},
@@ -165,6 +219,25 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
   const [activeModels, setActiveModels] = useState<AircraftModel[]>([]);
   const [totalActive, setTotalActive] = useState<number>(0);
 
+  // Region mode state
+  const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
+  const [manufacturerFilter, setManufacturerFilter] = useState<string | null>(
+    null
+  );
+  const [activeManufacturers, setActiveManufacturers] = useState<
+    { manufacturer: string; count: number }[]
+  >([]);
+
+  // Country filter state
+  const [countryFilter, setCountryFilter] = useState<string | null>(null);
+  const [activeCountries, setActiveCountries] = useState<
+    { country: string; flag: string; count: number }[]
+  >([]);
+
+  // Search mode state
+  const [searchedAircraft, setSearchedAircraft] =
+    useState<AircraftSearchResult | null>(null);
+
   // Loading state
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
@@ -182,6 +255,20 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
     Map<string, AircraftPosition[]>
   >(new Map());
 
+  // Selected aircraft flight track
+  const { selectedAircraft: panelAircraft, selectAircraft: openAircraftPanel } =
+    useEnhancedUI();
+  const [selectedTrack, setSelectedTrack] = useState<{
+    icao24: string;
+    positions: AircraftPosition[];
+  } | null>(null);
+  const [isTrackLoading, setIsTrackLoading] = useState<boolean>(false);
+  const [selectedDetail, setSelectedDetail] = useState<AircraftDetail | null>(
+    null
+  );
+  const [isDetailLoading, setIsDetailLoading] = useState<boolean>(false);
+  const deepLinkHandledRef = useRef(false);
+
   // Refs for tracking subscriptions
   const unsubscribeAircraftRef = useRef<(() => void) | null>(null);
   const unsubscribeStatusRef = useRef<(() => void) | null>(null);
@@ -211,7 +298,8 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
   useEffect(() => {
     // Subscribe to tracking updates that include trail data
     const handleTrackingUpdate = (data: any) => {
-      updateAircraftDisplay();
+      // Use the latest callback so the current model/manufacturer filters apply
+      updateAircraftDisplayRef.current();
 
       // Update trail data if present
       if (data.trails) {
@@ -304,12 +392,16 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
   const updateAircraftDisplay = useCallback(() => {
     // Get extended aircraft based on selected model
     const extendedAircraft = openSkyTrackingService.getExtendedAircraft(
-      selectedModel || undefined
+      selectedModel || undefined,
+      manufacturerFilter || undefined,
+      countryFilter || undefined
     );
 
     // Get model stats from the service
-    const { models, totalActive: total } =
-      openSkyTrackingService.getModelStats();
+    const { models, totalActive: total } = openSkyTrackingService.getModelStats(
+      manufacturerFilter || undefined,
+      countryFilter || undefined
+    );
 
     // Enhance aircraft data with persistence
     updateAircraftData(extendedAircraft);
@@ -317,17 +409,28 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
     setDisplayedAircraft(extendedAircraft);
     setActiveModels(models);
     setTotalActive(total);
+    setActiveManufacturers(
+      openSkyTrackingService.getActiveManufacturerCounts()
+    );
+    setActiveCountries(openSkyTrackingService.getActiveCountryCounts());
     setIsLoading(openSkyTrackingService.isLoading());
-  }, [selectedModel, updateAircraftData]);
+  }, [selectedModel, manufacturerFilter, countryFilter, updateAircraftData]);
+
+  const updateAircraftDisplayRef = useRef(updateAircraftDisplay);
+  updateAircraftDisplayRef.current = updateAircraftDisplay;
 
-  // Update display when model selection changes
+  // Update display when model or manufacturer filter changes
   useEffect(() => {
     updateAircraftDisplay();
-  }, [selectedModel, updateAircraftDisplay]);
+  }, [selectedModel, manufacturerFilter, countryFilter, updateAircraftDisplay]);
 
   // Handle manufacturer selection
   const selectManufacturer = async (manufacturer: string | null) => {
     setSelectedManufacturer(manufacturer);
+    setSearchedAircraft(null);
+    setSelectedRegion(null);
+    setManufacturerFilter(null);
+    setCountryFilter(null);
     setSelectedModel(null);
     setIsLoading(true);
     setLastRefreshed(null);
@@ -352,6 +455,126 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
     setSelectedModel(model);
   };
 
+  // Handle region selection: a REGIONS key or the current map viewport
+  const selectRegion = async (region: string | null) => {
+    if (!region) {
+      await selectManufacturer(null);
+      return;
+    }
+
+    let bounds: BoundingBox | null = null;
+    if (region === VIEWPORT_REGION) {
+      if (!mapInstance) {
+        onError('Map is not ready yet');
+        return;
+      }
+      const viewport = mapInstance.getBounds();
+      bounds = boundingBoxFromEdges(
+        viewport.getSouth(),
+        viewport.getNorth(),
+        viewport.getWest(),
+        viewport.getEast()
+      );
+    } else {
+      bounds = REGIONS[region]?.bounds || null;
+    }
+
+    if (!bounds) {
+      onError(`Unknown region: ${region}`);
+      return;
+    }
+
+    setSelectedManufacturer(null);
+    setSearchedAircraft(null);
+    setSelectedRegion(region);
+    setManufacturerFilter(null);
+    setCountryFilter(null);
+    setSelectedModel(null);
+    setIsLoading(true);
+    setLastRefreshed(null);
+
+    try {
+      await openSkyTrackingService.trackRegion(bounds);
+      setLastRefreshed(new Date().toLocaleTimeString());
+    } catch (error) {
+      onError(
+        `Error tracking region: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Track a single aircraft picked from the registry search and fly to it
+  // when it is airborne
+  const trackSearchResult = async (result: AircraftSearchResult) => {
+    const icao24 = result.icao24.toLowerCase();
+    const manufacturer = result.manufacturer || 'Unknown';
+    const label = result.n_number ? `N${result.n_number}` : icao24;
+
+    setSelectedManufacturer(manufacturer);
+    setSearchedAircraft(result);
+    setSelectedRegion(null);
+    setManufacturerFilter(null);
+    setCountryFilter(null);
+    setSelectedModel(null);
+    setIsLoading(true);
+    setLastRefreshed(null);
+
+    try {
+      const tracked = await openSkyTrackingService.trackAircraft(
+        [icao24],
+        manufacturer
+      );
+      setLastRefreshed(new Date().toLocaleTimeString());
+
+      const aircraft = tracked.find(
+        (plane) => plane.icao24?.toLowerCase() === icao24
+      );
+
+      if (
+        aircraft &&
+        !aircraft.on_ground &&
+        Number.isFinite(aircraft.latitude) &&
+        Number.isFinite(aircraft.longitude)
+      ) {
+        mapInstance?.flyTo(
+          [aircraft.latitude, aircraft.longitude],
+          Math.max(mapInstance.getZoom(), 9)
+        );
+        openAircraftPanel({
+          ...aircraft,
+          type: aircraft.TYPE_AIRCRAFT || 'Unknown',
+          isGovernment:
+            aircraft.operator?.toLowerCase().includes('government') ?? false,
+        });
+        setTrackingStatus(`Tracking ${label}`);
+      } else {
+        setTrackingStatus(
+          `${label} is ${aircraft ? 'on the ground' : 'not airborne'} right now`
+        );
+      }
+    } catch (error) {
+      onError(
+        `Error tracking ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Filter region results by manufacturer (client side)
+  const handleSetManufacturerFilter = (manufacturer: string | null) => {
+    setManufacturerFilter(manufacturer);
+    setSelectedModel(null);
+  };
+
+  // Filter results by registration country (client side)
+  const handleSetCountryFilter = (country: string | null) => {
+    setCountryFilter(country);
+    setSelectedModel(null);
+  };
+
   // Handle aircraft selection
   const selectAircraft = (aircraft: ExtendedAircraft | null) => {
     setSelectedAircraft(aircraft);
@@ -373,7 +596,7 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
 
   // Method to refresh only the positions of active aircraft
   const refreshPositions = async () => {
-    if (isRefreshing || !selectedManufacturer) return;
+    if (isRefreshing || (!selectedManufacturer && !selectedRegion)) return;
 
     setIsRefreshing(true);
     setTrackingStatus('Updating aircraft positions...');
@@ -399,7 +622,7 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
 
   // Method for full tracking refresh
   const fullRefresh = async () => {
-    if (!selectedManufacturer || isRefreshing) return;
+    if ((!selectedManufacturer && !selectedRegion) || isRefreshing) return;
 
     // Set a timeout to force exit from loading state after 10 seconds
     // This is a safety mechanism
@@ -419,8 +642,11 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
         (aircraft) => aircraft.icao24 && aircraft.latitude && aircraft.longitude
       );
 
+      // Region queries always fetch the whole box
       const needsFullRefresh =
-        !lastFullRefreshTime || Date.now() - lastFullRefreshTime > 3600000;
+        !!selectedRegion ||
+        !lastFullRefreshTime ||
+        Date.now() - lastFullRefreshTime > 3600000;
 
       let success = false;
 
@@ -510,6 +736,114 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
     }
   }, [trailsEnabled, maxTrailLength, aircraftTrails]);
 
+  // Load the full track whenever a different aircraft is selected
+  const panelIcao24 = panelAircraft?.icao24?.toLowerCase() || null;
+  useEffect(() => {
+    setSelectedTrack(null);
+    if (!panelIcao24) return;
+
+    let cancelled = false;
+    setIsTrackLoading(true);
+
+    openSkyTrackingService
+      .getAircraftTrack(panelIcao24)
+      .then((positions) => {
+        if (cancelled || positions.length < 2) return;
+        setSelectedTrack({
+          icao24: panelIcao24,
+          positions: positions as AircraftPosition[],
+        });
+      })
+      .catch((error) => {
+        console.error(
+          `[EnhancedMapContext] Failed to load track for ${panelIcao24}:`,
+          error
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsTrackLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [panelIcao24]);
+
+  // Load the detail record whenever a different aircraft is selected and
+  // keep the URL pointing at it so it can be shared
+  useEffect(() => {
+    setSelectedDetail(null);
+
+    const url = new URL(window.location.href);
+    if (panelIcao24) {
+      url.searchParams.set(AIRCRAFT_QUERY_PARAM, panelIcao24);
+    } else if (deepLinkHandledRef.current) {
+      url.searchParams.delete(AIRCRAFT_QUERY_PARAM);
+    }
+    window.history.replaceState(window.history.state, '', url.toString());
+
+    if (!panelIcao24) return;
+
+    let cancelled = false;
+    setIsDetailLoading(true);
+
+    openSkyTrackingService
+      .getAircraftDetail(panelIcao24)
+      .then((detail) => {
+        if (!cancelled) setSelectedDetail(detail);
+      })
+      .catch((error) => {
+        console.error(
+          `[EnhancedMapContext] Failed to load detail for ${panelIcao24}:`,
+          error
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsDetailLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [panelIcao24]);
+
+  // Open a deep link (?aircraft=<icao24>) once the map is ready
+  useEffect(() => {
+    if (!mapInstance || deepLinkHandledRef.current) return;
+    deepLinkHandledRef.current = true;
+
+    const icao24 = new URLSearchParams(window.location.search)
+      .get(AIRCRAFT_QUERY_PARAM)
+      ?.trim()
+      .toLowerCase();
+    if (!icao24 || !/^[0-9a-f]{6}$/.test(icao24)) return;
+
+    openSkyTrackingService
+      .getAircraftDetail(icao24)
+      .then((detail) => {
+        if (!detail) {
+          onError(`Unknown aircraft ${icao24}`);
+          return;
+        }
+
+        const registry = detail.registry;
+        return trackSearchResult({
+          icao24,
+          n_number: registry?.n_number ?? null,
+          manufacturer: registry?.manufacturer ?? null,
+          model: registry?.model ?? null,
+          name: registry?.name ?? null,
+          city: registry?.city ?? null,
+          state: registry?.state ?? null,
+        });
+      })
+      .catch((error) => {
+        onError(
+          `Error opening aircraft ${icao24}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      });
+  }, [mapInstance]);
+
   // Toggle trails on/off
   const toggleTrails = useCallback(() => {
     const newTrailsEnabled = !trailsEnabled;
@@ -544,6 +878,14 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
     activeModels,
     totalActive,
 
+    selectedRegion,
+    manufacturerFilter,
+    activeManufacturers,
+    countryFilter,
+    activeCountries,
+
+    searchedAircraft,
+
     isLoading,
     isRefreshing,
     trackingStatus,
@@ -554,8 +896,18 @@ export const EnhancedMapProvider: React.FC<EnhancedMapProviderProps> = ({
     maxTrailLength,
     aircraftTrails,
 
+    selectedTrack,
+    isTrackLoading,
+
+    selectedDetail,
+    isDetailLoading,
+
     selectManufacturer,
     selectModel,
+    selectRegion,
+    setManufacturerFilter: handleSetManufacturerFilter,
+    setCountryFilter: handleSetCountryFilter,
+    trackSearchResult,
     reset,
     refreshPositions,
     fullRefresh,
@@ -1,5 +1,10 @@
 // components/tracking/utils/AircraftIcon.tsx
 import type { Aircraft } from '@/types/base';
+import {
+  getEmergencySquawk,
+  getEmitterCategoryLabel,
+} from '@/utils/state-vector';
+import { getOwnerTypeLabel } from '@/utils/registry-codes';
 
 interface AircraftIconOptions {
   isSelected?: boolean;
@@ -121,6 +126,10 @@ export const createTooltipContent = (
   // Heading (if available)
   const heading = aircraft.heading ? Math.round(aircraft.heading) + '°' : 'N/A';
 
+  // Squawk, flagged when it is an emergency code
+  const emergency = getEmergencySquawk(aircraft.squawk);
+  const categoryLabel = getEmitterCategoryLabel(aircraft.category);
+
   // Create responsive tooltip with improved two-column layout
   return `
     <div class="aircraft-tooltip-header">
@@ -151,6 +160,26 @@ export const createTooltipContent = (
         `
             : ''
         }
+        ${
+          aircraft.squawk
+            ? `
+        <div>
+          <span class="data-label">Squawk:</span>
+          <span class="data-value${emergency ? ' data-value-alert' : ''}">${aircraft.squawk}${emergency ? ` (${emergency})` : ''}</span>
+        </div>
+        `
+            : ''
+        }
+        ${
+          zoomLevel >= 9 && categoryLabel
+            ? `
+        <div class="aircraft-data-full">
+          <span class="data-label">Category:</span>
+          <span class="data-value">${categoryLabel}</span>
+        </div>
+        `
+            : ''
+        }
         ${
           zoomLevel >= 10 && aircraft.manufacturer
             ? `
@@ -311,20 +340,7 @@ export const createPopupContent = (
   `;
 };
 
-// Helper function to convert owner type codes to readable labels
-export const getOwnerTypeLabel = (ownerType: string): string => {
-  const ownerTypes: Record<string, string> = {
-    '1': 'Individual',
-    '2': 'Partnership',
-    '3': 'Corporation',
-    '4': 'Co-Owned',
-    '5': 'Government',
-    '7': 'LLC',
-    '8': 'Non-Citizen Corporation',
-    '9': 'Non-Citizen Co-Owned',
-  };
-  return ownerTypes[ownerType] || `Type ${ownerType}`;
-};
+export { getOwnerTypeLabel };
 
 export default {
   createAircraftIcon,
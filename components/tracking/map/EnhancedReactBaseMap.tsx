@@ -6,6 +6,7 @@ import {
   TileLayer,
   useMap,
   LayersControl,
+  LayerGroup,
   ZoomControl,
 } from 'react-leaflet';
 import { MAP_CONFIG } from '@/config/map';
@@ -21,6 +22,9 @@ import { useEnhancedUI } from '../../tracking/context/EnhancedUIContext';
 import DraggablePanel from '../DraggablePanel';
 import EnhancedTooltip from '../map/components/AircraftTooltip';
 import EnhancedTrailSystem from '../../tracking/map/components/EnhancedTrailSystem';
+import SelectedAircraftTrack from './components/SelectedAircraftTrack';
+import ApiBudgetIndicator from './components/ApiBudgetIndicator';
+import AirportLayer, { AIRPORT_LAYER_NAME } from './components/AirportLayer';
 import { LoadingSpinner } from '@/components/shared/LoadingSpinner';
 import openSkyTrackingService from '../../../lib/services/openSkyTrackingService';
 import 'leaflet/dist/leaflet.css';
@@ -195,7 +199,13 @@ const EnhancedReactBaseMap: React.FC<ReactBaseMapProps> = ({ onError }) => {
         <MapEvents />
         <ZoomControl position="bottomright" />
         <LeafletTouchFix />
-        <LayersControl position="topright">{/* Layer options */}</LayersControl>
+        <LayersControl position="topright">
+          <LayersControl.Overlay name={AIRPORT_LAYER_NAME}>
+            <LayerGroup>
+              <AirportLayer />
+            </LayerGroup>
+          </LayersControl.Overlay>
+        </LayersControl>
 
         {/* Aircraft trails - only render if enabled */}
         {trailSettings.enabled && (
@@ -206,6 +216,9 @@ const EnhancedReactBaseMap: React.FC<ReactBaseMapProps> = ({ onError }) => {
           />
         )}
 
+        {/* Full flight track of the selected aircraft */}
+        <SelectedAircraftTrack />
+
         {/* Aircraft markers using our unified marker component */}
         {validAircraft.map((aircraft: ExtendedAircraft) => (
           <UnifiedAircraftMarker
@@ -217,7 +230,7 @@ const EnhancedReactBaseMap: React.FC<ReactBaseMapProps> = ({ onError }) => {
       </MapContainer>
 
       {/* UI Components using our unified system */}
-      <div className="absolute bottom-5 left-5 z-50">
+      <div className="absolute bottom-5 left-5 z-50 flex gap-2">
         <EnhancedTooltip content="Current status" position="top">
           <div className="bg-white p-2 rounded-md shadow-md">
             <span className="text-sm font-medium">
@@ -227,6 +240,7 @@ const EnhancedReactBaseMap: React.FC<ReactBaseMapProps> = ({ onError }) => {
             </span>
           </div>
         </EnhancedTooltip>
+        <ApiBudgetIndicator />
       </div>
 
       {/* Map controls */}
@@ -22,8 +22,13 @@ const UnifiedAircraftMarker: React.FC<UnifiedAircraftMarkerProps> = ({
   aircraft,
   isStale = false,
 }) => {
-  const { selectedAircraft, zoomLevel, trailsEnabled, aircraftTrails } =
-    useEnhancedMapContext();
+  const {
+    selectedAircraft,
+    zoomLevel,
+    trailsEnabled,
+    aircraftTrails,
+    selectedTrack,
+  } = useEnhancedMapContext();
   const { selectAircraft } = useEnhancedUI();
   const { getEnhancedAircraft } = useDataPersistence();
   const [isHovering, setIsHovering] = useState(false);
@@ -80,9 +85,10 @@ const UnifiedAircraftMarker: React.FC<UnifiedAircraftMarkerProps> = ({
       : 0,
   ];
 
-  // Get trail for this aircraft if enabled
+  // Get trail for this aircraft if enabled; the full flight track replaces it
+  const hasFullTrack = selectedTrack?.icao24 === aircraft.icao24.toLowerCase();
   const trail =
-    trailsEnabled && aircraftTrails
+    trailsEnabled && aircraftTrails && !hasFullTrack
       ? aircraftTrails.get(aircraft.icao24)
       : undefined;
 
@@ -0,0 +1,98 @@
+// components/tracking/map/components/AirportLayer.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { CircleMarker, Tooltip, useMapEvents } from 'react-leaflet';
+import type { AirportRow } from '@/types/database';
+import openSkyTrackingService from '../../../../lib/services/openSkyTrackingService';
+import { boundingBoxFromEdges } from '../../../../utils/geo';
+
+export const AIRPORT_LAYER_NAME = 'Airports';
+
+// Below this zoom a view holds too many airports to be useful
+const MIN_ZOOM = 7;
+
+const AIRPORT_STYLES: Record<string, { radius: number; color: string }> = {
+  large_airport: { radius: 7, color: '#1d4ed8' },
+  medium_airport: { radius: 5, color: '#2563eb' },
+  small_airport: { radius: 3, color: '#60a5fa' },
+};
+
+/**
+ * Airports in the current view, loaded while the "Airports" overlay of
+ * the layers control is switched on. Render inside that overlay.
+ */
+const AirportLayer: React.FC = () => {
+  const [visible, setVisible] = useState(false);
+  const [airports, setAirports] = useState<AirportRow[]>([]);
+
+  const map = useMapEvents({
+    overlayadd: (event) => {
+      if (event.name === AIRPORT_LAYER_NAME) setVisible(true);
+    },
+    overlayremove: (event) => {
+      if (event.name === AIRPORT_LAYER_NAME) setVisible(false);
+    },
+    moveend: () => {
+      if (visible) void loadAirports();
+    },
+  });
+
+  const loadAirports = useCallback(async () => {
+    if (map.getZoom() < MIN_ZOOM) {
+      setAirports([]);
+      return;
+    }
+
+    const bounds = map.getBounds();
+    try {
+      setAirports(
+        await openSkyTrackingService.getAirports(
+          boundingBoxFromEdges(
+            bounds.getSouth(),
+            bounds.getNorth(),
+            bounds.getWest(),
+            bounds.getEast()
+          )
+        )
+      );
+    } catch (error) {
+      console.error('[AirportLayer] Failed to load airports:', error);
+    }
+  }, [map]);
+
+  useEffect(() => {
+    if (visible) {
+      void loadAirports();
+    } else {
+      setAirports([]);
+    }
+  }, [visible, loadAirports]);
+
+  return (
+    <>
+      {airports.map((airport) => {
+        const style =
+          AIRPORT_STYLES[airport.type] || AIRPORT_STYLES.small_airport;
+        return (
+          <CircleMarker
+            key={airport.ident}
+            center={[airport.lat, airport.lon]}
+            radius={style.radius}
+            pathOptions={{
+              color: style.color,
+              fillColor: style.color,
+              fillOpacity: 0.6,
+              weight: 1,
+            }}
+          >
+            <Tooltip direction="top">
+              <span className="font-medium">{airport.code}</span> {airport.name}
+              {airport.municipality ? ` (${airport.municipality})` : ''}
+            </Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+};
+
+export default AirportLayer;
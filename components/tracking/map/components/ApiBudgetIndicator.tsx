@@ -0,0 +1,71 @@
+// components/tracking/map/components/ApiBudgetIndicator.tsx
+import React, { useEffect, useState } from 'react';
+import openSkyTrackingService from '../../../../lib/services/openSkyTrackingService';
+import type { CreditBudget } from '@/lib/services/providers/types';
+import EnhancedTooltip from './AircraftTooltip';
+
+const POLL_INTERVAL = 30000; // 30 seconds
+
+/**
+ * Remaining API credits of the live data source.
+ * Renders nothing for sources that are not credit-metered.
+ */
+const ApiBudgetIndicator: React.FC = () => {
+  const [credits, setCredits] = useState<CreditBudget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const update = async () => {
+      try {
+        const status = await openSkyTrackingService.getApiBudget();
+        if (!cancelled) setCredits(status.credits ?? null);
+      } catch (error) {
+        console.error('[ApiBudgetIndicator] Failed to load budget:', error);
+      }
+    };
+
+    update();
+    const interval = setInterval(update, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!credits) {
+    return null;
+  }
+
+  const ratio =
+    credits.dailyLimit > 0 ? credits.remaining / credits.dailyLimit : 0;
+  const colorClass =
+    credits.retryAfter > 0 || ratio < 0.1
+      ? 'text-red-600'
+      : ratio < 0.3
+        ? 'text-amber-600'
+        : 'text-green-700';
+
+  const details = [
+    `Resets ${new Date(credits.resetsAt).toLocaleTimeString()}`,
+    credits.estimated ? 'Estimated until the next API response' : null,
+    credits.queued > 0 ? `${credits.queued} requests queued` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <EnhancedTooltip content={details} position="top">
+      <div className="bg-white p-2 rounded-md shadow-md">
+        <span className={`text-sm font-medium ${colorClass}`}>
+          {credits.retryAfter > 0
+            ? `Rate limited, retry in ${credits.retryAfter}s`
+            : `${credits.estimated ? '~' : ''}${credits.remaining.toLocaleString()} / ${credits.dailyLimit.toLocaleString()} credits`}
+        </span>
+      </div>
+    </EnhancedTooltip>
+  );
+};
+
+export default ApiBudgetIndicator;
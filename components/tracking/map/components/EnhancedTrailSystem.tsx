@@ -27,6 +27,7 @@ const EnhancedTrailSystem: React.FC<EnhancedTrailSystemProps> = ({
   selectedOnly = false,
 }) => {
   const { selectedAircraft } = useEnhancedUI();
+  const { selectedTrack } = useEnhancedMapContext();
   const [trails, setTrails] = useState<Map<string, AircraftPosition[]>>(
     new Map()
   );
@@ -90,6 +91,11 @@ const EnhancedTrailSystem: React.FC<EnhancedTrailSystemProps> = ({
     });
   }
 
+  // The selected aircraft's full flight track is drawn separately
+  if (selectedTrack) {
+    filteredTrails.delete(selectedTrack.icao24);
+  }
+
   // If no trails to display, return null
   if (filteredTrails.size === 0) {
     return null;
@@ -0,0 +1,34 @@
+// components/tracking/map/components/SelectedAircraftTrack.tsx
+import React from 'react';
+import { useEnhancedMapContext } from '../../context/EnhancedMapContext';
+import AircraftTrail from './AircraftTrail';
+
+/**
+ * Full flight track of the aircraft selected in the info panel.
+ * Replaces the short local trail for that aircraft.
+ */
+const SelectedAircraftTrack: React.FC = () => {
+  const { selectedTrack } = useEnhancedMapContext();
+
+  if (!selectedTrack || selectedTrack.positions.length < 2) {
+    return null;
+  }
+
+  return (
+    <AircraftTrail
+      positions={selectedTrack.positions.map((pos) => ({
+        lat: pos.latitude,
+        lng: pos.longitude,
+        altitude: pos.altitude,
+        timestamp: pos.timestamp,
+      }))}
+      color="#e11d48"
+      weight={3}
+      opacity={0.85}
+      fadeEffect={false}
+      selected={true}
+    />
+  );
+};
+
+export default SelectedAircraftTrack;
@@ -1,27 +1,43 @@
 // components/tracking/panels/UnifiedAircraftInfoPanel.tsx
-import React from 'react';
+import React, { useState } from 'react';
 import DraggablePanel from '../../DraggablePanel';
 import { useEnhancedUI } from '../../../tracking/context/EnhancedUIContext';
+import { useEnhancedMapContext } from '../../../tracking/context/EnhancedMapContext';
+import {
+  getEmergencySquawk,
+  getEmitterCategoryLabel,
+  getPositionSourceLabel,
+} from '@/utils/state-vector';
+import { getOwnerTypeLabel } from '@/utils/registry-codes';
+import { getIcaoAllocation } from '@/utils/icao-allocations';
+import type { AircraftDetail } from '@/lib/services/aircraft-detail';
 
-// Helper function to convert owner type cod/es to readable labels
-function getOwnerTypeLabel(ownerType: string): string {
-  const ownerTypes: Record<string, string> = {
-    '1': 'Individual',
-    '2': 'Partnership',
-    '3': 'Corp.',
-    '4': 'Co-Owned',
-    '5': 'Government',
-    '7': 'LLC',
-    '8': 'Non-Citizen Corporation',
-    '9': 'Non-Citizen Co-Owned',
-  };
-  return ownerTypes[ownerType] || `Type ${ownerType}`;
+// "3 min ago" style label for a time in seconds since epoch
+function formatLastSeen(seconds: number): string {
+  const elapsed = Math.max(0, Math.round(Date.now() / 1000 - seconds));
+  if (elapsed < 60) return `${elapsed}s ago`;
+  if (elapsed < 3600) return `${Math.round(elapsed / 60)} min ago`;
+  if (elapsed < 86400) return `${Math.round(elapsed / 3600)} h ago`;
+  return new Date(seconds * 1000).toLocaleDateString();
+}
+
+// "departed KABC → KDEF" for a tagged recent flight, else "near KXYZ"
+function formatAirportLabel(detail: AircraftDetail): string | null {
+  const departure = detail.flight?.departure_airport;
+  const arrival = detail.flight?.arrival_airport;
+  if (departure && arrival) return `departed ${departure} → ${arrival}`;
+  if (departure) return `departed ${departure}`;
+  if (arrival) return `arrived ${arrival}`;
+  if (detail.nearestAirport) return `near ${detail.nearestAirport.code}`;
+  return null;
 }
 
 const UnifiedAircraftInfoPanel: React.FC = () => {
   const { panels, closePanel, setPanelPosition, selectedAircraft } =
     useEnhancedUI();
   const { isOpen, position } = panels.aircraftInfo;
+  const { selectedDetail, isDetailLoading } = useEnhancedMapContext();
+  const [showDetails, setShowDetails] = useState(false);
 
   const handleClose = () => {
     closePanel('aircraftInfo');
@@ -39,8 +55,42 @@ const UnifiedAircraftInfoPanel: React.FC = () => {
     ? Math.round(selectedAircraft.velocity) + ' kts'
     : 'N/A';
 
+  const formattedGeoAltitude =
+    typeof selectedAircraft.geo_altitude === 'number'
+      ? Math.round(selectedAircraft.geo_altitude).toLocaleString() + ' ft'
+      : null;
+
+  // Transponder and ADS-B details
+  const emergency = getEmergencySquawk(selectedAircraft.squawk);
+  const categoryLabel = getEmitterCategoryLabel(selectedAircraft.category);
+  const positionSource = getPositionSourceLabel(
+    selectedAircraft.position_source
+  );
+
+  // Detail record of this aircraft (registry, reference, last seen)
+  const detail =
+    selectedDetail?.icao24 === selectedAircraft.icao24?.toLowerCase()
+      ? selectedDetail
+      : null;
+  const registry = detail?.registry;
+  const reference = detail?.reference;
+  const ownerType =
+    detail?.ownerType ||
+    (selectedAircraft.OWNER_TYPE
+      ? getOwnerTypeLabel(selectedAircraft.OWNER_TYPE)
+      : null);
+
+  const airportLabel = detail ? formatAirportLabel(detail) : null;
+
+  // State of registry from the address block
+  const allocation = getIcaoAllocation(selectedAircraft.icao24);
+  const country = selectedAircraft.registrationCountry || allocation?.country;
+  const countryFlag = selectedAircraft.countryFlag || allocation?.flag;
+  const militaryHint = selectedAircraft.militaryHint ?? allocation?.military;
+
   // Registration or N-Number display (with fallbacks)
   const registration =
+    detail?.registration ||
     selectedAircraft.registration ||
     selectedAircraft['N-NUMBER'] ||
     selectedAircraft.icao24;
@@ -76,12 +126,70 @@ const UnifiedAircraftInfoPanel: React.FC = () => {
           </tr>
           <tr>
             <td className="py-1 text-gray-600 font-medium">Manufacturer:</td>
-            <td className="py-1">{selectedAircraft.manufacturer || 'N/A'}</td>
+            <td className="py-1">
+              {selectedAircraft.manufacturer || registry?.manufacturer || 'N/A'}
+            </td>
           </tr>
+          {country && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Country:</td>
+              <td className="py-1">
+                {countryFlag ? `${countryFlag} ` : ''}
+                {country}
+                {militaryHint && (
+                  <span className="ml-2 px-2 py-0.5 bg-gray-200 text-gray-800 rounded-full text-xs">
+                    Military block
+                  </span>
+                )}
+              </td>
+            </tr>
+          )}
+          {detail?.aircraftType && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Type:</td>
+              <td className="py-1">{detail.aircraftType}</td>
+            </tr>
+          )}
+          {selectedAircraft.callsign && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Callsign:</td>
+              <td className="py-1">{selectedAircraft.callsign}</td>
+            </tr>
+          )}
+          {selectedAircraft.squawk && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Squawk:</td>
+              <td className="py-1">
+                {selectedAircraft.squawk}
+                {emergency && (
+                  <span className="ml-2 px-2 py-0.5 bg-red-100 text-red-800 rounded-full text-xs">
+                    {emergency}
+                  </span>
+                )}
+                {selectedAircraft.spi && (
+                  <span className="ml-2 px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full text-xs">
+                    Ident
+                  </span>
+                )}
+              </td>
+            </tr>
+          )}
+          {categoryLabel && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Category:</td>
+              <td className="py-1">{categoryLabel}</td>
+            </tr>
+          )}
           <tr>
             <td className="py-1 text-gray-600 font-medium">Altitude:</td>
             <td className="py-1">{formattedAltitude}</td>
           </tr>
+          {formattedGeoAltitude && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Geo Altitude:</td>
+              <td className="py-1">{formattedGeoAltitude}</td>
+            </tr>
+          )}
           <tr>
             <td className="py-1 text-gray-600 font-medium">Speed:</td>
             <td className="py-1">{formattedSpeed}</td>
@@ -92,6 +200,12 @@ const UnifiedAircraftInfoPanel: React.FC = () => {
               <td className="py-1">{Math.round(selectedAircraft.heading)}°</td>
             </tr>
           )}
+          {positionSource && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Source:</td>
+              <td className="py-1">{positionSource}</td>
+            </tr>
+          )}
           {/* Owner information */}
           {selectedAircraft.NAME && (
             <tr>
@@ -110,12 +224,10 @@ const UnifiedAircraftInfoPanel: React.FC = () => {
               </td>
             </tr>
           )}
-          {selectedAircraft.OWNER_TYPE && (
+          {ownerType && (
             <tr>
               <td className="py-1 text-gray-600 font-medium">Owner Type:</td>
-              <td className="py-1">
-                {getOwnerTypeLabel(selectedAircraft.OWNER_TYPE)}
-              </td>
+              <td className="py-1">{ownerType}</td>
             </tr>
           )}
           {selectedAircraft.on_ground !== undefined && (
@@ -130,19 +242,110 @@ const UnifiedAircraftInfoPanel: React.FC = () => {
               </td>
             </tr>
           )}
+          {airportLabel && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Airport:</td>
+              <td className="py-1">{airportLabel}</td>
+            </tr>
+          )}
+          {detail?.lastSeen && (
+            <tr>
+              <td className="py-1 text-gray-600 font-medium">Last Seen:</td>
+              <td className="py-1">{formatLastSeen(detail.lastSeen)}</td>
+            </tr>
+          )}
         </tbody>
       </table>
 
+      {/* Registry and model reference data */}
+      {showDetails && (
+        <div className="mt-3 pt-2 border-t border-gray-200">
+          {isDetailLoading && !detail ? (
+            <p className="text-sm text-gray-500">Loading details...</p>
+          ) : !registry ? (
+            <p className="text-sm text-gray-500">No registry record</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {reference?.yearMfr && (
+                  <tr>
+                    <td
+                      className="py-1 text-gray-600 font-medium"
+                      style={{ width: '40%' }}
+                    >
+                      Built:
+                    </td>
+                    <td className="py-1">{reference.yearMfr}</td>
+                  </tr>
+                )}
+                {registry.serial_number && (
+                  <tr>
+                    <td className="py-1 text-gray-600 font-medium">Serial:</td>
+                    <td className="py-1">{registry.serial_number}</td>
+                  </tr>
+                )}
+                {(reference?.numEngines !== null || reference?.engineType) && (
+                  <tr>
+                    <td className="py-1 text-gray-600 font-medium">Engines:</td>
+                    <td className="py-1">
+                      {[reference?.numEngines, reference?.engineType]
+                        .filter(
+                          (value) => value !== null && value !== undefined
+                        )
+                        .join(' × ')}
+                    </td>
+                  </tr>
+                )}
+                {(reference?.engineManufacturer || reference?.engineModel) && (
+                  <tr>
+                    <td className="py-1 text-gray-600 font-medium">
+                      Engine Model:
+                    </td>
+                    <td className="py-1">
+                      {[reference?.engineManufacturer, reference?.engineModel]
+                        .filter(Boolean)
+                        .join(' ')}
+                    </td>
+                  </tr>
+                )}
+                {reference?.numSeats !== null && (
+                  <tr>
+                    <td className="py-1 text-gray-600 font-medium">Seats:</td>
+                    <td className="py-1">{reference?.numSeats}</td>
+                  </tr>
+                )}
+                {reference?.weightClass && (
+                  <tr>
+                    <td className="py-1 text-gray-600 font-medium">Weight:</td>
+                    <td className="py-1">
+                      {reference.weightClassLabel || reference.weightClass}
+                    </td>
+                  </tr>
+                )}
+                {registry.country && (
+                  <tr>
+                    <td className="py-1 text-gray-600 font-medium">
+                      Registered:
+                    </td>
+                    <td className="py-1">{registry.country}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       {/* View Details button */}
       <div className="mt-3 text-center">
         <button
           className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-1 rounded text-sm transition-colors"
           onClick={(e) => {
             e.stopPropagation(); // Prevent drag trigger
-            console.log('View details for:', selectedAircraft.icao24);
+            setShowDetails((shown) => !shown);
           }}
         >
-          View Details
+          {showDetails ? 'Hide Details' : 'View Details'}
         </button>
       </div>
     </DraggablePanel>
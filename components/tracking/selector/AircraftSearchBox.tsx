@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { AircraftSearchResult } from '@/types/database';
+
+interface AircraftSearchBoxProps {
+  onSelect: (result: AircraftSearchResult) => void;
+  disabled?: boolean;
+}
+
+const PAGE_SIZE = 10;
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+const formatRegistration = (result: AircraftSearchResult) =>
+  result.n_number ? `N${result.n_number}` : result.icao24.toUpperCase();
+
+// Registry search (registration, ICAO24, owner, city, state, model)
+const AircraftSearchBox: React.FC<AircraftSearchBoxProps> = ({
+  onSelect,
+  disabled = false,
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<AircraftSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const search = async (text: string, offset: number) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        q: text,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      const response = await fetch(`/api/aircraft/search?${params}`, {
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Search failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setResults((current) =>
+        offset === 0 ? data.results : [...current, ...data.results]
+      );
+      setTotal(data.total);
+      if (offset === 0) setHighlighted(0);
+    } catch (searchError) {
+      if ((searchError as Error).name === 'AbortError') return;
+      console.error('[AircraftSearch] Search failed:', searchError);
+      setError('Search is unavailable right now');
+    } finally {
+      if (requestRef.current === controller) {
+        setIsSearching(false);
+      }
+    }
+  };
+
+  // Debounced search as the user types
+  useEffect(() => {
+    const text = query.trim();
+    if (text.length < MIN_QUERY_LENGTH) {
+      requestRef.current?.abort();
+      setResults([]);
+      setTotal(0);
+      setIsSearching(false);
+      return;
+    }
+
+    const timer = setTimeout(() => search(text, 0), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Close results when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const pick = (result: AircraftSearchResult) => {
+    setIsOpen(false);
+    setQuery(formatRegistration(result));
+    onSelect(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || results.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showResults = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className="px-4 pt-4" ref={containerRef}>
+      <div className="mb-2">
+        <label className="text-sm font-medium text-gray-700">
+          Search Aircraft
+        </label>
+      </div>
+
+      <div className="relative">
+        <input
+          type="text"
+          className="w-full pl-8 pr-2 py-2 border border-gray-300 hover:border-gray-400 rounded-md"
+          placeholder="N-number, ICAO24, owner, city..."
+          value={query}
+          disabled={disabled}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+        />
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-4 w-4 absolute left-3 top-3 text-gray-400"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+          />
+        </svg>
+
+        {showResults && (
+          <div
+            className="absolute z-30 mt-1 w-full bg-white shadow-lg rounded-md border border-gray-200 overflow-y-auto"
+            style={{ maxHeight: '320px' }}
+          >
+            {error ? (
+              <div className="px-3 py-3 text-sm text-red-600">{error}</div>
+            ) : results.length === 0 ? (
+              <div className="px-3 py-3 text-sm text-gray-500">
+                {isSearching ? 'Searching...' : 'No matches found'}
+              </div>
+            ) : (
+              <>
+                <div className="px-3 py-1 text-xs text-gray-500 bg-gray-50 sticky top-0">
+                  {total} {total === 1 ? 'match' : 'matches'}
+                </div>
+                {results.map((result, index) => (
+                  <div
+                    key={result.icao24}
+                    className={`px-3 py-2 cursor-pointer ${
+                      index === highlighted
+                        ? 'bg-indigo-50 text-indigo-700'
+                        : 'text-gray-700 hover:bg-indigo-50'
+                    }`}
+                    onMouseEnter={() => setHighlighted(index)}
+                    onClick={() => pick(result)}
+                  >
+                    <div className="flex justify-between">
+                      <span className="font-medium">
+                        {formatRegistration(result)}
+                      </span>
+                      <span className="text-xs text-gray-500 font-mono">
+                        {result.icao24.toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {!result.manufacturer && !result.model && !result.name
+                        ? 'Not in registry'
+                        : ''}
+                      {[result.manufacturer, result.model]
+                        .filter(Boolean)
+                        .join(' ')}
+                      {result.name ? ` · ${result.name}` : ''}
+                      {result.city
+                        ? ` · ${result.city}${result.state ? `, ${result.state}` : ''}`
+                        : ''}
+                    </div>
+                  </div>
+                ))}
+                {results.length < total && (
+                  <button
+                    className="w-full px-3 py-2 text-xs text-indigo-600 hover:text-indigo-800 hover:underline disabled:text-gray-400"
+                    disabled={isSearching}
+                    onClick={() => search(query.trim(), results.length)}
+                  >
+                    {isSearching
+                      ? 'Loading...'
+                      : `Show more (${total - results.length} remaining)`}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AircraftSearchBox;
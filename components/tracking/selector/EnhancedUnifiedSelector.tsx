@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useEnhancedMapContext } from '../context/EnhancedMapContext';
+import {
+  useEnhancedMapContext,
+  VIEWPORT_REGION,
+} from '../context/EnhancedMapContext';
 import type { SelectOption } from '@/types/base';
+import { REGIONS } from '@/types/regions';
 import type { AircraftModel } from '../../../types/aircraft-models';
+import AircraftSearchBox from './AircraftSearchBox';
 
 // Define the props for the EnhancedUnifiedSelector component
 interface EnhancedUnifiedSelectorProps {
@@ -33,6 +38,23 @@ interface ManufacturerSelectionProps {
   dropdownVisible: boolean;
 }
 
+interface RegionSelectionProps {
+  selectRegion: (region: string | null) => void;
+  isLoading: boolean;
+}
+
+interface RegionManufacturerFilterProps {
+  activeManufacturers: { manufacturer: string; count: number }[];
+  manufacturerFilter: string | null;
+  setManufacturerFilter: (manufacturer: string | null) => void;
+}
+
+interface CountryFilterProps {
+  activeCountries: { country: string; flag: string; count: number }[];
+  countryFilter: string | null;
+  setCountryFilter: (country: string | null) => void;
+}
+
 interface ModelSelectionProps {
   modelMenuRef: React.RefObject<HTMLDivElement>;
   isModelMenuOpen: boolean;
@@ -47,6 +69,7 @@ interface ModelSelectionProps {
   isLoading: boolean;
   modelsByPopularity: AircraftModel[];
   fullRefresh: () => void;
+  resetLabel: string;
 }
 
 // Header sub-component for the selector
@@ -351,6 +374,96 @@ const ManufacturerSelection: React.FC<ManufacturerSelectionProps> = ({
   );
 };
 
+// Region selection sub-component (track everything inside an area)
+const RegionSelection: React.FC<RegionSelectionProps> = ({
+  selectRegion,
+  isLoading,
+}) => {
+  return (
+    <div className="px-4 pb-4">
+      <div className="mb-2">
+        <label className="text-sm font-medium text-gray-700">
+          Or Track a Region
+        </label>
+      </div>
+      <select
+        className="w-full px-3 py-2 border border-gray-300 hover:border-gray-400 rounded-md bg-white text-gray-700"
+        value=""
+        disabled={isLoading}
+        onChange={(e) => selectRegion(e.target.value || null)}
+      >
+        <option value="">Select region...</option>
+        <option value={VIEWPORT_REGION}>Current map view</option>
+        {Object.entries(REGIONS).map(([key, region]) => (
+          <option key={key} value={key}>
+            {region.name}
+          </option>
+        ))}
+      </select>
+      <p className="mt-1 text-xs text-gray-500">
+        Shows all aircraft in the area, including ones not in our registry
+      </p>
+    </div>
+  );
+};
+
+// Manufacturer filter for region results
+const RegionManufacturerFilter: React.FC<RegionManufacturerFilterProps> = ({
+  activeManufacturers,
+  manufacturerFilter,
+  setManufacturerFilter,
+}) => {
+  return (
+    <div className="px-4 pt-4">
+      <div className="mb-2">
+        <label className="text-sm font-medium text-gray-700">
+          Manufacturer
+        </label>
+      </div>
+      <select
+        className="w-full px-3 py-2 border border-gray-300 hover:border-gray-400 rounded-md bg-white text-gray-700"
+        value={manufacturerFilter || ''}
+        onChange={(e) => setManufacturerFilter(e.target.value || null)}
+      >
+        <option value="">All Manufacturers</option>
+        {activeManufacturers.map(({ manufacturer, count }) => (
+          <option key={manufacturer} value={manufacturer}>
+            {manufacturer} ({count})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+// Registration country filter, from the ICAO24 address block
+const CountryFilter: React.FC<CountryFilterProps> = ({
+  activeCountries,
+  countryFilter,
+  setCountryFilter,
+}) => {
+  return (
+    <div className="px-4 pt-4">
+      <div className="mb-2">
+        <label className="text-sm font-medium text-gray-700">Country</label>
+      </div>
+      <select
+        className="w-full px-3 py-2 border border-gray-300 hover:border-gray-400 rounded-md bg-white text-gray-700"
+        value={countryFilter || ''}
+        onChange={(e) => setCountryFilter(e.target.value || null)}
+      >
+        <option value="">All Countries</option>
+        {activeCountries.map(({ country, flag, count }) => (
+          <option key={country} value={country}>
+            {flag ? `${flag} ` : ''}
+            {country} ({count})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
 // Model selection sub-component
 const ModelSelection: React.FC<ModelSelectionProps> = ({
   modelMenuRef,
@@ -366,6 +479,7 @@ const ModelSelection: React.FC<ModelSelectionProps> = ({
   isLoading,
   modelsByPopularity,
   fullRefresh,
+  resetLabel,
 }) => {
   return (
     <div className="p-4">
@@ -392,7 +506,7 @@ const ModelSelection: React.FC<ModelSelectionProps> = ({
               onClick={() => reset()}
               className="text-xs text-indigo-600 hover:text-indigo-800 hover:underline"
             >
-              Change Manufacturer
+              {resetLabel}
             </button>
           </div>
         </div>
@@ -629,6 +743,16 @@ const EnhancedUnifiedSelector: React.FC<EnhancedUnifiedSelectorProps> = ({
     selectModel,
     reset,
     fullRefresh,
+    selectedRegion,
+    selectRegion,
+    manufacturerFilter,
+    setManufacturerFilter,
+    activeManufacturers,
+    countryFilter,
+    setCountryFilter,
+    activeCountries,
+    searchedAircraft,
+    trackSearchResult,
   } = useEnhancedMapContext();
 
   // UI state
@@ -672,10 +796,10 @@ const EnhancedUnifiedSelector: React.FC<EnhancedUnifiedSelectorProps> = ({
     }
   }, [isManufacturerMenuOpen]);
 
-  // Update compact mode based on manufacturer selection
+  // Update compact mode based on manufacturer or region selection
   useEffect(() => {
-    setIsCompact(!!selectedManufacturer);
-  }, [selectedManufacturer]);
+    setIsCompact(!!selectedManufacturer || !!selectedRegion);
+  }, [selectedManufacturer, selectedRegion]);
 
   // Close menus when clicking outside
   useEffect(() => {
@@ -776,6 +900,18 @@ const EnhancedUnifiedSelector: React.FC<EnhancedUnifiedSelectorProps> = ({
   };
 
   const getManufacturerLabel = () => {
+    if (selectedRegion) {
+      return selectedRegion === VIEWPORT_REGION
+        ? 'Current Map View'
+        : REGIONS[selectedRegion]?.name || selectedRegion;
+    }
+
+    if (searchedAircraft) {
+      return searchedAircraft.n_number
+        ? `N${searchedAircraft.n_number}`
+        : searchedAircraft.icao24.toUpperCase();
+    }
+
     const found = manufacturers.find((m) => m.value === selectedManufacturer);
     return found
       ? found.label.replace(/\s*\(\d+\s+aircraft\)$/, '')
@@ -804,7 +940,7 @@ const EnhancedUnifiedSelector: React.FC<EnhancedUnifiedSelectorProps> = ({
     >
       {/* Header Component */}
       <SelectorHeader
-        selectedManufacturer={selectedManufacturer}
+        selectedManufacturer={selectedManufacturer || selectedRegion}
         isCollapsed={isCollapsed}
         getManufacturerLabel={getManufacturerLabel}
         reset={reset}
@@ -815,39 +951,72 @@ const EnhancedUnifiedSelector: React.FC<EnhancedUnifiedSelectorProps> = ({
       {/* Content area - only shown when not collapsed */}
       {!isCollapsed && (
         <div className="transition-all duration-300">
-          {!selectedManufacturer ? (
+          {!selectedManufacturer && !selectedRegion ? (
             /* Manufacturer Selection View */
-            <ManufacturerSelection
-              manufacturers={manufacturers}
-              isManufacturerMenuOpen={isManufacturerMenuOpen}
-              setIsManufacturerMenuOpen={setIsManufacturerMenuOpen}
-              dropdownButtonRef={dropdownButtonRef}
-              manufacturerMenuRef={manufacturerMenuRef}
-              searchTerm={searchTerm}
-              setSearchTerm={setSearchTerm}
-              searchInputRef={searchInputRef}
-              selectManufacturerAndClose={selectManufacturerAndClose}
-              filteredManufacturers={filteredManufacturers}
-              selectedManufacturer={selectedManufacturer}
-              dropdownVisible={dropdownVisible}
-            />
+            <>
+              <AircraftSearchBox
+                onSelect={trackSearchResult}
+                disabled={isLoading}
+              />
+              <ManufacturerSelection
+                manufacturers={manufacturers}
+                isManufacturerMenuOpen={isManufacturerMenuOpen}
+                setIsManufacturerMenuOpen={setIsManufacturerMenuOpen}
+                dropdownButtonRef={dropdownButtonRef}
+                manufacturerMenuRef={manufacturerMenuRef}
+                searchTerm={searchTerm}
+                setSearchTerm={setSearchTerm}
+                searchInputRef={searchInputRef}
+                selectManufacturerAndClose={selectManufacturerAndClose}
+                filteredManufacturers={filteredManufacturers}
+                selectedManufacturer={selectedManufacturer}
+                dropdownVisible={dropdownVisible}
+              />
+              <RegionSelection
+                selectRegion={selectRegion}
+                isLoading={isLoading}
+              />
+            </>
           ) : (
             /* Model Selection View */
-            <ModelSelection
-              modelMenuRef={modelMenuRef}
-              isModelMenuOpen={isModelMenuOpen}
-              setIsModelMenuOpen={setIsModelMenuOpen}
-              selectedModel={selectedModel}
-              totalActive={totalActive}
-              groupedModels={groupedModels}
-              handleModelSelect={handleModelSelect}
-              selectModel={selectModel}
-              reset={reset}
-              activeModels={activeModels}
-              isLoading={isLoading}
-              modelsByPopularity={modelsByPopularity}
-              fullRefresh={fullRefresh}
-            />
+            <>
+              {selectedRegion && (
+                <RegionManufacturerFilter
+                  activeManufacturers={activeManufacturers}
+                  manufacturerFilter={manufacturerFilter}
+                  setManufacturerFilter={setManufacturerFilter}
+                />
+              )}
+              {(activeCountries.length > 1 || countryFilter) && (
+                <CountryFilter
+                  activeCountries={activeCountries}
+                  countryFilter={countryFilter}
+                  setCountryFilter={setCountryFilter}
+                />
+              )}
+              <ModelSelection
+                modelMenuRef={modelMenuRef}
+                isModelMenuOpen={isModelMenuOpen}
+                setIsModelMenuOpen={setIsModelMenuOpen}
+                selectedModel={selectedModel}
+                totalActive={totalActive}
+                groupedModels={groupedModels}
+                handleModelSelect={handleModelSelect}
+                selectModel={selectModel}
+                reset={reset}
+                activeModels={activeModels}
+                isLoading={isLoading}
+                modelsByPopularity={modelsByPopularity}
+                fullRefresh={fullRefresh}
+                resetLabel={
+                  selectedRegion
+                    ? 'Change Region'
+                    : searchedAircraft
+                      ? 'New Search'
+                      : 'Change Manufacturer'
+                }
+              />
+            </>
           )}
         </div>
       )}
@@ -1,108 +1,150 @@
 // SimplifiedDatabaseManager.ts
-import path from 'path';
-import sqlite3 from 'sqlite3';
-import { Database, open } from 'sqlite';
-import fs from 'fs';
-
-// Type definitions
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number; // Time to live in seconds
+import type {
+  AircraftSearchPage,
+  AirportRow,
+  FlightRow,
+  ManufacturerAliasRow,
+  PositionRow,
+  RegistryRow,
+} from '../../types/database';
+import {
+  createStorageAdapter,
+  DatabaseDialect,
+  StorageAdapter,
+} from './adapters';
+import { getDatabaseCacheSize, getDatabaseConfig } from './config';
+import { parseSearchTerms } from './search';
+import {
+  getMigrationStatus,
+  MigrationStatus,
+  runMigrations,
+} from './migrations';
+import { CacheStats, LruCache } from '../../utils/lru-cache';
+
+/**
+ * Columns written by registry imports, in RegistryRow order
+ */
+export const REGISTRY_COLUMNS: (keyof RegistryRow)[] = [
+  'icao24',
+  'n_number',
+  'serial_number',
+  'manufacturer',
+  'model',
+  'year_mfr',
+  'owner',
+  'name',
+  'city',
+  'state',
+  'country',
+  'type_aircraft',
+  'type_engine',
+  'owner_type',
+  'engine_manufacturer',
+  'engine_model',
+  'num_engines',
+  'num_seats',
+  'status_code',
+  'weight_class',
+];
+
+/**
+ * Registry rows to write in one import
+ */
+export interface RegistryChanges {
+  added: RegistryRow[];
+  changed: { key: string; row: RegistryRow }[]; // key = stored icao24
+  removed: string[];
 }
 
-type CacheStorage = {
-  [key: string]: CacheEntry<any>;
-};
-
 // The main database manager class
 export class DatabaseManager {
   private static instance: DatabaseManager | null = null;
-  private db: Database<sqlite3.Database> | null = null;
+  private adapter: StorageAdapter | null = null;
   private isInitialized = false;
-  private dbPath: string;
-  private cache: CacheStorage = {};
+  private initializing: Promise<void> | null = null; // shared by callers
+  private cache = new LruCache<unknown>({
+    name: 'database',
+    maxEntries: getDatabaseCacheSize(),
+    defaultTtlMs: 300000,
+  });
 
-  private constructor(dbPath: string) {
-    // In your SimplifiedDatabaseManager.ts
-    this.dbPath =
-      'C:\\Users\\satho\\Documents\\Projects\\Aircraft-Tracking\\lib\\db\\static.db';
-    console.log(`[DB] Database path: ${this.dbPath}`);
-  }
+  /**
+   * @param dbPath SQLite file to use instead of the configured backend
+   */
+  private constructor(private readonly dbPath?: string) {}
 
   /**
    * Get singleton instance
    */
   public static getInstance(dbPath?: string): DatabaseManager {
     if (!DatabaseManager.instance) {
-      // Default to a static database path if none is provided
-      const defaultPath = path.resolve(process.cwd(), 'lib/db/database.db');
-      DatabaseManager.instance = new DatabaseManager(dbPath || defaultPath);
+      DatabaseManager.instance = new DatabaseManager(dbPath);
     }
     return DatabaseManager.instance;
   }
 
   /**
-   * Initialize the database connection and create tables if needed
+   * The storage adapter, created from configuration on first use so that
+   * configuration errors surface in initialize() rather than at import
    */
-  public async initialize(): Promise<void> {
-    if (this.isInitialized) return;
-
-    try {
-      // Ensure directory exists
-      const dbDir = path.dirname(this.dbPath);
-      if (!fs.existsSync(dbDir)) {
-        fs.mkdirSync(dbDir, { recursive: true });
+  private get storage(): StorageAdapter {
+    if (!this.adapter) {
+      const config = getDatabaseConfig();
+      if (this.dbPath) {
+        config.client = 'sqlite';
+        config.sqlitePath = this.dbPath;
       }
+      this.adapter = createStorageAdapter(config);
+      console.log(`[DB] Using ${this.adapter.description}`);
+    }
+    return this.adapter;
+  }
+
+  /**
+   * SQL dialect of the configured backend
+   */
+  public getDialect(): DatabaseDialect {
+    return this.storage.dialect;
+  }
 
-      // Open database connection
-      this.db = await open({
-        filename: this.dbPath,
-        driver: sqlite3.Database,
+  /**
+   * Initialize the database connection and apply pending migrations.
+   * Concurrent callers share one attempt; a failed attempt can be retried.
+   */
+  public initialize(): Promise<void> {
+    if (this.isInitialized) return Promise.resolve();
+
+    if (!this.initializing) {
+      this.initializing = this.connectAndMigrate().catch((error) => {
+        this.initializing = null;
+        throw error;
       });
+    }
+    return this.initializing;
+  }
 
-      // Set pragmas for better performance
-      await this.db.run('PRAGMA journal_mode = WAL;');
-      await this.db.run('PRAGMA busy_timeout = 5000;');
+  private async connectAndMigrate(): Promise<void> {
+    try {
+      await this.storage.connect();
 
-      // Create tables
-      await this.createTables();
+      const status = await runMigrations(this.storage);
+      console.log(`[DB] Schema at version ${status.current}`);
 
       this.isInitialized = true;
       console.log('[DB] Database initialized successfully');
     } catch (error) {
       console.error('[DB] Failed to initialize database:', error);
+      await this.close();
       throw error;
     }
   }
 
   /**
-   * Create required tables
+   * Applied and pending migrations, without applying anything (dry run)
    */
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS aircraft (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        icao24 TEXT UNIQUE,
-        n_number TEXT,
-        manufacturer TEXT,
-        model TEXT,
-        owner TEXT,
-        name TEXT,
-        city TEXT,
-        state TEXT,
-        type_aircraft TEXT,
-        owner_type TEXT,
-        created_at INTEGER DEFAULT (strftime('%s', 'now')),
-        updated_at INTEGER DEFAULT (strftime('%s', 'now'))
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_aircraft_icao24 ON aircraft(icao24);
-      CREATE INDEX IF NOT EXISTS idx_aircraft_manufacturer ON aircraft(manufacturer);
-      CREATE INDEX IF NOT EXISTS idx_aircraft_n_number ON aircraft(n_number);
-    `);
+  public async getMigrationStatus(): Promise<MigrationStatus> {
+    await this.storage.connect();
+    return getMigrationStatus(this.storage);
   }
 
   /**
@@ -129,7 +171,7 @@ export class DatabaseManager {
     // Cache miss, execute query
     console.log(`[DB] Cache miss for: ${cacheKey}, executing query`);
     try {
-      const results = await this.db!.all<T[]>(sqlQuery, params);
+      const results = await this.storage.query<T>(sqlQuery, params);
 
       // Store in cache
       this.setInCache(cacheKey, results, ttl);
@@ -165,12 +207,12 @@ export class DatabaseManager {
     // Cache miss, execute query
     console.log(`[DB] Cache miss for: ${cacheKey}, executing query`);
     try {
-      const result = await this.db!.get<T>(sqlQuery, params);
+      const result = await this.storage.getSingle<T>(sqlQuery, params);
 
       // Store in cache (even if null)
-      this.setInCache(cacheKey, result || null, ttl);
+      this.setInCache(cacheKey, result, ttl);
 
-      return result || null;
+      return result;
     } catch (error) {
       console.error(`[DB] Query error for ${cacheKey}:`, error);
       throw error;
@@ -185,23 +227,69 @@ export class DatabaseManager {
   ): Promise<{ name: string; count: number }[]> {
     const cacheKey = `manufacturers-count-${limit}`;
 
-    // Query with exact column case matching your schema
+    // Registry spellings with an approved alias count towards the
+    // canonical manufacturer
     return this.query<{ name: string; count: number }>(
       cacheKey,
-      `SELECT 
-      manufacturer AS name,  
-      COUNT(*) AS count 
-    FROM aircraft 
-    WHERE manufacturer IS NOT NULL AND trim(manufacturer) != '' 
-    GROUP BY manufacturer 
-    HAVING count > 0 
-    ORDER BY count DESC 
+      `SELECT
+      COALESCE(ma.canonical, a.manufacturer) AS name,
+      COUNT(*) AS count
+    FROM aircraft a
+    LEFT JOIN manufacturer_aliases ma
+      ON ma.alias = a.manufacturer AND ma.status = 'approved'
+    WHERE a.manufacturer IS NOT NULL AND trim(a.manufacturer) != ''
+    GROUP BY COALESCE(ma.canonical, a.manufacturer)
+    HAVING COUNT(*) > 0
+    ORDER BY count DESC
     LIMIT ?`,
       [limit],
       600 // 10 minute cache
     );
   }
 
+  /**
+   * Aircraft count per registry spelling, ignoring aliases (uncached)
+   */
+  public async getManufacturerSpellingCounts(): Promise<
+    { name: string; count: number }[]
+  > {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return this.storage.query<{ name: string; count: number }>(
+      `SELECT manufacturer AS name, COUNT(*) AS count
+       FROM aircraft
+       WHERE manufacturer IS NOT NULL AND trim(manufacturer) != ''
+       GROUP BY manufacturer`
+    );
+  }
+
+  /**
+   * Registry spellings of a canonical manufacturer: the name itself and
+   * its approved aliases
+   */
+  public async getManufacturerSpellings(
+    manufacturer: string
+  ): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const cacheKey = `manufacturer-spellings-${manufacturer}`;
+    const cachedData = this.getFromCache<string[]>(cacheKey);
+    if (cachedData) return cachedData;
+
+    const rows = await this.storage.query<{ alias: string }>(
+      `SELECT alias FROM manufacturer_aliases
+       WHERE canonical = ? AND status = 'approved'`,
+      [manufacturer]
+    );
+    const spellings = [manufacturer, ...rows.map((row) => row.alias)];
+    this.setInCache(cacheKey, spellings, 600);
+    return spellings;
+  }
+
   /**
    * Get ICAO24 codes for a specific manufacturer
    * @param manufacturer The manufacturer name
@@ -227,17 +315,11 @@ export class DatabaseManager {
     console.log(`[DB] Cache miss for: ${cacheKey}, executing query`);
 
     try {
-      const result = await this.db!.all<{ icao24: string }[]>(
-        `SELECT DISTINCT icao24 
-       FROM aircraft 
-       WHERE manufacturer = ? 
-       AND icao24 IS NOT NULL`,
-        [manufacturer]
+      // ICAO24 codes normalized to lowercase
+      const icao24s = await this.storage.getIcao24sForManufacturer(
+        await this.getManufacturerSpellings(manufacturer)
       );
 
-      // Extract just the ICAO24 codes and normalize them to lowercase
-      const icao24s = result.map((row) => row.icao24.toLowerCase());
-
       // Store in cache (5 minute TTL)
       this.setInCache(cacheKey, icao24s, 300);
 
@@ -273,19 +355,12 @@ export class DatabaseManager {
 
     // Fetch any missing aircraft
     if (missingIcao24s.length > 0) {
-      const placeholders = missingIcao24s.map(() => '?').join(',');
-      const query = `
-        SELECT *
-        FROM aircraft
-        WHERE icao24 IN (${placeholders})
-      `;
-
-      const fetchedAircraft = await this.query<any>(
-        `aircraft-batch-${Date.now()}`, // Unique key to bypass cache
-        query,
-        missingIcao24s,
-        0 // Don't cache the batch query result
-      );
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      const fetchedAircraft =
+        await this.storage.getAircraftByIcao24s(missingIcao24s);
 
       // Cache individual results
       for (const aircraft of fetchedAircraft) {
@@ -301,55 +376,592 @@ export class DatabaseManager {
    * Get models by manufacturer
    */
   public async getModelsByManufacturer(manufacturer: string): Promise<any[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
     const cacheKey = `models-${manufacturer}`;
+    const cachedData = this.getFromCache<any[]>(cacheKey);
+    if (cachedData) {
+      console.log(`[DB] Cache hit for: ${cacheKey}`);
+      return cachedData;
+    }
 
-    return this.query<any>(
-      cacheKey,
-      `SELECT 
-        model,
-        manufacturer,
-        COUNT(DISTINCT icao24) as total_count,
-        MAX(name) as name,
-        MAX(city) as city,
-        MAX(state) as state,
-        MAX(owner_type) as ownerType
-      FROM aircraft
-      WHERE manufacturer = ?
-      GROUP BY model, manufacturer
-      ORDER BY total_count DESC`,
-      [manufacturer],
-      300 // 5 minute cache
+    const rows = await this.storage.getModelsByManufacturer(
+      await this.getManufacturerSpellings(manufacturer)
     );
+    const models = rows.map((row) => ({ ...row, manufacturer }));
+    this.setInCache(cacheKey, models, 300); // 5 minute cache
+    return models;
   }
 
   /**
-   * Store data in cache
+   * Ranked registry search over registration, ICAO24, owner, location
+   * and model
    */
-  private setInCache<T>(key: string, data: T, ttl: number): void {
-    this.cache[key] = {
-      data,
-      timestamp: Date.now(),
-      ttl: ttl * 1000, // Convert to milliseconds
-    };
+  public async searchAircraft(
+    query: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<AircraftSearchPage> {
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) {
+      return { total: 0, results: [] };
+    }
+
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const cacheKey = `search-${terms.flat().join(' ')}-${limit}-${offset}`;
+    const cachedData = this.getFromCache<AircraftSearchPage>(cacheKey);
+    if (cachedData) {
+      console.log(`[DB] Cache hit for: ${cacheKey}`);
+      return cachedData;
+    }
+
+    const page = await this.storage.searchAircraft(terms, limit, offset);
+    this.setInCache(cacheKey, page, 60);
+    return page;
   }
 
   /**
-   * Get data from cache if valid
+   * All registry rows keyed by their stored icao24 (uncached)
    */
-  private getFromCache<T>(key: string): T | undefined {
-    const entry = this.cache[key];
+  public async getRegistrySnapshot(): Promise<Map<string, RegistryRow>> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const rows = await this.storage.query<RegistryRow>(
+      `SELECT ${REGISTRY_COLUMNS.join(', ')} FROM aircraft WHERE icao24 IS NOT NULL`
+    );
+    return new Map(rows.map((row) => [row.icao24, row]));
+  }
+
+  /**
+   * Write an import's additions, changes and removals in one transaction
+   */
+  public async applyRegistryChanges(changes: RegistryChanges): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const values = (row: RegistryRow) =>
+      REGISTRY_COLUMNS.map((column) => row[column]);
+
+    await this.storage.transaction(async (tx) => {
+      await tx.runBatch(
+        `INSERT INTO aircraft (${REGISTRY_COLUMNS.join(', ')}, created_at, updated_at)
+         VALUES (${REGISTRY_COLUMNS.map(() => '?').join(', ')}, ?, ?)`,
+        changes.added.map((row) => [...values(row), now, now])
+      );
+
+      await tx.runBatch(
+        `UPDATE aircraft
+         SET ${REGISTRY_COLUMNS.map((column) => `${column} = ?`).join(', ')}, updated_at = ?
+         WHERE icao24 = ?`,
+        changes.changed.map(({ key, row }) => [...values(row), now, key])
+      );
+
+      await tx.runBatch(
+        'DELETE FROM aircraft WHERE icao24 = ?',
+        changes.removed.map((key) => [key])
+      );
+    });
+
+    // Cached registry lookups are stale now
+    this.clearCache();
+  }
+
+  /**
+   * Load the persisted state (rate limits etc.) of a live data provider
+   */
+  public async getProviderState<T>(provider: string): Promise<T | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const row = await this.storage.getSingle<{ state: string }>(
+      'SELECT state FROM provider_state WHERE provider = ?',
+      [provider]
+    );
+    return row ? (JSON.parse(row.state) as T) : null;
+  }
+
+  /**
+   * Persist the state of a live data provider
+   */
+  public async saveProviderState(
+    provider: string,
+    state: unknown
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
 
-    if (!entry) return undefined;
+    await this.storage.run(
+      `INSERT INTO provider_state (provider, state, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(provider) DO UPDATE SET
+         state = excluded.state,
+         updated_at = excluded.updated_at`,
+      [provider, JSON.stringify(state), Date.now()]
+    );
+  }
 
-    // Check if cache entry is still valid
-    const age = Date.now() - entry.timestamp;
-    if (age > entry.ttl) {
-      // Cache expired
-      delete this.cache[key];
-      return undefined;
+  /**
+   * Load upstream responses a provider fetched within the last maxAge ms.
+   * Older rows are pruned.
+   */
+  public async getProviderResponses<T>(
+    provider: string,
+    maxAge: number
+  ): Promise<{ cacheKey: string; data: T; fetchedAt: number }[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    return entry.data as T;
+    const cutoff = Date.now() - maxAge;
+    await this.storage.run(
+      'DELETE FROM provider_responses WHERE provider = ? AND fetched_at < ?',
+      [provider, cutoff]
+    );
+
+    const rows = await this.storage.query<{
+      cache_key: string;
+      data: string;
+      fetched_at: number;
+    }>(
+      'SELECT cache_key, data, fetched_at FROM provider_responses WHERE provider = ?',
+      [provider]
+    );
+
+    return rows.map((row) => ({
+      cacheKey: row.cache_key,
+      data: JSON.parse(row.data) as T,
+      fetchedAt: row.fetched_at,
+    }));
+  }
+
+  /**
+   * Persist an upstream response of a provider under its cache key
+   */
+  public async saveProviderResponse(
+    provider: string,
+    cacheKey: string,
+    data: unknown,
+    fetchedAt: number
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    await this.storage.run(
+      `INSERT INTO provider_responses (provider, cache_key, data, fetched_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(provider, cache_key) DO UPDATE SET
+         data = excluded.data,
+         fetched_at = excluded.fetched_at`,
+      [provider, cacheKey, JSON.stringify(data), fetchedAt]
+    );
+  }
+
+  /**
+   * Drop all persisted responses of a provider
+   */
+  public async clearProviderResponses(provider: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    await this.storage.run(
+      'DELETE FROM provider_responses WHERE provider = ?',
+      [provider]
+    );
+  }
+
+  /**
+   * Append position reports; positions already stored for the same
+   * aircraft and second are skipped
+   */
+  public async savePositions(positions: PositionRow[]): Promise<void> {
+    if (positions.length === 0) return;
+
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    await this.storage.transaction((tx) =>
+      tx.runBatch(
+        `INSERT INTO positions
+           (icao24, ts, lat, lon, altitude, velocity, heading, on_ground, source)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(icao24, ts) DO NOTHING`,
+        positions.map((position) => [
+          position.icao24,
+          position.ts,
+          position.lat,
+          position.lon,
+          position.altitude,
+          position.velocity,
+          position.heading,
+          position.on_ground ? 1 : 0,
+          position.source,
+        ])
+      )
+    );
+  }
+
+  /**
+   * Stored positions of one aircraft between two unix times (seconds),
+   * oldest first (uncached)
+   */
+  public async getPositions(
+    icao24: string,
+    since: number,
+    until: number = Math.floor(Date.now() / 1000),
+    limit: number = 10000
+  ): Promise<PositionRow[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const rows = await this.storage.query<
+      Omit<PositionRow, 'on_ground'> & { on_ground: number }
+    >(
+      `SELECT icao24, ts, lat, lon, altitude, velocity, heading, on_ground, source
+       FROM positions
+       WHERE icao24 = ? AND ts >= ? AND ts <= ?
+       ORDER BY ts
+       LIMIT ?`,
+      [icao24.toLowerCase(), since, until, limit]
+    );
+
+    return rows.map((row) => ({ ...row, on_ground: Boolean(row.on_ground) }));
+  }
+
+  /**
+   * Delete positions older than `deleteBefore` and keep only the first
+   * position per aircraft and `interval` seconds for positions older than
+   * `downsampleBefore` (unix seconds; null skips that step)
+   */
+  public async prunePositions(options: {
+    deleteBefore: number | null;
+    downsampleBefore: number | null;
+    interval: number;
+  }): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const { deleteBefore, downsampleBefore, interval } = options;
+
+    if (deleteBefore !== null) {
+      await this.storage.run('DELETE FROM positions WHERE ts < ?', [
+        deleteBefore,
+      ]);
+    }
+
+    if (downsampleBefore !== null) {
+      // ts and the interval are integers, so "%" finds the bucket start on
+      // both backends. Bounding the subquery to the bucket lets the
+      // (icao24, ts) key answer it with a short range scan.
+      await this.storage.run(
+        `DELETE FROM positions
+         WHERE ts < ?
+         AND EXISTS (
+           SELECT 1 FROM positions earlier
+           WHERE earlier.icao24 = positions.icao24
+           AND earlier.ts >= positions.ts - positions.ts % ?
+           AND earlier.ts < positions.ts
+         )`,
+        [downsampleBefore, interval]
+      );
+    }
+  }
+
+  /**
+   * Flights of one aircraft overlapping two unix times (seconds), oldest
+   * first (uncached)
+   */
+  public async getFlights(
+    icao24: string,
+    from: number,
+    to: number
+  ): Promise<FlightRow[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return this.storage.query<FlightRow>(
+      `SELECT id, icao24, start_ts, end_ts, start_lat, start_lon, end_lat,
+              end_lon, max_altitude, distance_km, position_count, status,
+              departure_airport, arrival_airport
+       FROM flights
+       WHERE icao24 = ? AND start_ts <= ? AND end_ts >= ?
+       ORDER BY start_ts`,
+      [icao24.toLowerCase(), to, from]
+    );
+  }
+
+  /**
+   * Time (unix seconds) up to which the flights of an aircraft are final:
+   * the end of its latest complete flight or its segmentation checkpoint,
+   * whichever is later. Null if neither has been stored.
+   */
+  public async getFlightsFinalUntil(icao24: string): Promise<number | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const address = icao24.toLowerCase();
+    const row = await this.storage.getSingle<{ ts: number | null }>(
+      `SELECT MAX(ts) AS ts FROM (
+         SELECT MAX(end_ts) AS ts FROM flights
+         WHERE icao24 = ? AND status = 'complete'
+         UNION ALL
+         SELECT segmented_to AS ts FROM flight_checkpoints WHERE icao24 = ?
+       ) AS final_until`,
+      [address, address]
+    );
+    const ts = row?.ts ?? null;
+    // BIGINT arrives as a string from PostgreSQL
+    return ts === null ? null : Number(ts);
+  }
+
+  /**
+   * Replace the flights of an aircraft that start after `after` (unix
+   * seconds) with freshly segmented ones. A `checkpoint` marks the
+   * flights up to it as final even without a complete flight ending there.
+   */
+  public async replaceFlights(
+    icao24: string,
+    after: number,
+    flights: FlightRow[],
+    checkpoint?: number
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const address = icao24.toLowerCase();
+    await this.storage.transaction(async (tx) => {
+      await tx.run('DELETE FROM flights WHERE icao24 = ? AND start_ts > ?', [
+        address,
+        after,
+      ]);
+      if (checkpoint !== undefined) {
+        await tx.run(
+          `INSERT INTO flight_checkpoints (icao24, segmented_to) VALUES (?, ?)
+           ON CONFLICT(icao24) DO UPDATE SET segmented_to = excluded.segmented_to`,
+          [address, checkpoint]
+        );
+      }
+      if (flights.length === 0) return;
+
+      await tx.runBatch(
+        `INSERT INTO flights
+           (icao24, start_ts, end_ts, start_lat, start_lon, end_lat, end_lon,
+            max_altitude, distance_km, position_count, status,
+            departure_airport, arrival_airport)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        flights.map((flight) => [
+          address,
+          flight.start_ts,
+          flight.end_ts,
+          flight.start_lat,
+          flight.start_lon,
+          flight.end_lat,
+          flight.end_lon,
+          flight.max_altitude,
+          flight.distance_km,
+          flight.position_count,
+          flight.status,
+          flight.departure_airport,
+          flight.arrival_airport,
+        ])
+      );
+    });
+  }
+
+  /**
+   * Replace the airport reference data
+   */
+  public async replaceAirports(airports: AirportRow[]): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    await this.storage.transaction(async (tx) => {
+      await tx.run('DELETE FROM airports');
+      await tx.runBatch(
+        `INSERT INTO airports
+           (ident, code, type, name, lat, lon, elevation_ft, iso_country,
+            municipality, iata_code)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        airports.map((airport) => [
+          airport.ident,
+          airport.code,
+          airport.type,
+          airport.name,
+          airport.lat,
+          airport.lon,
+          airport.elevation_ft,
+          airport.iso_country,
+          airport.municipality,
+          airport.iata_code,
+        ])
+      );
+    });
+    this.clearCache('airports');
+  }
+
+  /**
+   * All airports, cached for an hour
+   */
+  public async getAirports(): Promise<AirportRow[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const cached = this.getFromCache<AirportRow[]>('airports');
+    if (cached) return cached;
+
+    const airports = await this.storage.query<AirportRow>(
+      `SELECT ident, code, type, name, lat, lon, elevation_ft, iso_country,
+              municipality, iata_code
+       FROM airports`
+    );
+    this.setInCache('airports', airports, 3600);
+    return airports;
+  }
+
+  /**
+   * Canonical manufacturer names (uncached)
+   */
+  public async getCanonicalManufacturers(): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const rows = await this.storage.query<{ name: string }>(
+      'SELECT name FROM manufacturers ORDER BY name'
+    );
+    return rows.map((row) => row.name);
+  }
+
+  /**
+   * Manufacturer aliases, optionally of one status (uncached)
+   */
+  public async getManufacturerAliases(
+    status?: ManufacturerAliasRow['status']
+  ): Promise<ManufacturerAliasRow[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    return this.storage.query<ManufacturerAliasRow>(
+      `SELECT alias, canonical, status, similarity, updated_at
+       FROM manufacturer_aliases
+       ${status ? 'WHERE status = ?' : ''}
+       ORDER BY canonical, alias`,
+      status ? [status] : []
+    );
+  }
+
+  /**
+   * Insert or update aliases. Canonical names of approved aliases are
+   * added to the manufacturers table, and approving a name that was
+   * itself canonical moves its aliases along.
+   */
+  public async saveManufacturerAliases(
+    aliases: ManufacturerAliasRow[]
+  ): Promise<void> {
+    if (aliases.length === 0) return;
+
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const approved = aliases.filter((alias) => alias.status === 'approved');
+    const now = Date.now();
+
+    await this.storage.transaction(async (tx) => {
+      await tx.runBatch(
+        `INSERT INTO manufacturer_aliases
+           (alias, canonical, status, similarity, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(alias) DO UPDATE SET
+           canonical = excluded.canonical,
+           status = excluded.status,
+           similarity = excluded.similarity,
+           updated_at = excluded.updated_at`,
+        aliases.map((alias) => [
+          alias.alias,
+          alias.canonical,
+          alias.status,
+          alias.similarity,
+          alias.updated_at,
+        ])
+      );
+      if (approved.length === 0) return;
+
+      await tx.runBatch(
+        `INSERT INTO manufacturers (name, created_at) VALUES (?, ?)
+         ON CONFLICT(name) DO NOTHING`,
+        approved.map((alias) => [alias.canonical, now])
+      );
+      for (const alias of approved) {
+        await tx.run(
+          `UPDATE manufacturer_aliases SET canonical = ?, updated_at = ?
+           WHERE canonical = ?`,
+          [alias.canonical, now, alias.alias]
+        );
+        await tx.run('DELETE FROM manufacturers WHERE name = ?', [alias.alias]);
+      }
+    });
+
+    this.invalidateManufacturerCaches();
+  }
+
+  /**
+   * Remove an alias; its spelling becomes a manufacturer of its own again
+   */
+  public async deleteManufacturerAlias(alias: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    await this.storage.run('DELETE FROM manufacturer_aliases WHERE alias = ?', [
+      alias,
+    ]);
+    this.invalidateManufacturerCaches();
+  }
+
+  // Counts, models and ICAO24 lists are grouped by canonical name
+  private invalidateManufacturerCaches(): void {
+    this.invalidateCache(
+      'manufacturers-count-',
+      'manufacturer-spellings-',
+      'models-',
+      'icao24s-'
+    );
+  }
+
+  /**
+   * Store data in cache
+   */
+  private setInCache<T>(key: string, data: T, ttl: number): void {
+    this.cache.set(key, data, ttl * 1000); // TTL in seconds
+  }
+
+  /**
+   * Get data from cache if valid
+   */
+  private getFromCache<T>(key: string): T | undefined {
+    return this.cache.get(key) as T | undefined;
   }
 
   /**
@@ -357,22 +969,42 @@ export class DatabaseManager {
    */
   public clearCache(key?: string): void {
     if (key) {
-      delete this.cache[key];
+      this.cache.delete(key);
       console.log(`[DB] Cleared cache for: ${key}`);
     } else {
-      this.cache = {};
+      this.cache.clear();
       console.log('[DB] Cleared entire cache');
     }
   }
 
+  /**
+   * Clear every cached entry whose key starts with one of the prefixes
+   */
+  public invalidateCache(...prefixes: string[]): void {
+    const removed = prefixes.reduce(
+      (count, prefix) => count + this.cache.deletePrefix(prefix),
+      0
+    );
+    console.log(
+      `[DB] Invalidated ${removed} cache entries (${prefixes.join(', ')})`
+    );
+  }
+
+  /**
+   * Size and hit/miss/eviction counters of the query cache
+   */
+  public getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
   /**
    * Close database connection
    */
   public async close(): Promise<void> {
-    if (this.db) {
-      await this.db.close();
-      this.db = null;
+    if (this.adapter) {
+      await this.adapter.close();
       this.isInitialized = false;
+      this.initializing = null;
       console.log('[DB] Database connection closed');
     }
   }
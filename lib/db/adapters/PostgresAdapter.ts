@@ -0,0 +1,246 @@
+// lib/db/adapters/PostgresAdapter.ts
+import { Pool, PoolClient, QueryResult, types } from 'pg';
+import type {
+  AircraftSearchPage,
+  AircraftSearchResult,
+} from '../../../types/database';
+import { POSTGRES_SEARCH_DOCUMENT, toTsQuery } from '../search';
+import type { SqlExecutor, StorageAdapter } from './types';
+
+// COUNT(*) and BIGINT columns arrive as strings by default
+const INT8_OID = 20;
+const parseInt8 = (value: string) => Number(value);
+
+/**
+ * Rewrite `?` placeholders to Postgres' `$1, $2, ...`, leaving quoted
+ * strings and identifiers alone.
+ */
+export function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '?') {
+      result += `$${++index}`;
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+abstract class PostgresExecutor implements SqlExecutor {
+  public readonly dialect = 'postgres' as const;
+
+  protected abstract runQuery(
+    text: string,
+    values?: unknown[]
+  ): Promise<QueryResult>;
+
+  public async query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.runQuery(toPostgresPlaceholders(sql), params);
+    return result.rows as T[];
+  }
+
+  public async getSingle<T>(
+    sql: string,
+    params: unknown[] = []
+  ): Promise<T | null> {
+    const rows = await this.query<T>(sql, params);
+    return rows[0] ?? null;
+  }
+
+  public async run(sql: string, params: unknown[] = []): Promise<void> {
+    await this.runQuery(toPostgresPlaceholders(sql), params);
+  }
+
+  public async runBatch(sql: string, rows: unknown[][]): Promise<void> {
+    const text = toPostgresPlaceholders(sql);
+    for (const params of rows) {
+      await this.runQuery(text, params);
+    }
+  }
+
+  public async exec(sql: string): Promise<void> {
+    // Without parameters pg uses the simple protocol, which allows
+    // several statements in one call
+    await this.runQuery(sql);
+  }
+}
+
+/**
+ * Executor bound to one pooled client, used inside transactions
+ */
+class PostgresClientExecutor extends PostgresExecutor {
+  constructor(private readonly client: PoolClient) {
+    super();
+  }
+
+  protected runQuery(text: string, values?: unknown[]): Promise<QueryResult> {
+    return this.client.query(text, values);
+  }
+}
+
+export class PostgresAdapter
+  extends PostgresExecutor
+  implements StorageAdapter
+{
+  private pool: Pool | null = null;
+  private connecting: Promise<void> | null = null; // shared by callers
+
+  constructor(
+    private readonly connectionString: string,
+    private readonly poolSize = 10
+  ) {
+    super();
+  }
+
+  get description(): string {
+    try {
+      const url = new URL(this.connectionString);
+      return `PostgreSQL ${url.host}${url.pathname}`;
+    } catch {
+      return 'PostgreSQL';
+    }
+  }
+
+  public connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.open().catch((error) => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    const pool = new Pool({
+      connectionString: this.connectionString,
+      max: this.poolSize,
+      types: {
+        getTypeParser: ((oid: number, format?: any) =>
+          oid === INT8_OID
+            ? parseInt8
+            : types.getTypeParser(oid, format)) as typeof types.getTypeParser,
+      },
+    });
+    pool.on('error', (error) => {
+      console.error('[DB] Idle PostgreSQL client error:', error);
+    });
+
+    // Fail fast on bad credentials or an unreachable server
+    try {
+      await pool.query('SELECT 1');
+    } catch (error) {
+      await pool.end();
+      throw error;
+    }
+    this.pool = pool;
+  }
+
+  public async close(): Promise<void> {
+    const connecting = this.connecting;
+    this.connecting = null;
+    // Let a pool still being opened finish, then end it
+    await connecting?.catch(() => undefined);
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  private get connection(): Pool {
+    if (!this.pool) throw new Error('Database not initialized');
+    return this.pool;
+  }
+
+  protected runQuery(text: string, values?: unknown[]): Promise<QueryResult> {
+    return this.connection.query(text, values);
+  }
+
+  public async transaction<T>(
+    work: (tx: SqlExecutor) => Promise<T>
+  ): Promise<T> {
+    // Every statement of a transaction must use the same client
+    const client: PoolClient = await this.connection.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(new PostgresClientExecutor(client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  public async getIcao24sForManufacturer(
+    spellings: string[]
+  ): Promise<string[]> {
+    const rows = await this.query<{ icao24: string }>(
+      `SELECT DISTINCT icao24
+       FROM aircraft
+       WHERE manufacturer = ANY($1)
+       AND icao24 IS NOT NULL`,
+      [spellings]
+    );
+    return rows.map((row) => row.icao24.toLowerCase());
+  }
+
+  public async getAircraftByIcao24s(icao24s: string[]): Promise<any[]> {
+    // One array parameter instead of a placeholder per code
+    return this.query<any>('SELECT * FROM aircraft WHERE icao24 = ANY($1)', [
+      icao24s,
+    ]);
+  }
+
+  public async getModelsByManufacturer(spellings: string[]): Promise<any[]> {
+    // Unquoted aliases are folded to lower case in Postgres
+    return this.query<any>(
+      `SELECT
+        model,
+        COUNT(DISTINCT icao24) AS total_count,
+        MAX(name) AS name,
+        MAX(city) AS city,
+        MAX(state) AS state,
+        MAX(owner_type) AS "ownerType"
+      FROM aircraft
+      WHERE manufacturer = ANY($1)
+      GROUP BY model
+      ORDER BY total_count DESC`,
+      [spellings]
+    );
+  }
+
+  public async searchAircraft(
+    terms: string[][],
+    limit: number,
+    offset: number
+  ): Promise<AircraftSearchPage> {
+    const tsQuery = toTsQuery(terms);
+
+    const count = await this.getSingle<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM aircraft
+       WHERE ${POSTGRES_SEARCH_DOCUMENT} @@ to_tsquery('simple', $1)`,
+      [tsQuery]
+    );
+    const results = await this.query<AircraftSearchResult>(
+      `SELECT icao24, n_number, manufacturer, model, name, city, state
+       FROM aircraft
+       WHERE ${POSTGRES_SEARCH_DOCUMENT} @@ to_tsquery('simple', $1)
+       ORDER BY ts_rank(${POSTGRES_SEARCH_DOCUMENT}, to_tsquery('simple', $1)) DESC, n_number
+       LIMIT $2 OFFSET $3`,
+      [tsQuery, limit, offset]
+    );
+
+    return { total: count?.total ?? 0, results };
+  }
+}
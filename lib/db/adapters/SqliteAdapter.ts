@@ -0,0 +1,266 @@
+// lib/db/adapters/SqliteAdapter.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import type {
+  AircraftSearchPage,
+  AircraftSearchResult,
+} from '../../../types/database';
+import { toFts5Query } from '../search';
+import type { SqlExecutor, StorageAdapter } from './types';
+
+// Stay below SQLITE_MAX_VARIABLE_NUMBER of older builds (999)
+const MAX_PARAMS = 900;
+
+// bm25 column weights: n_number, icao24, name, city, state, model, manufacturer
+const SEARCH_WEIGHTS = '10.0, 10.0, 3.0, 1.0, 1.0, 2.0, 2.0';
+
+/**
+ * A transaction's work used the adapter instead of its `tx`. Those
+ * statements would queue behind the transaction they are part of.
+ */
+export class TransactionScopeError extends Error {
+  constructor() {
+    super('Statements inside a transaction must use its executor');
+    this.name = 'TransactionScopeError';
+  }
+}
+
+/**
+ * Executor running statements straight on the connection, used by the
+ * adapter once it holds the connection and inside transactions
+ */
+class SqliteConnectionExecutor implements SqlExecutor {
+  public readonly dialect = 'sqlite' as const;
+
+  constructor(private readonly db: Database<sqlite3.Database>) {}
+
+  public async query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.db.all<T[]>(sql, params);
+  }
+
+  public async getSingle<T>(
+    sql: string,
+    params: unknown[] = []
+  ): Promise<T | null> {
+    return (await this.db.get<T>(sql, params)) ?? null;
+  }
+
+  public async run(sql: string, params: unknown[] = []): Promise<void> {
+    await this.db.run(sql, params);
+  }
+
+  public async runBatch(sql: string, rows: unknown[][]): Promise<void> {
+    const statement = await this.db.prepare(sql);
+    try {
+      for (const params of rows) {
+        await statement.run(params);
+      }
+    } finally {
+      await statement.finalize();
+    }
+  }
+
+  public async exec(sql: string): Promise<void> {
+    await this.db.exec(sql);
+  }
+}
+
+export class SqliteAdapter implements StorageAdapter {
+  public readonly dialect = 'sqlite' as const;
+  private db: Database<sqlite3.Database> | null = null;
+  private connecting: Promise<void> | null = null; // shared by callers
+  // Tail of the queue of work waiting for the connection
+  private queue: Promise<unknown> = Promise.resolve();
+  // Set while a transaction's work runs, in that work's async context
+  private openTransaction = new AsyncLocalStorage<{ open: boolean }>();
+
+  constructor(private readonly filename: string) {}
+
+  get description(): string {
+    return `SQLite ${this.filename}`;
+  }
+
+  public connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.open().catch((error) => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    // Ensure directory exists
+    const dbDir = path.dirname(this.filename);
+    if (!fs.existsSync(dbDir)) {
+      fs.mkdirSync(dbDir, { recursive: true });
+    }
+
+    const db = await open({
+      filename: this.filename,
+      driver: sqlite3.Database,
+    });
+
+    // Set pragmas for better performance
+    try {
+      await db.run('PRAGMA journal_mode = WAL;');
+      await db.run('PRAGMA busy_timeout = 5000;');
+    } catch (error) {
+      await db.close();
+      throw error;
+    }
+    this.db = db;
+  }
+
+  public async close(): Promise<void> {
+    const connecting = this.connecting;
+    this.connecting = null;
+    // Let a connection still being opened and queued work finish first
+    await connecting?.catch(() => undefined);
+    await this.queue;
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * Run work once everything queued before it has finished. All callers
+   * share one connection, so a statement issued while a transaction is
+   * open would otherwise run inside it (and be rolled back with it), and
+   * a second BEGIN would fail.
+   */
+  private withConnection<T>(
+    work: (db: SqliteConnectionExecutor) => Promise<T>
+  ): Promise<T> {
+    if (this.openTransaction.getStore()?.open) {
+      return Promise.reject(new TransactionScopeError());
+    }
+    const result = this.queue.then(() => {
+      if (!this.db) throw new Error('Database not initialized');
+      return work(new SqliteConnectionExecutor(this.db));
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  public query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.withConnection((db) => db.query<T>(sql, params));
+  }
+
+  public getSingle<T>(sql: string, params: unknown[] = []): Promise<T | null> {
+    return this.withConnection((db) => db.getSingle<T>(sql, params));
+  }
+
+  public run(sql: string, params: unknown[] = []): Promise<void> {
+    return this.withConnection((db) => db.run(sql, params));
+  }
+
+  public runBatch(sql: string, rows: unknown[][]): Promise<void> {
+    return this.withConnection((db) => db.runBatch(sql, rows));
+  }
+
+  public exec(sql: string): Promise<void> {
+    return this.withConnection((db) => db.exec(sql));
+  }
+
+  /**
+   * Run work in a transaction. Other statements wait until it commits or
+   * rolls back; statements the work issues other than through `tx` fail
+   * with a TransactionScopeError.
+   */
+  public transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    return this.withConnection((db) => {
+      const scope = { open: true };
+      return this.openTransaction.run(scope, async () => {
+        await db.exec('BEGIN TRANSACTION');
+        try {
+          const result = await work(db);
+          await db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          await db.exec('ROLLBACK');
+          throw error;
+        } finally {
+          // Callbacks the work scheduled may use the adapter afterwards
+          scope.open = false;
+        }
+      });
+    });
+  }
+
+  public async getIcao24sForManufacturer(
+    spellings: string[]
+  ): Promise<string[]> {
+    const placeholders = spellings.map(() => '?').join(',');
+    const rows = await this.query<{ icao24: string }>(
+      `SELECT DISTINCT icao24
+       FROM aircraft
+       WHERE manufacturer IN (${placeholders})
+       AND icao24 IS NOT NULL`,
+      spellings
+    );
+    return rows.map((row) => row.icao24.toLowerCase());
+  }
+
+  public async getAircraftByIcao24s(icao24s: string[]): Promise<any[]> {
+    const results: any[] = [];
+    for (let i = 0; i < icao24s.length; i += MAX_PARAMS) {
+      const chunk = icao24s.slice(i, i + MAX_PARAMS);
+      const placeholders = chunk.map(() => '?').join(',');
+      results.push(
+        ...(await this.query<any>(
+          `SELECT * FROM aircraft WHERE icao24 IN (${placeholders})`,
+          chunk
+        ))
+      );
+    }
+    return results;
+  }
+
+  public async getModelsByManufacturer(spellings: string[]): Promise<any[]> {
+    const placeholders = spellings.map(() => '?').join(',');
+    return this.query<any>(
+      `SELECT
+        model,
+        COUNT(DISTINCT icao24) as total_count,
+        MAX(name) as name,
+        MAX(city) as city,
+        MAX(state) as state,
+        MAX(owner_type) as ownerType
+      FROM aircraft
+      WHERE manufacturer IN (${placeholders})
+      GROUP BY model
+      ORDER BY total_count DESC`,
+      spellings
+    );
+  }
+
+  public async searchAircraft(
+    terms: string[][],
+    limit: number,
+    offset: number
+  ): Promise<AircraftSearchPage> {
+    const match = toFts5Query(terms);
+
+    const count = await this.getSingle<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM aircraft_fts WHERE aircraft_fts MATCH ?',
+      [match]
+    );
+    const results = await this.query<AircraftSearchResult>(
+      `SELECT a.icao24, a.n_number, a.manufacturer, a.model, a.name, a.city, a.state
+       FROM aircraft_fts
+       JOIN aircraft a ON a.id = aircraft_fts.rowid
+       WHERE aircraft_fts MATCH ?
+       ORDER BY bm25(aircraft_fts, ${SEARCH_WEIGHTS})
+       LIMIT ? OFFSET ?`,
+      [match, limit, offset]
+    );
+
+    return { total: count?.total ?? 0, results };
+  }
+}
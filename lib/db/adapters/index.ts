@@ -0,0 +1,18 @@
+// lib/db/adapters/index.ts
+import type { DatabaseConfig } from '../config';
+import { PostgresAdapter } from './PostgresAdapter';
+import { SqliteAdapter } from './SqliteAdapter';
+import type { StorageAdapter } from './types';
+
+export * from './types';
+export { PostgresAdapter, SqliteAdapter };
+
+/**
+ * Create the storage adapter for a database configuration
+ */
+export function createStorageAdapter(config: DatabaseConfig): StorageAdapter {
+  if (config.client === 'postgres') {
+    return new PostgresAdapter(config.postgresUrl!, config.postgresPoolSize);
+  }
+  return new SqliteAdapter(config.sqlitePath);
+}
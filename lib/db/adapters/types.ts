@@ -0,0 +1,44 @@
+// lib/db/adapters/types.ts
+import type { AircraftSearchPage } from '../../../types/database';
+
+export type DatabaseDialect = 'sqlite' | 'postgres';
+
+/**
+ * Raw SQL access shared by adapters and their transactions.
+ * Statements use `?` placeholders on every backend.
+ */
+export interface SqlExecutor {
+  readonly dialect: DatabaseDialect;
+
+  query<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  getSingle<T>(sql: string, params?: unknown[]): Promise<T | null>;
+  run(sql: string, params?: unknown[]): Promise<void>;
+  // Run one statement for many parameter sets
+  runBatch(sql: string, rows: unknown[][]): Promise<void>;
+  // Run one or more statements without parameters (DDL)
+  exec(sql: string): Promise<void>;
+}
+
+/**
+ * A storage backend for DatabaseManager. Caching stays in the manager;
+ * adapters only talk to the database.
+ */
+export interface StorageAdapter extends SqlExecutor {
+  readonly description: string; // for logs, never includes credentials
+
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+
+  // Registry lookups whose SQL differs between backends. Manufacturers
+  // are given as all registry spellings of one canonical name.
+  getIcao24sForManufacturer(spellings: string[]): Promise<string[]>;
+  getAircraftByIcao24s(icao24s: string[]): Promise<any[]>;
+  getModelsByManufacturer(spellings: string[]): Promise<any[]>;
+  // Ranked full-text search, terms as parsed by parseSearchTerms()
+  searchAircraft(
+    terms: string[][],
+    limit: number,
+    offset: number
+  ): Promise<AircraftSearchPage>;
+}
@@ -0,0 +1,107 @@
+// lib/db/config.ts
+import path from 'path';
+import type { DatabaseDialect } from './adapters/types';
+
+const DEFAULT_SQLITE_PATH = 'lib/db/static.db';
+
+export interface DatabaseConfig {
+  client: DatabaseDialect;
+  sqlitePath: string; // absolute
+  postgresUrl?: string;
+  postgresPoolSize: number;
+}
+
+export class DatabaseConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseConfigError';
+  }
+}
+
+/**
+ * Resolve the database backend from the environment:
+ *
+ * - DB_CLIENT: `sqlite` or `postgres` (defaults to postgres when
+ *   DATABASE_URL is set, sqlite otherwise)
+ * - STATIC_DB_PATH: SQLite file, relative to the working directory
+ * - DATABASE_URL, DB_POOL_SIZE: PostgreSQL connection
+ */
+export function getDatabaseConfig(): DatabaseConfig {
+  const postgresUrl = process.env.DATABASE_URL || undefined;
+  const requested = process.env.DB_CLIENT?.trim().toLowerCase();
+
+  if (requested && requested !== 'sqlite' && requested !== 'postgres') {
+    throw new DatabaseConfigError(
+      `Unknown DB_CLIENT "${requested}" (expected sqlite or postgres)`
+    );
+  }
+
+  const client: DatabaseDialect =
+    (requested as DatabaseDialect | undefined) ||
+    (postgresUrl ? 'postgres' : 'sqlite');
+
+  if (client === 'postgres' && !postgresUrl) {
+    throw new DatabaseConfigError('DB_CLIENT=postgres requires DATABASE_URL');
+  }
+
+  return {
+    client,
+    sqlitePath: path.resolve(
+      process.cwd(),
+      process.env.STATIC_DB_PATH || DEFAULT_SQLITE_PATH
+    ),
+    postgresUrl,
+    postgresPoolSize: parseInt(process.env.DB_POOL_SIZE || '', 10) || 10,
+  };
+}
+
+export interface PositionHistoryConfig {
+  enabled: boolean;
+  batchSize: number; // rows per write
+  flushIntervalMs: number; // longest a position waits before it is written
+  retentionDays: number; // 0 keeps positions forever
+  downsampleAfterHours: number; // 0 disables downsampling
+  downsampleIntervalSeconds: number; // keep one position per aircraft per interval
+}
+
+function nonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Position history settings from the environment:
+ *
+ * - POSITION_HISTORY: `off` stops recording positions
+ * - POSITION_BATCH_SIZE, POSITION_FLUSH_MS: write batching
+ * - POSITION_RETENTION_DAYS: delete older positions (default 30)
+ * - POSITION_DOWNSAMPLE_AFTER_HOURS, POSITION_DOWNSAMPLE_INTERVAL:
+ *   thin out positions older than this to one per interval (seconds)
+ */
+export function getPositionHistoryConfig(): PositionHistoryConfig {
+  return {
+    enabled: process.env.POSITION_HISTORY?.trim().toLowerCase() !== 'off',
+    batchSize: Math.max(
+      nonNegativeInt(process.env.POSITION_BATCH_SIZE, 500),
+      1
+    ),
+    flushIntervalMs: nonNegativeInt(process.env.POSITION_FLUSH_MS, 5000),
+    retentionDays: nonNegativeInt(process.env.POSITION_RETENTION_DAYS, 30),
+    downsampleAfterHours: nonNegativeInt(
+      process.env.POSITION_DOWNSAMPLE_AFTER_HOURS,
+      24
+    ),
+    downsampleIntervalSeconds: Math.max(
+      nonNegativeInt(process.env.POSITION_DOWNSAMPLE_INTERVAL, 60),
+      1
+    ),
+  };
+}
+
+/**
+ * Most entries DatabaseManager keeps cached (DB_CACHE_MAX_ENTRIES,
+ * default 5000); the least recently used are evicted beyond that
+ */
+export function getDatabaseCacheSize(): number {
+  return Math.max(nonNegativeInt(process.env.DB_CACHE_MAX_ENTRIES, 5000), 1);
+}
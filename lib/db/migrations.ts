@@ -0,0 +1,390 @@
+// lib/db/migrations.ts
+import type { SqlExecutor, StorageAdapter } from './adapters/types';
+import { POSTGRES_SEARCH_DOCUMENT } from './search';
+
+/**
+ * A schema change. Versions are applied in ascending order and must never
+ * be renumbered or edited once released; add a new migration instead.
+ * Branch on `db.dialect` where SQLite and Postgres syntax differ.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqlExecutor) => Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: number; // unix ms
+}
+
+export interface MigrationStatus {
+  current: number; // highest applied version, 0 for a fresh database
+  latest: number; // highest version this code knows about
+  applied: AppliedMigration[];
+  pending: Pick<Migration, 'version' | 'name'>[];
+}
+
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly databaseVersion: number,
+    public readonly codeVersion: number
+  ) {
+    super(
+      `Database schema version ${databaseVersion} is newer than this code supports (${codeVersion}). ` +
+        'Upgrade the application or point it at a matching database.'
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// Unix millisecond columns overflow a Postgres INTEGER
+function millisType(db: SqlExecutor): string {
+  return db.dialect === 'postgres' ? 'BIGINT' : 'INTEGER';
+}
+
+/**
+ * Add a column unless it already exists. Databases created before
+ * migrations were introduced may already have some of them.
+ */
+async function addColumnIfMissing(
+  db: SqlExecutor,
+  table: string,
+  column: string,
+  type: string
+): Promise<void> {
+  if (db.dialect === 'postgres') {
+    await db.exec(
+      `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} ${type}`
+    );
+    return;
+  }
+
+  const columns = await db.query<{ name: string }>(
+    `PRAGMA table_info(${table})`
+  );
+  if (!columns.some((existing) => existing.name === column)) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_aircraft',
+    up: async (db) => {
+      const postgres = db.dialect === 'postgres';
+      const now = postgres
+        ? 'EXTRACT(EPOCH FROM now())::BIGINT'
+        : "strftime('%s', 'now')";
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS aircraft (
+          id ${postgres ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT'},
+          icao24 TEXT UNIQUE,
+          n_number TEXT,
+          manufacturer TEXT,
+          model TEXT,
+          owner TEXT,
+          name TEXT,
+          city TEXT,
+          state TEXT,
+          type_aircraft TEXT,
+          owner_type TEXT,
+          created_at ${postgres ? 'BIGINT' : 'INTEGER'} DEFAULT (${now}),
+          updated_at ${postgres ? 'BIGINT' : 'INTEGER'} DEFAULT (${now})
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_aircraft_icao24 ON aircraft(icao24);
+        CREATE INDEX IF NOT EXISTS idx_aircraft_manufacturer ON aircraft(manufacturer);
+        CREATE INDEX IF NOT EXISTS idx_aircraft_n_number ON aircraft(n_number);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'create_provider_persistence',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS provider_state (
+          provider TEXT PRIMARY KEY,
+          state TEXT NOT NULL,
+          updated_at ${millisType(db)} NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS provider_responses (
+          provider TEXT NOT NULL,
+          cache_key TEXT NOT NULL,
+          data TEXT NOT NULL,
+          fetched_at ${millisType(db)} NOT NULL,
+          PRIMARY KEY (provider, cache_key)
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'add_registry_columns',
+    up: async (db) => {
+      const columns: [string, string][] = [
+        ['serial_number', 'TEXT'],
+        ['year_mfr', 'INTEGER'],
+        ['country', 'TEXT'],
+        ['type_engine', 'TEXT'],
+        ['engine_manufacturer', 'TEXT'],
+        ['engine_model', 'TEXT'],
+        ['num_engines', 'INTEGER'],
+        ['num_seats', 'INTEGER'],
+        ['status_code', 'TEXT'],
+      ];
+      for (const [column, type] of columns) {
+        await addColumnIfMissing(db, 'aircraft', column, type);
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'create_aircraft_search',
+    up: async (db) => {
+      if (db.dialect === 'postgres') {
+        await db.exec(
+          `CREATE INDEX IF NOT EXISTS idx_aircraft_search ON aircraft USING GIN (${POSTGRES_SEARCH_DOCUMENT})`
+        );
+        return;
+      }
+
+      // External-content FTS5 index over the aircraft table, kept in sync
+      // by triggers
+      const columns =
+        'n_number, icao24, name, city, state, model, manufacturer';
+      const values = (row: 'new' | 'old') =>
+        columns
+          .split(', ')
+          .map((column) => `${row}.${column}`)
+          .join(', ');
+
+      await db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS aircraft_fts USING fts5(
+          ${columns},
+          content='aircraft',
+          content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS aircraft_fts_insert AFTER INSERT ON aircraft BEGIN
+          INSERT INTO aircraft_fts(rowid, ${columns})
+          VALUES (new.id, ${values('new')});
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS aircraft_fts_delete AFTER DELETE ON aircraft BEGIN
+          INSERT INTO aircraft_fts(aircraft_fts, rowid, ${columns})
+          VALUES ('delete', old.id, ${values('old')});
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS aircraft_fts_update AFTER UPDATE ON aircraft BEGIN
+          INSERT INTO aircraft_fts(aircraft_fts, rowid, ${columns})
+          VALUES ('delete', old.id, ${values('old')});
+          INSERT INTO aircraft_fts(rowid, ${columns})
+          VALUES (new.id, ${values('new')});
+        END;
+
+        INSERT INTO aircraft_fts(aircraft_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'add_weight_class',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'aircraft', 'weight_class', 'TEXT');
+    },
+  },
+  {
+    version: 6,
+    name: 'create_positions',
+    up: async (db) => {
+      const postgres = db.dialect === 'postgres';
+      const real = postgres ? 'DOUBLE PRECISION' : 'REAL';
+      // ts is the provider's position time in unix seconds; one row per
+      // aircraft and second, so repeated polls do not duplicate rows
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS positions (
+          icao24 TEXT NOT NULL,
+          ts ${postgres ? 'BIGINT' : 'INTEGER'} NOT NULL,
+          lat ${real} NOT NULL,
+          lon ${real} NOT NULL,
+          altitude ${real},
+          velocity ${real},
+          heading ${real},
+          on_ground INTEGER NOT NULL DEFAULT 0,
+          source TEXT NOT NULL,
+          PRIMARY KEY (icao24, ts)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_positions_ts ON positions(ts);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'create_flights',
+    up: async (db) => {
+      const postgres = db.dialect === 'postgres';
+      const real = postgres ? 'DOUBLE PRECISION' : 'REAL';
+      const seconds = postgres ? 'BIGINT' : 'INTEGER';
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS flights (
+          id ${postgres ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT'},
+          icao24 TEXT NOT NULL,
+          start_ts ${seconds} NOT NULL,
+          end_ts ${seconds} NOT NULL,
+          start_lat ${real} NOT NULL,
+          start_lon ${real} NOT NULL,
+          end_lat ${real} NOT NULL,
+          end_lon ${real} NOT NULL,
+          max_altitude ${real},
+          distance_km ${real} NOT NULL,
+          position_count INTEGER NOT NULL,
+          status TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_flights_icao24_start ON flights(icao24, start_ts);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'create_airports',
+    up: async (db) => {
+      const real = db.dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS airports (
+          ident TEXT PRIMARY KEY,
+          code TEXT NOT NULL,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          lat ${real} NOT NULL,
+          lon ${real} NOT NULL,
+          elevation_ft INTEGER,
+          iso_country TEXT,
+          municipality TEXT,
+          iata_code TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_airports_lat_lon ON airports(lat, lon);
+      `);
+      await addColumnIfMissing(db, 'flights', 'departure_airport', 'TEXT');
+      await addColumnIfMissing(db, 'flights', 'arrival_airport', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'create_manufacturer_aliases',
+    up: async (db) => {
+      const real = db.dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS manufacturers (
+          name TEXT PRIMARY KEY,
+          created_at ${millisType(db)} NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS manufacturer_aliases (
+          alias TEXT PRIMARY KEY,
+          canonical TEXT NOT NULL,
+          status TEXT NOT NULL,
+          similarity ${real},
+          updated_at ${millisType(db)} NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_manufacturer_aliases_canonical
+          ON manufacturer_aliases(canonical);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'create_flight_checkpoints',
+    up: async (db) => {
+      const seconds = db.dialect === 'postgres' ? 'BIGINT' : 'INTEGER';
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS flight_checkpoints (
+          icao24 TEXT PRIMARY KEY,
+          segmented_to ${seconds} NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+const LATEST_VERSION = Math.max(0, ...MIGRATIONS.map((m) => m.version));
+
+async function ensureMigrationsTable(db: SqlExecutor): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at ${millisType(db)} NOT NULL
+    );
+  `);
+}
+
+/**
+ * Compare the database's applied migrations with the ones in the code.
+ * Throws SchemaVersionError if the database is ahead of the code.
+ */
+export async function getMigrationStatus(
+  db: SqlExecutor
+): Promise<MigrationStatus> {
+  await ensureMigrationsTable(db);
+
+  const applied = await db.query<AppliedMigration>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+  );
+  const current = applied.length ? applied[applied.length - 1].version : 0;
+  if (current > LATEST_VERSION) {
+    throw new SchemaVersionError(current, LATEST_VERSION);
+  }
+
+  const appliedVersions = new Set(applied.map((row) => row.version));
+  const pending = [...MIGRATIONS]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => !appliedVersions.has(migration.version))
+    .map(({ version, name }) => ({ version, name }));
+
+  return { current, latest: LATEST_VERSION, applied, pending };
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction.
+ * With dryRun the pending list is returned without touching the schema.
+ */
+export async function runMigrations(
+  db: StorageAdapter,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationStatus> {
+  const status = await getMigrationStatus(db);
+  if (options.dryRun || status.pending.length === 0) {
+    return status;
+  }
+
+  for (const { version, name } of status.pending) {
+    const migration = MIGRATIONS.find((m) => m.version === version)!;
+
+    try {
+      await db.transaction(async (tx) => {
+        await migration.up(tx);
+        await tx.run(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [version, name, Date.now()]
+        );
+      });
+    } catch (error) {
+      throw new Error(
+        `Migration ${version} (${name}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    console.log(`[DB] Applied migration ${version} (${name})`);
+  }
+
+  return getMigrationStatus(db);
+}
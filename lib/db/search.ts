@@ -0,0 +1,67 @@
+// lib/db/search.ts
+import { icao24ToNNumber, nNumberToIcao24 } from '../../utils/n-number';
+
+const MAX_TERMS = 8;
+
+/**
+ * Registry text indexed for search on Postgres. The expression index and
+ * the query must use exactly the same expression.
+ */
+export const POSTGRES_SEARCH_DOCUMENT = `to_tsvector('simple',
+  coalesce(n_number, '') || ' ' || coalesce(icao24, '') || ' ' ||
+  coalesce(name, '') || ' ' || coalesce(city, '') || ' ' ||
+  coalesce(state, '') || ' ' || coalesce(model, '') || ' ' ||
+  coalesce(manufacturer, ''))`;
+
+// Alternatives for one term: registrations are stored without their "N"
+// prefix, and US N-numbers and ICAO24 addresses convert into each other
+function termAlternatives(term: string): string[] {
+  const alternatives = [term];
+
+  if (/^N[0-9][0-9A-Z]*$/.test(term)) {
+    alternatives.push(term.slice(1));
+    const icao24 = nNumberToIcao24(term);
+    if (icao24) alternatives.push(icao24.toUpperCase());
+  } else if (/^[0-9A-F]{6}$/.test(term)) {
+    const nNumber = icao24ToNNumber(term);
+    if (nNumber) alternatives.push(nNumber.slice(1));
+  }
+
+  return alternatives;
+}
+
+/**
+ * Split user input into search terms, each a list of alternatives
+ */
+export function parseSearchTerms(input: string): string[][] {
+  return input
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean)
+    .slice(0, MAX_TERMS)
+    .map(termAlternatives);
+}
+
+/**
+ * FTS5 MATCH expression: every term must match as a prefix
+ */
+export function toFts5Query(terms: string[][]): string {
+  return terms
+    .map((alternatives) => {
+      const options = alternatives.map((term) => `"${term}"*`);
+      return options.length > 1 ? `(${options.join(' OR ')})` : options[0];
+    })
+    .join(' AND ');
+}
+
+/**
+ * Postgres tsquery with the same prefix semantics
+ */
+export function toTsQuery(terms: string[][]): string {
+  return terms
+    .map((alternatives) => {
+      const options = alternatives.map((term) => `${term.toLowerCase()}:*`);
+      return options.length > 1 ? `(${options.join(' | ')})` : options[0];
+    })
+    .join(' & ');
+}
@@ -2,20 +2,7 @@
 
 import { Aircraft } from '@/types/base';
 import dbManager from '../db/DatabaseManager';
-import { API_CONFIG } from '@/config/api';
-
-// Constants
-const MAX_ICAO_PER_REQUEST = 100; // OpenSky limit
-const OPENSKY_PROXY_URL = '/api/proxy/opensky';
-const CACHE_TTL = 15000; // 15 seconds cache
-const BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
-
-// Cache for OpenSky responses
-const responseCache = new Map<string, { data: any; timestamp: number }>();
-
-// Track active requests to prevent duplicates
-const activeRequests = new Map<string, Promise<Aircraft[]>>();
+import { getLiveDataProvider } from './providers';
 
 /**
  * Service for managing ICAO codes and fetching aircraft data
@@ -74,68 +61,25 @@ class IcaoManagementService {
   }
 
   /**
-   * Fetch live aircraft data for a batch of ICAOs
+   * Fetch live aircraft data for a list of ICAOs from the configured provider
    */
-  private async fetchLiveAircraftBatch(
+  public async fetchLiveAircraft(
     icaos: string[],
     manufacturer: string
   ): Promise<Aircraft[]> {
-    const batchKey = JSON.stringify(icaos.sort());
-
-    // Check cache for recent data
-    const cached = responseCache.get(batchKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      console.log(`[ICAO] Using cached data for ${icaos.length} ICAOs`);
-      return cached.data;
-    }
+    const provider = getLiveDataProvider();
 
     try {
       console.log(
-        `[ICAO] Fetching live data for ${icaos.length} ICAOs from OpenSky proxy`
+        `[ICAO] Fetching live data for ${icaos.length} ${manufacturer} ICAOs from ${provider.name}`
       );
 
-      // Add request timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        API_CONFIG.TIMEOUT?.DEFAULT || 20000
+      const { states } = await provider.fetchStatesByIcao24s(icaos);
+      console.log(
+        `[ICAO] Received ${states.length} aircraft from ${provider.name}`
       );
 
-      // Request live data from OpenSky proxy
-      const response = await fetch(OPENSKY_PROXY_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          icao24s: icaos,
-          manufacturer,
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(
-          `OpenSky proxy error: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || 'Unknown error from OpenSky proxy');
-      }
-
-      const aircraft = data.data?.states || [];
-      console.log(`[ICAO] Received ${aircraft.length} aircraft from OpenSky`);
-
-      // Cache the results
-      responseCache.set(batchKey, {
-        data: aircraft,
-        timestamp: Date.now(),
-      });
-
-      return aircraft;
+      return states as unknown as Aircraft[];
     } catch (error) {
       console.error(`[ICAO] Error fetching live data:`, error);
 
@@ -148,7 +92,7 @@ class IcaoManagementService {
    * Clear the response cache
    */
   public clearCache(): void {
-    responseCache.clear();
+    getLiveDataProvider().clearCache();
     console.log('[ICAO] Cache cleared');
   }
 }
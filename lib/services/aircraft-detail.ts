@@ -0,0 +1,178 @@
+// lib/services/aircraft-detail.ts
+import dbManager, { REGISTRY_COLUMNS } from '../db/DatabaseManager';
+import type { FlightRow, RegistryRow } from '../../types/database';
+import {
+  getAircraftTypeLabel,
+  getEngineTypeLabel,
+  getOwnerTypeLabel,
+  getWeightClassLabel,
+} from '../../utils/registry-codes';
+import { icao24ToNNumber } from '../../utils/n-number';
+import airportIndex, { NearbyAirport } from './airports/airport-index';
+import {
+  getLastSeen,
+  getLiveDataProvider,
+  LiveAircraftState,
+  recordLastSeen,
+} from './providers';
+
+// Nearest airports further away than this are not worth naming
+const NEAREST_AIRPORT_MAX_KM = 50;
+
+// Only a flight that ended this recently describes the aircraft's state
+const RECENT_FLIGHT_WINDOW = 12 * 3600; // seconds
+
+/**
+ * Model reference data joined from ACFTREF/ENGINE at import time
+ */
+export interface AircraftReference {
+  numEngines: number | null;
+  numSeats: number | null;
+  weightClass: string | null; // "CLASS 1" ... "CLASS 4"
+  weightClassLabel: string | null;
+  engineType: string | null;
+  engineManufacturer: string | null;
+  engineModel: string | null;
+  yearMfr: number | null;
+}
+
+/**
+ * Everything known about one aircraft: registry, reference and live data
+ */
+export interface AircraftDetail {
+  icao24: string;
+  registration: string | null; // "N12345", derived for US addresses
+  registry: RegistryRow | null;
+  ownerType: string | null; // decoded registrant type
+  aircraftType: string | null; // decoded FAA aircraft type
+  reference: AircraftReference | null;
+  live: LiveAircraftState | null;
+  liveError: string | null; // set when the provider could not be asked
+  lastSeen: number | null; // seconds since epoch
+  nearestAirport: NearbyAirport | null; // to the live position
+  flight: FlightRow | null; // latest recent flight, with its airports
+  provider: string;
+}
+
+function toRegistryRow(row: Record<string, any>): RegistryRow {
+  const registry = {} as Record<keyof RegistryRow, unknown>;
+  for (const field of REGISTRY_COLUMNS) {
+    registry[field] = row[field] ?? null;
+  }
+  registry.icao24 = String(row.icao24).toLowerCase();
+  return registry as RegistryRow;
+}
+
+function toReference(registry: RegistryRow): AircraftReference {
+  return {
+    numEngines: registry.num_engines,
+    numSeats: registry.num_seats,
+    weightClass: registry.weight_class,
+    weightClassLabel: getWeightClassLabel(registry.weight_class) ?? null,
+    engineType: getEngineTypeLabel(registry.type_engine) ?? null,
+    engineManufacturer: registry.engine_manufacturer,
+    engineModel: registry.engine_model,
+    yearMfr: registry.year_mfr,
+  };
+}
+
+async function fetchLiveState(
+  icao24: string,
+  providerName?: string
+): Promise<{ live: LiveAircraftState | null; liveError: string | null }> {
+  try {
+    const { states } = await getLiveDataProvider(
+      providerName
+    ).fetchStatesByIcao24s([icao24]);
+    recordLastSeen(states);
+    const live =
+      states.find((state) => state.icao24.toLowerCase() === icao24) || null;
+    return { live, liveError: null };
+  } catch (error) {
+    console.error(`[AircraftDetail] Live lookup failed for ${icao24}:`, error);
+    return {
+      live: null,
+      liveError: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function findNearestAirport(
+  live: LiveAircraftState | null
+): Promise<NearbyAirport | null> {
+  if (
+    !live ||
+    !Number.isFinite(live.latitude) ||
+    !Number.isFinite(live.longitude)
+  ) {
+    return null;
+  }
+  try {
+    const airports = await airportIndex.load();
+    return airports.findNearest(
+      live.latitude,
+      live.longitude,
+      NEAREST_AIRPORT_MAX_KM
+    );
+  } catch (error) {
+    console.error('[AircraftDetail] Airport lookup failed:', error);
+    return null;
+  }
+}
+
+async function findRecentFlight(icao24: string): Promise<FlightRow | null> {
+  const now = Math.floor(Date.now() / 1000);
+  try {
+    const flights = await dbManager.getFlights(
+      icao24,
+      now - RECENT_FLIGHT_WINDOW,
+      now
+    );
+    return flights[flights.length - 1] ?? null;
+  } catch (error) {
+    console.error(
+      `[AircraftDetail] Flight lookup failed for ${icao24}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Build the detail record for one aircraft. Live data is best effort:
+ * a failing provider leaves `live` empty instead of failing the lookup.
+ */
+export async function getAircraftDetail(
+  icao24: string,
+  providerName?: string
+): Promise<AircraftDetail> {
+  const key = icao24.toLowerCase();
+
+  const [rows, { live, liveError }, flight] = await Promise.all([
+    dbManager.getAircraftByIcao24s([key]),
+    fetchLiveState(key, providerName),
+    findRecentFlight(key),
+  ]);
+
+  const row = rows.find((candidate) => candidate.icao24?.toLowerCase() === key);
+  const registry = row ? toRegistryRow(row) : null;
+
+  return {
+    icao24: key,
+    registration: registry?.n_number
+      ? `N${registry.n_number}`
+      : icao24ToNNumber(key),
+    registry,
+    ownerType: registry?.owner_type
+      ? getOwnerTypeLabel(registry.owner_type)
+      : null,
+    aircraftType: getAircraftTypeLabel(registry?.type_aircraft) ?? null,
+    reference: registry ? toReference(registry) : null,
+    live,
+    liveError,
+    lastSeen: live?.last_contact ?? getLastSeen(key),
+    nearestAirport: await findNearestAirport(live),
+    flight,
+    provider: getLiveDataProvider(providerName).name,
+  };
+}
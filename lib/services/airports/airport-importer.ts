@@ -0,0 +1,156 @@
+// lib/services/airports/airport-importer.ts
+import fs from 'fs';
+import readline from 'readline';
+import dbManager from '../../db/DatabaseManager';
+import type { AirportRow } from '../../../types/database';
+import { splitFaaLine } from '../registry/faa-files';
+
+// OurAirports types that are not places an aircraft can be at
+const SKIPPED_TYPES = new Set(['closed']);
+
+export interface AirportImportOptions {
+  dryRun?: boolean; // compute the report without writing
+  log?: (message: string) => void;
+}
+
+export interface AirportImportReport {
+  source: string;
+  total: number; // airports imported
+  skipped: number; // closed airports and rows without a position
+  byType: Record<string, number>;
+  dryRun: boolean;
+  durationMs: number;
+}
+
+export class AirportSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AirportSourceError';
+  }
+}
+
+function text(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Map an OurAirports airports.csv record onto airport columns. Returns
+ * null for closed airports and records without a usable position.
+ */
+export function mapAirportRecord(
+  record: Record<string, string>
+): AirportRow | null {
+  const ident = text(record['ident']);
+  const type = text(record['type']) || 'unknown';
+  const lat = parseFloat(record['latitude_deg']);
+  const lon = parseFloat(record['longitude_deg']);
+
+  if (!ident || SKIPPED_TYPES.has(type)) return null;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  const elevation = parseInt(record['elevation_ft'] || '', 10);
+
+  return {
+    ident,
+    code: text(record['icao_code']) || text(record['gps_code']) || ident,
+    type,
+    name: text(record['name']) || ident,
+    lat,
+    lon,
+    elevation_ft: Number.isFinite(elevation) ? elevation : null,
+    iso_country: text(record['iso_country']),
+    municipality: text(record['municipality']),
+    iata_code: text(record['iata_code']),
+  };
+}
+
+/**
+ * Stream the records of a CSV file keyed by its header names
+ */
+async function* readCsvRecords(
+  source: string
+): AsyncGenerator<Record<string, string>> {
+  const stat = await fs.promises.stat(source).catch(() => null);
+  if (!stat?.isFile()) {
+    throw new AirportSourceError(`Airport file not found: ${source}`);
+  }
+
+  const stream = fs.createReadStream(source);
+  const lines = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+
+  let header: string[] | null = null;
+  try {
+    for await (const rawLine of lines) {
+      if (!header) {
+        // Same quoting rules as the FAA files; may start with a BOM
+        header = splitFaaLine(rawLine.replace(/^\uFEFF/, ''));
+        continue;
+      }
+      if (!rawLine.trim()) continue;
+
+      const fields = splitFaaLine(rawLine);
+      const record: Record<string, string> = {};
+      header.forEach((name, index) => {
+        if (name) record[name] = fields[index] ?? '';
+      });
+      yield record;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * Replace the airport reference data with an OurAirports-style
+ * airports.csv
+ */
+export async function importAirports(
+  source: string,
+  options: AirportImportOptions = {}
+): Promise<AirportImportReport> {
+  const log =
+    options.log || ((message) => console.log(`[Airport Import] ${message}`));
+  const startedAt = Date.now();
+
+  const airports = new Map<string, AirportRow>();
+  const byType: Record<string, number> = {};
+  let skipped = 0;
+
+  for await (const record of readCsvRecords(source)) {
+    const airport = mapAirportRecord(record);
+    if (!airport) {
+      skipped++;
+      continue;
+    }
+    if (airports.has(airport.ident)) continue; // first row wins
+    airports.set(airport.ident, airport);
+    byType[airport.type] = (byType[airport.type] || 0) + 1;
+  }
+
+  if (airports.size === 0) {
+    throw new AirportSourceError(`No airports found in ${source}`);
+  }
+
+  if (!options.dryRun) {
+    await dbManager.replaceAirports(Array.from(airports.values()));
+  }
+
+  const report: AirportImportReport = {
+    source,
+    total: airports.size,
+    skipped,
+    byType,
+    dryRun: !!options.dryRun,
+    durationMs: Date.now() - startedAt,
+  };
+
+  log(
+    `${options.dryRun ? 'Dry run: would import' : 'Imported'} ${report.total} airports (${report.skipped} skipped)`
+  );
+  return report;
+}
@@ -0,0 +1,242 @@
+// lib/services/airports/airport-index.ts
+import dbManager from '../../db/DatabaseManager';
+import { haversineKm, splitAtAntimeridian } from '../../../utils/geo';
+import type { AirportRow, PositionRow } from '../../../types/database';
+import type { BoundingBox } from '../../../types/regions';
+
+// Airports are bucketed into cells of this many degrees
+const CELL_DEGREES = 1;
+const KM_PER_DEGREE = 111.2;
+
+// Types worth naming as an aircraft's nearest airport
+export const AIRPORT_TYPES = [
+  'large_airport',
+  'medium_airport',
+  'small_airport',
+];
+
+// A flight starts or ends at an airport this close, below this height
+// above the field
+const TRACK_END_RADIUS_KM = 5;
+const TRACK_END_MAX_HEIGHT = 600; // meters
+const FEET_TO_METERS = 0.3048;
+
+// Larger airports first when a view holds more than the limit
+const TYPE_RANK: Record<string, number> = {
+  large_airport: 0,
+  medium_airport: 1,
+  small_airport: 2,
+};
+
+export interface NearbyAirport {
+  code: string;
+  name: string;
+  type: string;
+  municipality: string | null;
+  distanceKm: number;
+}
+
+function cellIndex(value: number): number {
+  return Math.floor(value / CELL_DEGREES);
+}
+
+function cellKey(latCell: number, lonCell: number): string {
+  // Wrap longitude cells around the antimeridian
+  const lonCells = 360 / CELL_DEGREES;
+  const wrapped = ((lonCell % lonCells) + lonCells) % lonCells;
+  return `${latCell}:${wrapped}`;
+}
+
+/**
+ * In-memory spatial index over the airports table, rebuilt whenever the
+ * database hands out a new airport list (after an import or cache expiry)
+ */
+export class AirportIndex {
+  private static instance: AirportIndex | null = null;
+  private source: AirportRow[] | null = null;
+  private cells = new Map<string, AirportRow[]>();
+
+  private constructor() {}
+
+  public static getInstance(): AirportIndex {
+    if (!AirportIndex.instance) {
+      AirportIndex.instance = new AirportIndex();
+    }
+    return AirportIndex.instance;
+  }
+
+  /**
+   * Make sure the index reflects the stored airports
+   */
+  public async load(): Promise<AirportIndex> {
+    const airports = await dbManager.getAirports();
+    if (airports !== this.source) {
+      this.build(airports);
+    }
+    return this;
+  }
+
+  public get size(): number {
+    return this.source?.length ?? 0;
+  }
+
+  /**
+   * Closest airport of the given types within `maxKm`
+   */
+  public findNearest(
+    lat: number,
+    lon: number,
+    maxKm: number,
+    types: string[] = AIRPORT_TYPES
+  ): NearbyAirport | null {
+    let best: AirportRow | null = null;
+    let bestDistance = maxKm;
+
+    for (const airport of this.candidates(lat, lon, maxKm)) {
+      if (!types.includes(airport.type)) continue;
+      const distance = haversineKm(lat, lon, airport.lat, airport.lon);
+      if (distance <= bestDistance) {
+        best = airport;
+        bestDistance = distance;
+      }
+    }
+
+    return best
+      ? {
+          code: best.code,
+          name: best.name,
+          type: best.type,
+          municipality: best.municipality,
+          distanceKm: Math.round(bestDistance * 10) / 10,
+        }
+      : null;
+  }
+
+  /**
+   * Airport a flight took off from or landed at, judged from its first or
+   * last position: close to the field and on the ground or low above it
+   */
+  public locateTrackEnd(position: PositionRow): AirportRow | null {
+    let best: AirportRow | null = null;
+    let bestDistance = TRACK_END_RADIUS_KM;
+
+    for (const airport of this.candidates(
+      position.lat,
+      position.lon,
+      TRACK_END_RADIUS_KM
+    )) {
+      const distance = haversineKm(
+        position.lat,
+        position.lon,
+        airport.lat,
+        airport.lon
+      );
+      if (distance > bestDistance) continue;
+
+      if (
+        !position.on_ground &&
+        position.altitude !== null &&
+        position.altitude - (airport.elevation_ft ?? 0) * FEET_TO_METERS >
+          TRACK_END_MAX_HEIGHT
+      ) {
+        continue;
+      }
+
+      best = airport;
+      bestDistance = distance;
+    }
+
+    return best;
+  }
+
+  /**
+   * Airports of the given types inside a bounding box, larger ones first
+   */
+  public findInBounds(
+    bounds: BoundingBox,
+    types: string[] = AIRPORT_TYPES,
+    limit: number = 500
+  ): AirportRow[] {
+    const matches = splitAtAntimeridian(bounds).flatMap((part) =>
+      this.findInBox(part, types)
+    );
+    return matches
+      .sort((a, b) => (TYPE_RANK[a.type] ?? 3) - (TYPE_RANK[b.type] ?? 3))
+      .slice(0, limit);
+  }
+
+  private findInBox(bounds: BoundingBox, types: string[]): AirportRow[] {
+    const matches: AirportRow[] = [];
+    // Never visit a wrapped longitude cell twice
+    const lastLonCell = Math.min(
+      cellIndex(bounds.maxLon),
+      cellIndex(bounds.minLon) + 360 / CELL_DEGREES - 1
+    );
+
+    for (
+      let latCell = cellIndex(bounds.minLat);
+      latCell <= cellIndex(bounds.maxLat);
+      latCell++
+    ) {
+      for (
+        let lonCell = cellIndex(bounds.minLon);
+        lonCell <= lastLonCell;
+        lonCell++
+      ) {
+        for (const airport of this.cells.get(cellKey(latCell, lonCell)) || []) {
+          if (
+            types.includes(airport.type) &&
+            airport.lat >= bounds.minLat &&
+            airport.lat <= bounds.maxLat &&
+            airport.lon >= bounds.minLon &&
+            airport.lon <= bounds.maxLon
+          ) {
+            matches.push(airport);
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private build(airports: AirportRow[]): void {
+    this.cells.clear();
+    for (const airport of airports) {
+      const key = cellKey(cellIndex(airport.lat), cellIndex(airport.lon));
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(airport);
+      } else {
+        this.cells.set(key, [airport]);
+      }
+    }
+    this.source = airports;
+    console.log(`[Airports] Indexed ${airports.length} airports`);
+  }
+
+  // Airports in the cells that can hold a point within `radiusKm`
+  private *candidates(
+    lat: number,
+    lon: number,
+    radiusKm: number
+  ): Generator<AirportRow> {
+    const latSpan = Math.ceil(radiusKm / KM_PER_DEGREE / CELL_DEGREES);
+    const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+    const lonSpan = Math.min(
+      Math.ceil(radiusKm / (KM_PER_DEGREE * cosLat) / CELL_DEGREES),
+      180 / CELL_DEGREES
+    );
+    const latCell = cellIndex(lat);
+    const lonCell = cellIndex(lon);
+
+    for (let dLat = -latSpan; dLat <= latSpan; dLat++) {
+      for (let dLon = -lonSpan; dLon <= lonSpan; dLon++) {
+        yield* this.cells.get(cellKey(latCell + dLat, lonCell + dLon)) || [];
+      }
+    }
+  }
+}
+
+const airportIndex = AirportIndex.getInstance();
+export default airportIndex;
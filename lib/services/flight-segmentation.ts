@@ -0,0 +1,310 @@
+// lib/services/flight-segmentation.ts
+import dbManager from '../db/DatabaseManager';
+import positionHistory from './position-history';
+import airportIndex from './airports/airport-index';
+import { haversineKm } from '../../utils/geo';
+import type { FlightRow, PositionRow } from '../../types/database';
+
+// A longer silence ends a flight (seconds)
+export const MAX_CONTACT_GAP = 20 * 60;
+
+// Slow, low reports count as ground even without the on_ground flag
+const MIN_AIRBORNE_SPEED = 15; // m/s
+const MAX_GROUND_ALTITUDE = 150; // meters
+
+const MIN_FLIGHT_POSITIONS = 2;
+const MAX_POSITIONS_PER_RUN = 100000;
+
+// Aircraft with new positions are re-segmented this long after the write
+const SEGMENT_DELAY_MS = 5 * 60 * 1000;
+
+function isAirborne(position: PositionRow): boolean {
+  if (position.on_ground) return false;
+  if (position.velocity === null || position.velocity >= MIN_AIRBORNE_SPEED) {
+    return true;
+  }
+  return position.altitude !== null && position.altitude > MAX_GROUND_ALTITUDE;
+}
+
+/**
+ * Code of the airport a flight starts or ends at, given its first or last
+ * position
+ */
+export type AirportLocator = (position: PositionRow) => string | null;
+
+function toFlight(
+  airborne: PositionRow[],
+  takeoff: PositionRow | null,
+  landing: PositionRow | null,
+  status: FlightRow['status'],
+  locateAirport?: AirportLocator
+): FlightRow {
+  const track = [
+    ...(takeoff ? [takeoff] : []),
+    ...airborne,
+    ...(landing ? [landing] : []),
+  ];
+  const first = track[0];
+  const last = track[track.length - 1];
+
+  let distance = 0;
+  let maxAltitude: number | null = null;
+  for (let i = 0; i < track.length; i++) {
+    const altitude = track[i].altitude;
+    if (altitude !== null && (maxAltitude === null || altitude > maxAltitude)) {
+      maxAltitude = altitude;
+    }
+    if (i > 0) {
+      const previous = track[i - 1];
+      distance += haversineKm(
+        previous.lat,
+        previous.lon,
+        track[i].lat,
+        track[i].lon
+      );
+    }
+  }
+
+  return {
+    icao24: first.icao24,
+    start_ts: first.ts,
+    end_ts: last.ts,
+    start_lat: first.lat,
+    start_lon: first.lon,
+    end_lat: last.lat,
+    end_lon: last.lon,
+    max_altitude: maxAltitude,
+    distance_km: Math.round(distance * 10) / 10,
+    position_count: track.length,
+    status,
+    departure_airport: locateAirport?.(first) ?? null,
+    arrival_airport:
+      status === 'complete' ? (locateAirport?.(last) ?? null) : null,
+  };
+}
+
+/**
+ * Split one aircraft's positions (oldest first) into flights. A flight
+ * starts at the first airborne report and ends at the next ground report
+ * or after a gap in contact longer than MAX_CONTACT_GAP. The ground
+ * reports just before takeoff and after landing become the first and last
+ * positions. A flight still airborne at `now` (unix seconds) is 'active'.
+ * With `locateAirport`, flights are tagged with departure and arrival
+ * airports.
+ */
+export function segmentFlights(
+  positions: PositionRow[],
+  now: number = Math.floor(Date.now() / 1000),
+  locateAirport?: AirportLocator
+): FlightRow[] {
+  const flights: FlightRow[] = [];
+  let airborne: PositionRow[] = [];
+  let takeoff: PositionRow | null = null;
+  let lastGround: PositionRow | null = null;
+
+  const close = (landing: PositionRow | null) => {
+    if (airborne.length >= MIN_FLIGHT_POSITIONS) {
+      flights.push(
+        toFlight(airborne, takeoff, landing, 'complete', locateAirport)
+      );
+    }
+    airborne = [];
+    takeoff = null;
+  };
+
+  for (const position of positions) {
+    const previous = airborne[airborne.length - 1];
+
+    if (isAirborne(position)) {
+      if (previous && position.ts - previous.ts > MAX_CONTACT_GAP) {
+        close(null);
+      }
+      if (airborne.length === 0) {
+        takeoff =
+          lastGround && position.ts - lastGround.ts <= MAX_CONTACT_GAP
+            ? lastGround
+            : null;
+      }
+      airborne.push(position);
+    } else {
+      if (previous) {
+        close(position.ts - previous.ts <= MAX_CONTACT_GAP ? position : null);
+      }
+      lastGround = position;
+    }
+  }
+
+  const last = airborne[airborne.length - 1];
+  if (last && airborne.length >= MIN_FLIGHT_POSITIONS) {
+    flights.push(
+      toFlight(
+        airborne,
+        takeoff,
+        null,
+        now - last.ts > MAX_CONTACT_GAP ? 'complete' : 'active',
+        locateAirport
+      )
+    );
+  }
+
+  return flights;
+}
+
+/**
+ * Where the next run resumes after a full batch, so that runs make
+ * progress even through stretches without a complete flight. Flights
+ * before the last ground position cannot change; the next run starts at
+ * that position so it can still be a takeoff.
+ */
+function settledUntil(positions: PositionRow[], after: number): number {
+  for (let i = positions.length - 1; i >= 0; i--) {
+    if (!isAirborne(positions[i])) {
+      if (positions[i].ts - 1 > after) return positions[i].ts - 1;
+      break;
+    }
+  }
+  // One flight fills the whole batch: end it here rather than stall
+  return positions[positions.length - 1].ts;
+}
+
+/**
+ * Keeps the flights table in step with the position history. Complete
+ * flights are final; positions after the last one are re-segmented when
+ * new positions arrive or flights are requested.
+ */
+export class FlightSegmentationService {
+  private static instance: FlightSegmentationService | null = null;
+  private dirty = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private updates = new Map<string, Promise<FlightRow[]>>();
+
+  private constructor() {}
+
+  public static getInstance(): FlightSegmentationService {
+    if (!FlightSegmentationService.instance) {
+      FlightSegmentationService.instance = new FlightSegmentationService();
+    }
+    return FlightSegmentationService.instance;
+  }
+
+  /**
+   * Re-segment aircraft in the background as their positions are written
+   */
+  public start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = positionHistory.subscribe((positions) => {
+      for (const position of positions) this.dirty.add(position.icao24);
+      this.schedule();
+    });
+  }
+
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Segment the positions recorded after an aircraft's last complete
+   * flight and store the result. Returns the flights written.
+   */
+  public updateAircraft(icao24: string): Promise<FlightRow[]> {
+    const address = icao24.toLowerCase();
+
+    // Concurrent updates of one aircraft would race on the same rows
+    const running = this.updates.get(address);
+    if (running) return running;
+
+    const update = this.segmentAircraft(address).finally(() => {
+      this.updates.delete(address);
+    });
+    this.updates.set(address, update);
+    return update;
+  }
+
+  /**
+   * Flights of one aircraft overlapping a time range (unix seconds),
+   * brought up to date with the position history first
+   */
+  public async getFlights(
+    icao24: string,
+    from: number,
+    to: number
+  ): Promise<FlightRow[]> {
+    try {
+      await this.updateAircraft(icao24);
+    } catch (error) {
+      // Stored flights are still worth returning
+      console.error(`[Flights] Failed to segment ${icao24}:`, error);
+    }
+    return dbManager.getFlights(icao24, from, to);
+  }
+
+  private async segmentAircraft(icao24: string): Promise<FlightRow[]> {
+    const after = (await dbManager.getFlightsFinalUntil(icao24)) ?? -1;
+    const positions = await dbManager.getPositions(
+      icao24,
+      after + 1,
+      undefined,
+      MAX_POSITIONS_PER_RUN
+    );
+
+    const airports = await airportIndex.load();
+    const flights = segmentFlights(
+      positions,
+      undefined,
+      (position) => airports.locateTrackEnd(position)?.code ?? null
+    );
+
+    let checkpoint: number | undefined;
+    if (positions.length === MAX_POSITIONS_PER_RUN) {
+      checkpoint = settledUntil(positions, after);
+      const last = flights[flights.length - 1];
+      if (last && last.start_ts > checkpoint) {
+        // More positions follow; finish the last flight on the next run
+        last.status = 'active';
+        last.arrival_airport = null;
+      }
+    }
+
+    await dbManager.replaceFlights(icao24, after, flights, checkpoint);
+    return flights;
+  }
+
+  private schedule(): void {
+    if (this.timer || this.dirty.size === 0) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.processDirty();
+    }, SEGMENT_DELAY_MS);
+    this.timer.unref?.();
+  }
+
+  private async processDirty(): Promise<void> {
+    const icao24s = Array.from(this.dirty);
+    this.dirty.clear();
+
+    let flightCount = 0;
+    for (const icao24 of icao24s) {
+      try {
+        flightCount += (await this.updateAircraft(icao24)).length;
+      } catch (error) {
+        console.error(`[Flights] Failed to segment ${icao24}:`, error);
+      }
+    }
+    console.log(
+      `[Flights] Segmented ${icao24s.length} aircraft (${flightCount} flights written)`
+    );
+
+    this.schedule();
+  }
+}
+
+const flightSegmentation = FlightSegmentationService.getInstance();
+export default flightSegmentation;
@@ -0,0 +1,189 @@
+// lib/services/live-tracking.ts
+import type { BoundingBox } from '../../types/regions';
+import {
+  getLiveDataProvider,
+  LiveAircraftState,
+  recordLastSeen,
+} from './providers';
+import positionHistory from './position-history';
+import flightSegmentation from './flight-segmentation';
+import { LruCache } from '../../utils/lru-cache';
+
+/**
+ * How often the tracking engine refreshes its sessions, and so how long a
+ * fetched state is served from memory (TRACKING_REFRESH_SECONDS, 10-300)
+ */
+export const TRACKING_REFRESH_MS =
+  Math.min(
+    Math.max(
+      parseInt(process.env.TRACKING_REFRESH_SECONDS ?? '', 10) || 30,
+      10
+    ),
+    300
+  ) * 1000;
+
+// Latest state per provider and ICAO24. Real states are bounded by the
+// aircraft airborne at once; the far more numerous aircraft queried
+// without a position are kept apart so they cannot evict them.
+const LIVE_STATES = new LruCache<LiveAircraftState>({
+  name: 'live-states',
+  maxEntries: 50000,
+  defaultTtlMs: TRACKING_REFRESH_MS,
+});
+const NO_POSITION = new LruCache<true>({
+  name: 'live-no-position',
+  maxEntries: 500000,
+  defaultTtlMs: TRACKING_REFRESH_MS,
+});
+
+// Region results, keyed by provider and bounding box
+const REGION_CACHE = new LruCache<LiveAircraftState[]>({
+  name: 'regions',
+  maxEntries: 200,
+  defaultTtlMs: 15000, // 15 seconds
+});
+
+// ICAO24s being fetched right now, so overlapping requests share a query
+const pendingStates = new Map<string, Promise<LiveAircraftState | null>>();
+
+function hasPosition(state: LiveAircraftState): boolean {
+  return (
+    state &&
+    typeof state.latitude === 'number' &&
+    typeof state.longitude === 'number'
+  );
+}
+
+// Record states received from a provider. Flight segmentation starts with
+// the first positions recorded, not when this module is imported.
+function recordStates(states: LiveAircraftState[], providerName: string) {
+  flightSegmentation.start();
+  recordLastSeen(states);
+  positionHistory.record(states, providerName);
+}
+
+function storeState(key: string, state: LiveAircraftState | null): void {
+  if (state) {
+    LIVE_STATES.set(key, state);
+    NO_POSITION.delete(key);
+  } else {
+    NO_POSITION.set(key, true);
+    LIVE_STATES.delete(key);
+  }
+}
+
+// A state (or null for no position) stored in the last maxAgeMs
+function recentState(
+  key: string,
+  maxAgeMs: number
+): LiveAircraftState | null | undefined {
+  const now = Date.now();
+  const state = LIVE_STATES.getEntry(key);
+  if (state && now - state.storedAt < maxAgeMs) return state.value;
+  const none = NO_POSITION.getEntry(key);
+  if (none && now - none.storedAt < maxAgeMs) return null;
+  return undefined;
+}
+
+function stateKey(providerName: string, icao24: string): string {
+  return `${providerName}:${icao24.toLowerCase()}`;
+}
+
+/**
+ * Fetch live aircraft within a bounding box from the live data provider
+ */
+export async function fetchLiveAircraftInBounds(
+  bounds: BoundingBox,
+  providerName?: string
+): Promise<LiveAircraftState[]> {
+  const provider = getLiveDataProvider(providerName);
+  const cacheKey = `${provider.name}:bbox:${bounds.minLat},${bounds.maxLat},${bounds.minLon},${bounds.maxLon}`;
+
+  const cached = REGION_CACHE.getEntry(cacheKey);
+  if (cached) {
+    console.log(
+      '[API] Using cached region data from',
+      new Date(cached.storedAt).toLocaleTimeString()
+    );
+    return cached.value;
+  }
+
+  const { states } = await provider.fetchStatesByBounds(bounds);
+  recordStates(states, provider.name);
+  const results = states.filter(hasPosition);
+
+  // Aircraft outside the box may still be flying, so only record hits
+  for (const state of results) {
+    storeState(stateKey(provider.name, state.icao24), state);
+  }
+
+  REGION_CACHE.set(cacheKey, results);
+  return results;
+}
+
+/**
+ * Fetch live aircraft data from the configured live data provider.
+ * States fetched in the last `maxAgeMs` are served from memory and ICAO24s
+ * already being fetched join that request, so overlapping requests from
+ * different clients query each aircraft once. The provider handles
+ * batching and rate limits.
+ */
+export async function fetchLiveAircraftData(
+  icao24s: string[],
+  providerName?: string,
+  maxAgeMs: number = TRACKING_REFRESH_MS
+): Promise<LiveAircraftState[]> {
+  const provider = getLiveDataProvider(providerName);
+  const lookups: Promise<LiveAircraftState | null>[] = [];
+  const missing: string[] = [];
+  let fromMemory = 0;
+
+  for (const icao24 of new Set(icao24s.map((icao) => icao.toLowerCase()))) {
+    const key = stateKey(provider.name, icao24);
+    const pending = pendingStates.get(key);
+    const stored = recentState(key, maxAgeMs);
+    if (stored !== undefined) {
+      lookups.push(Promise.resolve(stored));
+      fromMemory++;
+    } else if (pending) {
+      lookups.push(pending);
+    } else {
+      missing.push(icao24);
+    }
+  }
+
+  if (missing.length > 0) {
+    console.log(
+      `[API] Fetching ${missing.length} ICAOs from ${provider.name} provider (${fromMemory} from memory)`
+    );
+
+    const request = provider
+      .fetchStatesByIcao24s(missing)
+      .then(({ states }) => {
+        recordStates(states, provider.name);
+        return new Map(
+          states
+            .filter(hasPosition)
+            .map((state) => [state.icao24.toLowerCase(), state])
+        );
+      });
+
+    for (const icao24 of missing) {
+      const key = stateKey(provider.name, icao24);
+      const lookup = request.then((found) => {
+        const state = found.get(icao24) ?? null;
+        storeState(key, state);
+        return state;
+      });
+      pendingStates.set(key, lookup);
+      lookup.then(
+        () => pendingStates.delete(key),
+        () => pendingStates.delete(key)
+      );
+      lookups.push(lookup);
+    }
+  }
+
+  const states = await Promise.all(lookups);
+  return states.filter((state): state is LiveAircraftState => state !== null);
+}
@@ -0,0 +1,316 @@
+// lib/services/manufacturer-aliases.ts
+import dbManager from '../db/DatabaseManager';
+import type { ManufacturerAliasRow } from '../../types/database';
+
+// Suggest an alias at or above this similarity of normalized names
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+// Words that do not tell one maker from another
+const NOISE_WORDS = new Set([
+  'AB',
+  'AEROSPACE',
+  'AG',
+  'AIRCRAFT',
+  'AIRPLANE',
+  'AIRPLANES',
+  'AND',
+  'AVIATION',
+  'CO',
+  'COMPANY',
+  'CORP',
+  'CORPORATION',
+  'DIV',
+  'DIVISION',
+  'GMBH',
+  'HELICOPTER',
+  'HELICOPTERS',
+  'INC',
+  'INCORPORATED',
+  'IND',
+  'INDUSTRIES',
+  'INTERNATIONAL',
+  'INTL',
+  'LC',
+  'LLC',
+  'LTD',
+  'LIMITED',
+  'MFG',
+  'MANUFACTURING',
+  'NEW',
+  'OF',
+  'PLC',
+  'SA',
+  'SAS',
+  'SPA',
+  'THE',
+]);
+
+export class ManufacturerAliasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManufacturerAliasError';
+  }
+}
+
+export interface AliasSuggestion {
+  alias: string;
+  canonical: string;
+  similarity: number;
+  aliasCount: number; // aircraft registered under the alias
+}
+
+export interface SuggestionReport {
+  spellings: number; // distinct registry spellings looked at
+  suggested: number;
+  samples: AliasSuggestion[];
+}
+
+/**
+ * Reduce a registry spelling to the words that identify the maker:
+ * "NEW PIPER AIRCRAFT INC" and "PIPER" both become "PIPER"
+ */
+export function normalizeManufacturerName(name: string): string {
+  const words = name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const significant = words.filter((word) => !NOISE_WORDS.has(word));
+  return (significant.length > 0 ? significant : words).join(' ');
+}
+
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/ /g, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient of the character bigrams of two normalized names (0-1)
+ */
+export function manufacturerSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  let total = 0;
+  let shared = 0;
+  first.forEach((count, bigram) => {
+    total += count;
+    shared += Math.min(count, second.get(bigram) || 0);
+  });
+  second.forEach((count) => {
+    total += count;
+  });
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+interface Cluster {
+  normalized: string;
+  canonical: string | null; // an existing canonical name, if any
+  members: { name: string; count: number }[];
+}
+
+// Names are only compared with names sharing their first two characters
+function blockKey(normalized: string): string {
+  return normalized.slice(0, 2);
+}
+
+/**
+ * Group registry spellings of the same maker. Spellings that already have
+ * an alias (of any status) are left alone. Each group joins the existing
+ * canonical name it matches, or else its spelling without noise words or
+ * its most common spelling.
+ */
+export function suggestManufacturerAliases(
+  counts: { name: string; count: number }[],
+  canonicals: string[],
+  aliased: Set<string>,
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): AliasSuggestion[] {
+  const blocks = new Map<string, Cluster[]>();
+  const addCluster = (cluster: Cluster) => {
+    const key = blockKey(cluster.normalized);
+    const block = blocks.get(key);
+    if (block) {
+      block.push(cluster);
+    } else {
+      blocks.set(key, [cluster]);
+    }
+  };
+
+  for (const canonical of canonicals) {
+    addCluster({
+      normalized: normalizeManufacturerName(canonical),
+      canonical,
+      members: [],
+    });
+  }
+
+  const canonicalNames = new Set(canonicals);
+  const candidates = counts
+    .filter(({ name }) => !aliased.has(name) && !canonicalNames.has(name))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  for (const candidate of candidates) {
+    const normalized = normalizeManufacturerName(candidate.name);
+    let best: Cluster | null = null;
+    let bestScore = threshold;
+
+    for (const cluster of blocks.get(blockKey(normalized)) || []) {
+      const score = manufacturerSimilarity(normalized, cluster.normalized);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      best.members.push(candidate);
+    } else {
+      addCluster({ normalized, canonical: null, members: [candidate] });
+    }
+  }
+
+  const suggestions: AliasSuggestion[] = [];
+  blocks.forEach((clusters) => {
+    for (const cluster of clusters) {
+      if (!cluster.canonical && cluster.members.length < 2) continue;
+
+      // Prefer a spelling without noise words ("CESSNA" over
+      // "CESSNA AIRCRAFT CO"), else the most common one. Members come in
+      // order of their registry count.
+      const canonical =
+        cluster.canonical ??
+        cluster.members.find(
+          ({ name }) => name.trim().toUpperCase() === cluster.normalized
+        )?.name ??
+        cluster.members[0].name;
+      const canonicalNormalized = normalizeManufacturerName(canonical);
+
+      for (const member of cluster.members) {
+        if (member.name === canonical) continue;
+        suggestions.push({
+          alias: member.name,
+          canonical,
+          similarity:
+            Math.round(
+              manufacturerSimilarity(
+                normalizeManufacturerName(member.name),
+                canonicalNormalized
+              ) * 1000
+            ) / 1000,
+          aliasCount: member.count,
+        });
+      }
+    }
+  });
+
+  return suggestions.sort((a, b) => b.aliasCount - a.aliasCount);
+}
+
+/**
+ * Store alias suggestions for the registry's manufacturer spellings as
+ * 'pending', for review
+ */
+export async function runSuggestionPass(
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): Promise<SuggestionReport> {
+  const [counts, canonicals, aliases] = await Promise.all([
+    dbManager.getManufacturerSpellingCounts(),
+    dbManager.getCanonicalManufacturers(),
+    dbManager.getManufacturerAliases(),
+  ]);
+
+  const suggestions = suggestManufacturerAliases(
+    counts,
+    canonicals,
+    new Set(aliases.map((alias) => alias.alias)),
+    threshold
+  );
+
+  const now = Date.now();
+  await dbManager.saveManufacturerAliases(
+    suggestions.map((suggestion) => ({
+      alias: suggestion.alias,
+      canonical: suggestion.canonical,
+      status: 'pending',
+      similarity: suggestion.similarity,
+      updated_at: now,
+    }))
+  );
+
+  console.log(
+    `[Manufacturers] Suggested ${suggestions.length} aliases for ${counts.length} spellings`
+  );
+  return {
+    spellings: counts.length,
+    suggested: suggestions.length,
+    samples: suggestions.slice(0, 10),
+  };
+}
+
+async function findAlias(alias: string): Promise<ManufacturerAliasRow | null> {
+  const aliases = await dbManager.getManufacturerAliases();
+  return aliases.find((row) => row.alias === alias) || null;
+}
+
+/**
+ * Approve an alias: a pending suggestion as suggested, or any spelling
+ * under the given canonical name. A canonical name that is itself an
+ * approved alias is followed to its own canonical name.
+ */
+export async function approveAlias(
+  alias: string,
+  canonical?: string
+): Promise<ManufacturerAliasRow> {
+  const existing = await findAlias(alias);
+  const requested = canonical?.trim() || existing?.canonical;
+  if (!requested) {
+    throw new ManufacturerAliasError(
+      `No canonical name given for ${alias} and no suggestion to approve`
+    );
+  }
+
+  const target = await findAlias(requested);
+  const resolved = target?.status === 'approved' ? target.canonical : requested;
+  if (resolved === alias) {
+    throw new ManufacturerAliasError(`${alias} cannot be an alias of itself`);
+  }
+
+  const row: ManufacturerAliasRow = {
+    alias,
+    canonical: resolved,
+    status: 'approved',
+    similarity: resolved === existing?.canonical ? existing.similarity : null,
+    updated_at: Date.now(),
+  };
+  await dbManager.saveManufacturerAliases([row]);
+  return row;
+}
+
+/**
+ * Reject a suggestion; rejected spellings are not suggested again
+ */
+export async function rejectAlias(
+  alias: string
+): Promise<ManufacturerAliasRow> {
+  const existing = await findAlias(alias);
+  if (!existing) {
+    throw new ManufacturerAliasError(`No alias or suggestion for ${alias}`);
+  }
+
+  const row: ManufacturerAliasRow = {
+    ...existing,
+    status: 'rejected',
+    updated_at: Date.now(),
+  };
+  await dbManager.saveManufacturerAliases([row]);
+  return row;
+}
@@ -0,0 +1,210 @@
+// lib/services/modes/ModeSTracker.ts
+import type {
+  AircraftStateStore,
+  AircraftStateUpdate,
+} from '@/lib/services/providers/AircraftStateStore';
+import { CprFrame, CprPosition, decodeCprGlobal, decodeCprLocal } from './cpr';
+import { decodeModeS, ModeSMessage } from './decoder';
+import { emitterCategoryFromCode } from '@/utils/state-vector';
+
+// Unit conversions into the OpenSky state vector units
+const FEET_TO_METERS = 0.3048;
+const KNOTS_TO_MS = 0.514444;
+const FPM_TO_MS = 0.00508;
+
+const CPR_PAIR_MAX_AGE = 10000; // Even/odd frames must be within 10s
+const LOCAL_REFERENCE_MAX_AGE = 60000; // Own last position as CPR reference
+const ADDRESS_MAX_AGE = 60000; // Trust DF4/5/20/21 addresses seen this recently
+const PRUNE_INTERVAL = 10000;
+
+interface TimedCprFrame {
+  frame: CprFrame;
+  time: number;
+}
+
+/**
+ * Turns decoded Mode-S frames into per-aircraft state: pairs CPR frames
+ * into positions and only accepts address/parity replies from aircraft we
+ * have already heard with a verified address.
+ */
+export class ModeSTracker {
+  private cprFrames = new Map<
+    string,
+    { even?: TimedCprFrame; odd?: TimedCprFrame }
+  >();
+  private lastPositions = new Map<
+    string,
+    { position: CprPosition; time: number }
+  >();
+  private knownAddresses = new Map<string, number>();
+  private lastPrune = 0;
+
+  constructor(
+    private readonly store: AircraftStateStore,
+    private readonly receiverPosition: CprPosition | null = null
+  ) {}
+
+  /**
+   * Decode a raw frame and apply it. Returns the message when it was used.
+   */
+  public handleFrame(
+    frame: Uint8Array,
+    now: number = Date.now()
+  ): ModeSMessage | null {
+    if (now - this.lastPrune >= PRUNE_INTERVAL) {
+      this.prune(now);
+    }
+
+    const message = decodeModeS(frame);
+    if (!message) return null;
+
+    if (message.addressFromParity) {
+      const lastSeen = this.knownAddresses.get(message.icao24);
+      if (!lastSeen || now - lastSeen > ADDRESS_MAX_AGE) return null;
+    } else {
+      this.knownAddresses.set(message.icao24, now);
+    }
+
+    const update = this.toStateUpdate(message, now);
+    this.store.update(message.icao24, update, now);
+    return message;
+  }
+
+  public clear(): void {
+    this.cprFrames.clear();
+    this.lastPositions.clear();
+    this.knownAddresses.clear();
+  }
+
+  /**
+   * Forget addresses, CPR frames and positions too old to be used again
+   */
+  private prune(now: number): void {
+    this.lastPrune = now;
+
+    this.knownAddresses.forEach((lastSeen, icao24) => {
+      if (now - lastSeen > ADDRESS_MAX_AGE) {
+        this.knownAddresses.delete(icao24);
+      }
+    });
+    this.lastPositions.forEach((last, icao24) => {
+      if (now - last.time > LOCAL_REFERENCE_MAX_AGE) {
+        this.lastPositions.delete(icao24);
+      }
+    });
+    this.cprFrames.forEach((frames, icao24) => {
+      if (frames.even && now - frames.even.time > CPR_PAIR_MAX_AGE) {
+        delete frames.even;
+      }
+      if (frames.odd && now - frames.odd.time > CPR_PAIR_MAX_AGE) {
+        delete frames.odd;
+      }
+      if (!frames.even && !frames.odd) {
+        this.cprFrames.delete(icao24);
+      }
+    });
+  }
+
+  private toStateUpdate(
+    message: ModeSMessage,
+    now: number
+  ): AircraftStateUpdate {
+    const update: AircraftStateUpdate = { on_ground: message.onGround };
+
+    switch (message.type) {
+      case 'identification':
+        update.callsign = message.callsign || undefined;
+        update.category = emitterCategoryFromCode(message.category);
+        break;
+
+      case 'airborne_position': {
+        if (message.altitude !== undefined) {
+          update.altitude = message.altitude * FEET_TO_METERS;
+        }
+        const position = this.resolvePosition(message.icao24, message.cpr, now);
+        if (position) {
+          update.latitude = position.latitude;
+          update.longitude = position.longitude;
+          update.position_source = 0; // ADS-B
+        }
+        break;
+      }
+
+      case 'velocity':
+        if (message.speed !== undefined) {
+          update.velocity = message.speed * KNOTS_TO_MS;
+        }
+        update.heading = message.track;
+        if (message.verticalRate !== undefined) {
+          update.vertical_rate = message.verticalRate * FPM_TO_MS;
+        }
+        break;
+
+      case 'altitude':
+        if (message.altitude !== undefined) {
+          update.altitude = message.altitude * FEET_TO_METERS;
+        }
+        break;
+
+      case 'squawk':
+        update.squawk = message.squawk;
+        break;
+
+      case 'surface_position':
+        update.altitude = 0;
+        break;
+
+      case 'all_call':
+        break;
+    }
+
+    return update;
+  }
+
+  /**
+   * Global decode when we have a fresh even/odd pair, otherwise local
+   * decode against the aircraft's last position or the receiver location
+   */
+  private resolvePosition(
+    icao24: string,
+    frame: CprFrame,
+    now: number
+  ): CprPosition | null {
+    const frames = this.cprFrames.get(icao24) || {};
+    const timed = { frame, time: now };
+    if (frame.odd) {
+      frames.odd = timed;
+    } else {
+      frames.even = timed;
+    }
+    this.cprFrames.set(icao24, frames);
+
+    let position: CprPosition | null = null;
+
+    if (
+      frames.even &&
+      frames.odd &&
+      Math.abs(frames.even.time - frames.odd.time) <= CPR_PAIR_MAX_AGE
+    ) {
+      position = decodeCprGlobal(
+        frames.even.frame,
+        frames.odd.frame,
+        frame.odd
+      );
+    }
+
+    if (!position) {
+      const last = this.lastPositions.get(icao24);
+      if (last && now - last.time <= LOCAL_REFERENCE_MAX_AGE) {
+        position = decodeCprLocal(frame, last.position);
+      } else if (this.receiverPosition) {
+        position = decodeCprLocal(frame, this.receiverPosition);
+      }
+    }
+
+    if (position) {
+      this.lastPositions.set(icao24, { position, time: now });
+    }
+    return position;
+  }
+}
@@ -0,0 +1,105 @@
+// lib/services/modes/cpr.ts
+
+// Compact Position Reporting (airborne format, 17-bit encoding)
+const NZ = 15;
+const CPR_MAX = 131072; // 2^17
+
+export interface CprPosition {
+  latitude: number;
+  longitude: number;
+}
+
+export interface CprFrame {
+  latCpr: number; // raw 17-bit value
+  lonCpr: number;
+  odd: boolean;
+}
+
+function mod(a: number, b: number): number {
+  const result = a % b;
+  return result < 0 ? result + b : result;
+}
+
+/**
+ * Number of longitude zones at a latitude
+ */
+export function cprNL(latitude: number): number {
+  const lat = Math.abs(latitude);
+  if (lat === 0) return 59;
+  if (lat === 87) return 2;
+  if (lat > 87) return 1;
+
+  const a = 1 - Math.cos(Math.PI / (2 * NZ));
+  const b = Math.cos((Math.PI / 180) * lat) ** 2;
+  return Math.floor((2 * Math.PI) / Math.acos(1 - a / b));
+}
+
+/**
+ * Globally unambiguous decode from an even/odd frame pair. The position is
+ * computed for whichever frame is the most recent. Returns null when the
+ * two frames straddle a longitude zone boundary.
+ */
+export function decodeCprGlobal(
+  even: CprFrame,
+  odd: CprFrame,
+  oddIsNewest: boolean
+): CprPosition | null {
+  const latEven = even.latCpr / CPR_MAX;
+  const lonEven = even.lonCpr / CPR_MAX;
+  const latOdd = odd.latCpr / CPR_MAX;
+  const lonOdd = odd.lonCpr / CPR_MAX;
+
+  const j = Math.floor(59 * latEven - 60 * latOdd + 0.5);
+
+  let rlatEven = (360 / 60) * (mod(j, 60) + latEven);
+  let rlatOdd = (360 / 59) * (mod(j, 59) + latOdd);
+  if (rlatEven >= 270) rlatEven -= 360;
+  if (rlatOdd >= 270) rlatOdd -= 360;
+
+  if (cprNL(rlatEven) !== cprNL(rlatOdd)) {
+    return null;
+  }
+
+  const latitude = oddIsNewest ? rlatOdd : rlatEven;
+  const nl = cprNL(latitude);
+  const ni = Math.max(oddIsNewest ? nl - 1 : nl, 1);
+  const m = Math.floor(lonEven * (nl - 1) - lonOdd * nl + 0.5);
+
+  let longitude = (360 / ni) * (mod(m, ni) + (oddIsNewest ? lonOdd : lonEven));
+  if (longitude >= 180) longitude -= 360;
+
+  if (Math.abs(latitude) > 90) {
+    return null;
+  }
+
+  return { latitude, longitude };
+}
+
+/**
+ * Locally unambiguous decode of a single frame relative to a reference
+ * position, valid when the aircraft is within ~180 NM of the reference.
+ */
+export function decodeCprLocal(
+  frame: CprFrame,
+  reference: CprPosition
+): CprPosition {
+  const latCpr = frame.latCpr / CPR_MAX;
+  const lonCpr = frame.lonCpr / CPR_MAX;
+  const i = frame.odd ? 1 : 0;
+
+  const dLat = 360 / (60 - i);
+  const j =
+    Math.floor(reference.latitude / dLat) +
+    Math.floor(mod(reference.latitude, dLat) / dLat - latCpr + 0.5);
+  const latitude = dLat * (j + latCpr);
+
+  const ni = cprNL(latitude) - i;
+  const dLon = ni > 0 ? 360 / ni : 360;
+  const m =
+    Math.floor(reference.longitude / dLon) +
+    Math.floor(mod(reference.longitude, dLon) / dLon - lonCpr + 0.5);
+  let longitude = dLon * (m + lonCpr);
+  if (longitude >= 180) longitude -= 360;
+
+  return { latitude, longitude };
+}
@@ -0,0 +1,36 @@
+// lib/services/modes/crc.ts
+
+// Mode-S parity generator polynomial (24 bits)
+const GENERATOR = 0xfff409;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 16;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x800000 ? (crc << 1) ^ GENERATOR : crc << 1;
+    }
+    table[i] = crc & 0xffffff;
+  }
+  return table;
+})();
+
+/**
+ * Mode-S CRC syndrome: the CRC of the data bits XORed with the trailing
+ * 24-bit parity field. Zero for a valid DF11/17/18 frame; for address/parity
+ * frames (DF0/4/5/16/20/21) it is the transmitting aircraft's ICAO address.
+ */
+export function modesSyndrome(frame: Uint8Array): number {
+  const dataLength = frame.length - 3;
+
+  let crc = 0;
+  for (let i = 0; i < dataLength; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >> 16) ^ frame[i]) & 0xff]) & 0xffffff;
+  }
+
+  const parity =
+    (frame[dataLength] << 16) |
+    (frame[dataLength + 1] << 8) |
+    frame[dataLength + 2];
+  return crc ^ parity;
+}
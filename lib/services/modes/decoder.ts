@@ -0,0 +1,303 @@
+// lib/services/modes/decoder.ts
+import type { CprFrame } from './cpr';
+import { modesSyndrome } from './crc';
+
+const CALLSIGN_CHARSET =
+  '#ABCDEFGHIJKLMNOPQRSTUVWXYZ##### ###############0123456789######';
+
+interface ModeSMessageBase {
+  df: number;
+  icao24: string;
+  /**
+   * True when the address was recovered from the parity field (DF4/5/20/21)
+   * and so cannot be verified on its own: a corrupted frame produces a
+   * plausible but wrong address. Only trust it for aircraft already seen.
+   */
+  addressFromParity: boolean;
+  onGround?: boolean;
+}
+
+export interface IdentificationMessage extends ModeSMessageBase {
+  type: 'identification';
+  callsign: string;
+  category: string; // e.g. "A3"
+}
+
+export interface AirbornePositionMessage extends ModeSMessageBase {
+  type: 'airborne_position';
+  altitude?: number; // feet
+  geometricAltitude: boolean; // GNSS height rather than barometric
+  cpr: CprFrame;
+}
+
+export interface SurfacePositionMessage extends ModeSMessageBase {
+  type: 'surface_position';
+}
+
+export interface VelocityMessage extends ModeSMessageBase {
+  type: 'velocity';
+  speed?: number; // knots
+  speedType: 'ground' | 'airspeed';
+  track?: number; // degrees (heading for airspeed messages)
+  verticalRate?: number; // feet/minute
+}
+
+export interface AltitudeMessage extends ModeSMessageBase {
+  type: 'altitude';
+  altitude?: number; // feet
+}
+
+export interface SquawkMessage extends ModeSMessageBase {
+  type: 'squawk';
+  squawk: string;
+}
+
+export interface AllCallMessage extends ModeSMessageBase {
+  type: 'all_call';
+}
+
+export type ModeSMessage =
+  | IdentificationMessage
+  | AirbornePositionMessage
+  | SurfacePositionMessage
+  | VelocityMessage
+  | AltitudeMessage
+  | SquawkMessage
+  | AllCallMessage;
+
+/**
+ * Read bits `first`..`last` (1-indexed, inclusive, as numbered in the
+ * Mode-S specification) as an unsigned integer
+ */
+function bits(frame: Uint8Array, first: number, last: number): number {
+  let value = 0;
+  for (let i = first - 1; i < last; i++) {
+    value = value * 2 + ((frame[i >> 3] >> (7 - (i & 7))) & 1);
+  }
+  return value;
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(6, '0');
+}
+
+/**
+ * 13-bit altitude code of DF0/4/16/20 replies (feet). Only 25 ft
+ * increments are decoded; metric and Gillham-coded altitudes are skipped.
+ */
+export function decodeAltitudeCode(code: number): number | undefined {
+  if (code === 0) return undefined;
+
+  const mBit = code & 0x40;
+  const qBit = code & 0x10;
+  if (mBit || !qBit) return undefined;
+
+  const n = ((code & 0x1f80) >> 2) | ((code & 0x20) >> 1) | (code & 0x0f);
+  return n * 25 - 1000;
+}
+
+/**
+ * 12-bit altitude field of ADS-B airborne position messages (feet)
+ */
+function decodeAdsbAltitude(code: number): number | undefined {
+  if (code === 0) return undefined;
+  if (!(code & 0x10)) return undefined; // Gillham coded
+
+  const n = ((code & 0xfe0) >> 1) | (code & 0x0f);
+  return n * 25 - 1000;
+}
+
+/**
+ * 13-bit identity code of DF5/21 replies into a 4 digit octal squawk
+ */
+export function decodeSquawk(code: number): string {
+  const bit = (mask: number) => (code & mask ? 1 : 0);
+
+  // Bit order: C1 A1 C2 A2 C4 A4 X B1 D1 B2 D2 B4 D4
+  const a = bit(0x1000 >> 5) * 4 + bit(0x1000 >> 3) * 2 + bit(0x1000 >> 1);
+  const b = bit(0x1000 >> 11) * 4 + bit(0x1000 >> 9) * 2 + bit(0x1000 >> 7);
+  const c = bit(0x1000 >> 4) * 4 + bit(0x1000 >> 2) * 2 + bit(0x1000);
+  const d = bit(0x1000 >> 12) * 4 + bit(0x1000 >> 10) * 2 + bit(0x1000 >> 8);
+
+  return `${a}${b}${c}${d}`;
+}
+
+// Flight status values 1 and 3 mean on the ground
+function onGroundFromFlightStatus(fs: number): boolean | undefined {
+  if (fs === 0 || fs === 2) return false;
+  if (fs === 1 || fs === 3) return true;
+  return undefined;
+}
+
+function decodeExtendedSquitter(
+  frame: Uint8Array,
+  df: number,
+  icao24: string
+): ModeSMessage | null {
+  const tc = bits(frame, 33, 37);
+  const base = { df, icao24, addressFromParity: false };
+
+  // Capability 4/5 tells us ground/airborne for DF17
+  const ca = bits(frame, 6, 8);
+  const onGround =
+    df === 17 ? (ca === 4 ? true : ca === 5 ? false : undefined) : undefined;
+
+  if (tc >= 1 && tc <= 4) {
+    let callsign = '';
+    for (let i = 0; i < 8; i++) {
+      callsign += CALLSIGN_CHARSET[bits(frame, 41 + i * 6, 46 + i * 6)];
+    }
+    return {
+      ...base,
+      type: 'identification',
+      callsign: callsign.replace(/#/g, '').trim(),
+      category: `${'DCBA'[tc - 1]}${bits(frame, 38, 40)}`,
+      onGround,
+    };
+  }
+
+  if (tc >= 5 && tc <= 8) {
+    return { ...base, type: 'surface_position', onGround: true };
+  }
+
+  if ((tc >= 9 && tc <= 18) || (tc >= 20 && tc <= 22)) {
+    const geometricAltitude = tc >= 20;
+    const rawAltitude = bits(frame, 41, 52);
+    const altitude = geometricAltitude
+      ? rawAltitude * 3.28084 // GNSS height is in meters
+      : decodeAdsbAltitude(rawAltitude);
+
+    return {
+      ...base,
+      type: 'airborne_position',
+      altitude,
+      geometricAltitude,
+      cpr: {
+        odd: bits(frame, 54, 54) === 1,
+        latCpr: bits(frame, 55, 71),
+        lonCpr: bits(frame, 72, 88),
+      },
+      onGround: false,
+    };
+  }
+
+  if (tc === 19) {
+    return decodeVelocity(frame, df, icao24);
+  }
+
+  return null;
+}
+
+function decodeVelocity(
+  frame: Uint8Array,
+  df: number,
+  icao24: string
+): VelocityMessage | null {
+  const subtype = bits(frame, 38, 40);
+  const message: VelocityMessage = {
+    df,
+    icao24,
+    addressFromParity: false,
+    type: 'velocity',
+    speedType: 'ground',
+    onGround: false,
+  };
+
+  const rawVerticalRate = bits(frame, 70, 78);
+  if (rawVerticalRate !== 0) {
+    const sign = bits(frame, 69, 69) ? -1 : 1;
+    message.verticalRate = sign * (rawVerticalRate - 1) * 64;
+  }
+
+  if (subtype === 1 || subtype === 2) {
+    const factor = subtype === 2 ? 4 : 1; // Supersonic
+    const rawEw = bits(frame, 47, 56);
+    const rawNs = bits(frame, 58, 67);
+    if (rawEw === 0 || rawNs === 0) return message;
+
+    const vEw = (bits(frame, 46, 46) ? -1 : 1) * (rawEw - 1) * factor;
+    const vNs = (bits(frame, 57, 57) ? -1 : 1) * (rawNs - 1) * factor;
+
+    message.speed = Math.sqrt(vEw * vEw + vNs * vNs);
+    message.track = ((Math.atan2(vEw, vNs) * 180) / Math.PI + 360) % 360;
+    return message;
+  }
+
+  if (subtype === 3 || subtype === 4) {
+    const factor = subtype === 4 ? 4 : 1;
+    message.speedType = 'airspeed';
+
+    if (bits(frame, 46, 46)) {
+      message.track = (bits(frame, 47, 56) * 360) / 1024;
+    }
+    const rawAirspeed = bits(frame, 58, 67);
+    if (rawAirspeed !== 0) {
+      message.speed = (rawAirspeed - 1) * factor;
+    }
+    return message;
+  }
+
+  return null;
+}
+
+/**
+ * Decode a raw 56 or 112 bit Mode-S frame. Returns null for frames that
+ * fail the parity check or carry nothing we track.
+ */
+export function decodeModeS(frame: Uint8Array): ModeSMessage | null {
+  if (frame.length !== 7 && frame.length !== 14) return null;
+
+  const df = bits(frame, 1, 5);
+  const expectedLength = df >= 16 ? 14 : 7;
+  if (frame.length !== expectedLength) return null;
+
+  const syndrome = modesSyndrome(frame);
+
+  switch (df) {
+    case 11: {
+      // Parity is overlaid with the interrogator code (low 7 bits)
+      if ((syndrome & ~0x7f) !== 0) return null;
+      const ca = bits(frame, 6, 8);
+      return {
+        df,
+        type: 'all_call',
+        icao24: toHex(bits(frame, 9, 32)),
+        addressFromParity: false,
+        onGround: ca === 4 ? true : ca === 5 ? false : undefined,
+      };
+    }
+
+    case 17:
+    case 18: {
+      if (syndrome !== 0) return null;
+      // DF18 with CF != 0 carries non-ICAO (TIS-B/anonymous) addresses
+      if (df === 18 && bits(frame, 6, 8) !== 0) return null;
+      return decodeExtendedSquitter(frame, df, toHex(bits(frame, 9, 32)));
+    }
+
+    case 4:
+    case 20:
+      return {
+        df,
+        type: 'altitude',
+        icao24: toHex(syndrome),
+        addressFromParity: true,
+        altitude: decodeAltitudeCode(bits(frame, 20, 32)),
+        onGround: onGroundFromFlightStatus(bits(frame, 6, 8)),
+      };
+
+    case 5:
+    case 21:
+      return {
+        df,
+        type: 'squawk',
+        icao24: toHex(syndrome),
+        addressFromParity: true,
+        squawk: decodeSquawk(bits(frame, 20, 32)),
+        onGround: onGroundFromFlightStatus(bits(frame, 6, 8)),
+      };
+
+    default:
+      return null;
+  }
+}
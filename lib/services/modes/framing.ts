@@ -0,0 +1,140 @@
+// lib/services/modes/framing.ts
+
+const BEAST_ESCAPE = 0x1a;
+
+// Beast frame type -> payload length in bytes
+const BEAST_PAYLOAD_LENGTH: Record<number, number> = {
+  0x31: 2, // '1' Mode A/C
+  0x32: 7, // '2' Mode-S short
+  0x33: 14, // '3' Mode-S long
+  0x34: 14, // '4' receiver status
+};
+
+const BEAST_HEADER_LENGTH = 7; // 6 byte MLAT timestamp + 1 byte signal level
+
+/**
+ * Incremental reader for the Beast binary format (e.g. port 30005).
+ * Returns only the Mode-S frames; Mode A/C and status frames are skipped.
+ */
+export class BeastFrameReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  public push(chunk: Buffer): Uint8Array[] {
+    this.buffer =
+      this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    const frames: Uint8Array[] = [];
+    let position = 0;
+
+    while (position < this.buffer.length) {
+      // Resync on the next frame start
+      if (this.buffer[position] !== BEAST_ESCAPE) {
+        position++;
+        continue;
+      }
+      if (position + 1 >= this.buffer.length) break;
+
+      const type = this.buffer[position + 1];
+      const payloadLength = BEAST_PAYLOAD_LENGTH[type];
+      if (payloadLength === undefined) {
+        // Not a frame start (e.g. an escaped 0x1a 0x1a pair)
+        position++;
+        continue;
+      }
+
+      const unescaped = this.readEscaped(
+        position + 2,
+        BEAST_HEADER_LENGTH + payloadLength
+      );
+      if (unescaped === null) break; // Wait for the rest of the frame
+      if (unescaped === 'invalid') {
+        position++;
+        continue;
+      }
+
+      if (type === 0x32 || type === 0x33) {
+        frames.push(unescaped.bytes.subarray(BEAST_HEADER_LENGTH));
+      }
+      position = unescaped.end;
+    }
+
+    this.buffer = this.buffer.subarray(position);
+    return frames;
+  }
+
+  public reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  /**
+   * Read `length` bytes with 0x1a 0x1a unescaped to 0x1a. Returns null if
+   * the buffer ends first, 'invalid' on a lone escape byte.
+   */
+  private readEscaped(
+    start: number,
+    length: number
+  ): { bytes: Uint8Array; end: number } | 'invalid' | null {
+    const bytes = new Uint8Array(length);
+    let position = start;
+
+    for (let i = 0; i < length; i++) {
+      if (position >= this.buffer.length) return null;
+
+      if (this.buffer[position] === BEAST_ESCAPE) {
+        if (position + 1 >= this.buffer.length) return null;
+        if (this.buffer[position + 1] !== BEAST_ESCAPE) return 'invalid';
+        position++;
+      }
+      bytes[i] = this.buffer[position++];
+    }
+
+    return { bytes, end: position };
+  }
+}
+
+/**
+ * Incremental reader for AVR text framing (e.g. port 30002):
+ * `*8D4840D6202CC371C32CE0576098;`, optionally `@` with a 12 digit
+ * MLAT timestamp before the frame.
+ */
+export class AvrFrameReader {
+  private buffer = '';
+
+  public push(chunk: Buffer | string): Uint8Array[] {
+    this.buffer += typeof chunk === 'string' ? chunk : chunk.toString('ascii');
+
+    const parts = this.buffer.split(/[;\r\n]+/);
+    this.buffer = parts.pop() || '';
+
+    const frames: Uint8Array[] = [];
+    for (const part of parts) {
+      const frame = parseAvrFrame(part);
+      if (frame) frames.push(frame);
+    }
+    return frames;
+  }
+
+  public reset(): void {
+    this.buffer = '';
+  }
+}
+
+/**
+ * Parse a single AVR frame into bytes. Accepts the frame with or without
+ * the trailing `;`. Returns null for Mode A/C or malformed frames.
+ */
+export function parseAvrFrame(text: string): Uint8Array | null {
+  let hex = text.trim().replace(/;$/, '');
+
+  if (hex.startsWith('@')) {
+    hex = hex.slice(13);
+  } else if (hex.startsWith('*')) {
+    hex = hex.slice(1);
+  }
+
+  if (!/^[0-9a-fA-F]+$/.test(hex) || (hex.length !== 14 && hex.length !== 28)) {
+    return null;
+  }
+
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
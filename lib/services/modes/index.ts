@@ -0,0 +1,8 @@
+// lib/services/modes/index.ts
+export { modesSyndrome } from './crc';
+export { cprNL, decodeCprGlobal, decodeCprLocal } from './cpr';
+export type { CprFrame, CprPosition } from './cpr';
+export { decodeModeS, decodeAltitudeCode, decodeSquawk } from './decoder';
+export type { ModeSMessage } from './decoder';
+export { AvrFrameReader, BeastFrameReader, parseAvrFrame } from './framing';
+export { ModeSTracker } from './ModeSTracker';
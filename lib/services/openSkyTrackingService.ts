@@ -2,6 +2,19 @@
 
 import { Aircraft, SelectOption } from '@/types/base';
 import { AircraftModel } from '@/types/aircraft-models';
+import type { BoundingBox } from '@/types/regions';
+import type { ProviderRateLimitStatus } from '@/lib/services/providers/types';
+import type { AircraftDetail } from '@/lib/services/aircraft-detail';
+import type { AirportRow } from '@/types/database';
+import type {
+  AircraftDelta,
+  TrackingSubscription,
+} from '@/lib/services/tracking-stream';
+import {
+  getTrackingSocket,
+  UpdateHandlers,
+} from '@/lib/services/tracking-socket/client';
+import { getIcaoAllocation } from '@/utils/icao-allocations';
 
 // Track active requests to prevent duplicate calls
 const activeRequests: Map<string, Promise<any>> = new Map();
@@ -14,6 +27,23 @@ interface TrackingCache {
 }
 const trackingCache: Map<string, TrackingCache> = new Map();
 
+// Streaming mode waits this long for the stream to open, then this long
+// for the first snapshot, before polling instead
+const STREAM_CONNECT_TIMEOUT = 5000;
+const STREAM_SNAPSHOT_TIMEOUT = 15000; // renewed by each pending message
+// Poll for positions this often when the stream is unavailable
+const FALLBACK_POLL_INTERVAL = 60000;
+
+// Registration country, falling back to the address block for aircraft
+// cached before the server added it
+function getAircraftCountry(aircraft: Aircraft): string {
+  return (
+    aircraft.registrationCountry ||
+    getIcaoAllocation(aircraft.icao24)?.country ||
+    'Unknown'
+  );
+}
+
 // Define a trail interface to store position history
 interface AircraftPosition {
   latitude: number;
@@ -108,6 +138,8 @@ class OpenSkyTrackingService {
   private pendingRefresh: boolean = false;
   private refreshInterval: NodeJS.Timeout | null = null;
   private currentManufacturer: string | null = null;
+  private currentRegion: BoundingBox | null = null; // Set in region mode
+  private currentIcao24s: string[] | null = null; // Set when tracking specific aircraft
   private subscribers = new Set<(data: any) => void>();
   private loading: boolean = false; // Add this property
 
@@ -127,6 +159,18 @@ class OpenSkyTrackingService {
   private activeAircraftIds: Set<string> = new Set();
   private lastActiveRefreshTime: number = 0;
   private persistentAircraftCache: Map<string, ExtendedAircraft> = new Map();
+  private flightTracks: Map<
+    string,
+    { positions: AircraftPosition[]; timestamp: number }
+  > = new Map();
+  private flightTrackTtl: number = 120000; // 2 minutes
+  private liveDataSource: string | null = null; // null = server default
+  private streamingEnabled: boolean = true; // Updates pushed over SSE
+  private updateStream: { close(): void } | null = null;
+  private streamToken: object | null = null; // Identifies the open stream
+  private settleStream: ((connected: boolean) => void) | null = null;
+  private streamAircraft: Map<string, Aircraft> = new Map();
+  private trackingSession: number = 0; // Bumped whenever tracking stops
 
   private updateTrackedIcao24sSet(): void {
     // Clear the current set
@@ -215,7 +259,10 @@ class OpenSkyTrackingService {
    * Manually refresh tracking data
    */
   public async refreshNow(): Promise<void> {
-    if (!this.trackingActive || !this.currentManufacturer) {
+    if (
+      !this.trackingActive ||
+      (!this.currentManufacturer && !this.currentRegion)
+    ) {
       console.warn(
         '[OpenSky] No active tracking session. Start tracking first.'
       );
@@ -226,7 +273,11 @@ class OpenSkyTrackingService {
     this.pendingRefresh = true;
 
     try {
-      await this.fetchAndUpdateAircraft(this.currentManufacturer);
+      if (this.currentRegion) {
+        await this.fetchAndUpdateRegion(this.currentRegion);
+      } else {
+        await this.fetchAndUpdateAircraft(this.currentManufacturer!);
+      }
     } catch (error) {
       console.error('[OpenSky] Error refreshing aircraft data:', error);
     } finally {
@@ -234,6 +285,40 @@ class OpenSkyTrackingService {
     }
   }
 
+  /**
+   * Select the live data provider used by /api/tracking/live
+   * (null uses the server's configured default)
+   */
+  public setLiveDataSource(source: string | null): void {
+    this.liveDataSource = source;
+    trackingCache.clear();
+    console.log(
+      `[OpenSky] Live data source set to ${source || 'server default'}`
+    );
+  }
+
+  public getLiveDataSource(): string | null {
+    return this.liveDataSource;
+  }
+
+  /**
+   * Rate-limit standing and API credits of the current live data source
+   */
+  public async getApiBudget(): Promise<
+    ProviderRateLimitStatus & { provider: string }
+  > {
+    const params = new URLSearchParams();
+    if (this.liveDataSource) params.set('provider', this.liveDataSource);
+
+    const response = await fetch(`/api/tracking/budget?${params}`);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch API budget: ${response.status} ${response.statusText}`
+      );
+    }
+    return response.json();
+  }
+
   public getTrackedIcao24s(): string[] {
     return Array.from(this.trackedIcao24s);
   }
@@ -386,6 +471,168 @@ class OpenSkyTrackingService {
     return this.trails.get(icao24)?.positions || [];
   }
 
+  /**
+   * Full track of the aircraft's current or last flight from the provider.
+   * Cached per icao24; resolves to an empty array when no track exists.
+   */
+  public async getAircraftTrack(icao24: string): Promise<AircraftPosition[]> {
+    const key = icao24.toLowerCase();
+    const cached = this.flightTracks.get(key);
+    if (cached && Date.now() - cached.timestamp < this.flightTrackTtl) {
+      return cached.positions;
+    }
+
+    const requestKey = `track:${key}`;
+    if (activeRequests.has(requestKey)) {
+      return activeRequests.get(requestKey)!;
+    }
+
+    const request = (async (): Promise<AircraftPosition[]> => {
+      const params = new URLSearchParams({ icao24: key });
+      if (this.liveDataSource) params.set('provider', this.liveDataSource);
+
+      const response = await fetch(`/api/tracking/track?${params}`);
+
+      // 404: no known flight, 501: provider has no track history
+      if (response.status === 404 || response.status === 501) {
+        this.flightTracks.set(key, { positions: [], timestamp: Date.now() });
+        return [];
+      }
+
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch track: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const positions: AircraftPosition[] = (data?.track?.path || []).map(
+        (point: any) => ({
+          latitude: point.latitude,
+          longitude: point.longitude,
+          altitude: point.altitude,
+          timestamp: point.time * 1000,
+        })
+      );
+
+      this.flightTracks.set(key, { positions, timestamp: Date.now() });
+      console.log(
+        `[OpenSky] Loaded flight track for ${key}: ${positions.length} points`
+      );
+      return positions;
+    })();
+
+    activeRequests.set(requestKey, request);
+    try {
+      return await request;
+    } finally {
+      activeRequests.delete(requestKey);
+    }
+  }
+
+  /**
+   * Registry, reference and live data of one aircraft from
+   * /api/aircraft/[icao24]. Resolves to null for unknown aircraft.
+   */
+  public async getAircraftDetail(
+    icao24: string
+  ): Promise<AircraftDetail | null> {
+    const key = icao24.toLowerCase();
+    const cacheKey = `detail:${this.liveDataSource || ''}:${key}`;
+    const cached = trackingCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < cached.ttl) {
+      return cached.data;
+    }
+
+    if (activeRequests.has(cacheKey)) {
+      return activeRequests.get(cacheKey)!;
+    }
+
+    const request = (async (): Promise<AircraftDetail | null> => {
+      const params = new URLSearchParams();
+      if (this.liveDataSource) params.set('provider', this.liveDataSource);
+
+      const response = await fetch(
+        `/api/aircraft/${encodeURIComponent(key)}?${params}`
+      );
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch aircraft detail: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const detail: AircraftDetail = await response.json();
+      trackingCache.set(cacheKey, {
+        data: detail,
+        timestamp: Date.now(),
+        ttl: 15000, // live state goes stale quickly
+      });
+      return detail;
+    })();
+
+    activeRequests.set(cacheKey, request);
+    try {
+      return await request;
+    } finally {
+      activeRequests.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Airports inside a bounding box from /api/airports. Bounds are widened
+   * to a tenth of a degree so small pans reuse the cached result.
+   */
+  public async getAirports(bounds: BoundingBox): Promise<AirportRow[]> {
+    const widened: BoundingBox = {
+      minLat: Math.floor(bounds.minLat * 10) / 10,
+      maxLat: Math.ceil(bounds.maxLat * 10) / 10,
+      minLon: Math.floor(bounds.minLon * 10) / 10,
+      maxLon: Math.ceil(bounds.maxLon * 10) / 10,
+    };
+    const cacheKey = `airports:${widened.minLat}:${widened.maxLat}:${widened.minLon}:${widened.maxLon}`;
+    const cached = trackingCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < cached.ttl) {
+      return cached.data;
+    }
+
+    if (activeRequests.has(cacheKey)) {
+      return activeRequests.get(cacheKey)!;
+    }
+
+    const request = (async (): Promise<AirportRow[]> => {
+      const params = new URLSearchParams({
+        minLat: String(widened.minLat),
+        maxLat: String(widened.maxLat),
+        minLon: String(widened.minLon),
+        maxLon: String(widened.maxLon),
+      });
+      const response = await fetch(`/api/airports?${params}`);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch airports: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const { airports } = await response.json();
+      trackingCache.set(cacheKey, {
+        data: airports,
+        timestamp: Date.now(),
+        ttl: 10 * 60 * 1000, // reference data
+      });
+      return airports;
+    })();
+
+    activeRequests.set(cacheKey, request);
+    try {
+      return await request;
+    } finally {
+      activeRequests.delete(cacheKey);
+    }
+  }
+
   /**
    * Get all aircraft trails
    */
@@ -539,6 +786,12 @@ class OpenSkyTrackingService {
     this.isRefreshingPositions = true;
 
     try {
+      // Region queries are a single request, so just repeat it
+      if (this.currentRegion) {
+        await this.fetchAndUpdateRegion(this.currentRegion);
+        return this.trackedAircraft;
+      }
+
       if (!this.currentManufacturer || icao24s.length === 0) {
         return this.trackedAircraft;
       }
@@ -568,7 +821,11 @@ class OpenSkyTrackingService {
    * Start tracking a manufacturer's aircraft
    */
   public async trackManufacturer(manufacturer: string): Promise<Aircraft[]> {
-    if (this.trackingActive && this.currentManufacturer === manufacturer) {
+    if (
+      this.trackingActive &&
+      this.currentManufacturer === manufacturer &&
+      !this.currentIcao24s
+    ) {
       console.log(`[OpenSky] Already tracking ${manufacturer}`);
       return this.trackedAircraft;
     }
@@ -587,11 +844,13 @@ class OpenSkyTrackingService {
     // Clear active set
     this.activeIcao24s.clear();
 
-    // Initial fetch
-    await this.fetchAndUpdateAircraft(manufacturer);
+    // Initial data from the stream, or a fetch when it is unavailable
+    await this.startUpdates({ manufacturer }, async () => {
+      await this.fetchAndUpdateAircraft(manufacturer);
 
-    // Initialize our active aircraft set
-    this.updateActiveAircraftSet(this.trackedAircraft);
+      // Initialize our active aircraft set
+      this.updateActiveAircraftSet(this.trackedAircraft);
+    });
 
     // Set the initial full refresh time
     this.lastFullRefreshTime = Date.now();
@@ -603,6 +862,73 @@ class OpenSkyTrackingService {
     return this.trackedAircraft;
   }
 
+  /**
+   * Start tracking specific aircraft (e.g. a search result). The
+   * manufacturer labels them like manufacturer tracking does.
+   */
+  public async trackAircraft(
+    icao24s: string[],
+    manufacturer: string
+  ): Promise<Aircraft[]> {
+    this.stopTracking();
+
+    const normalized = Array.from(
+      new Set(icao24s.map((icao) => icao.trim().toLowerCase()).filter(Boolean))
+    );
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    console.log(
+      `[OpenSky] Starting tracking for ${normalized.length} aircraft (${manufacturer})`
+    );
+    this.currentManufacturer = manufacturer;
+    this.currentIcao24s = normalized;
+    this.trackingActive = true;
+    this.activeIcao24s.clear();
+
+    await this.startUpdates({ icao24s: normalized, manufacturer }, async () => {
+      await this.fetchAndUpdateAircraft(manufacturer);
+      this.updateActiveAircraftSet(this.trackedAircraft);
+    });
+    this.lastFullRefreshTime = Date.now();
+
+    return this.trackedAircraft;
+  }
+
+  /**
+   * Start tracking everything inside a bounding box (a predefined region
+   * or the map viewport), regardless of manufacturer
+   */
+  public async trackRegion(bounds: BoundingBox): Promise<Aircraft[]> {
+    this.stopTracking();
+
+    console.log(
+      `[OpenSky] Starting region tracking for ${bounds.minLat},${bounds.minLon} - ${bounds.maxLat},${bounds.maxLon}`
+    );
+    this.currentRegion = bounds;
+    this.trackingActive = true;
+
+    await this.startUpdates({ bounds }, async () => {
+      await this.fetchAndUpdateRegion(bounds);
+      this.updateActiveAircraftSet(this.trackedAircraft);
+    });
+    this.lastFullRefreshTime = Date.now();
+
+    console.log(
+      `[OpenSky] Region tracking started, ${this.trackedAircraft.length} aircraft`
+    );
+
+    return this.trackedAircraft;
+  }
+
+  /**
+   * Get the bounding box being tracked in region mode
+   */
+  public getCurrentRegion(): BoundingBox | null {
+    return this.currentRegion;
+  }
+
   public getRefreshStats(): {
     lastRefreshTime: number;
     lastFullRefreshTime: number;
@@ -651,40 +977,134 @@ class OpenSkyTrackingService {
   /**
    * Get active model counts for currently tracked aircraft
    */
-  public getActiveModelCounts(): AircraftModel[] {
+  public getActiveModelCounts(
+    manufacturerFilter?: string,
+    countryFilter?: string
+  ): AircraftModel[] {
     // Count active aircraft by model
-    const modelCounts = new Map<string, number>();
-
-    this.trackedAircraft.forEach((aircraft) => {
+    const modelCounts = new Map<
+      string,
+      { count: number; manufacturer: string }
+    >();
+
+    this.filterByCountry(
+      this.filterByManufacturer(this.trackedAircraft, manufacturerFilter),
+      countryFilter
+    ).forEach((aircraft) => {
       const model = aircraft.model || aircraft.TYPE_AIRCRAFT || 'Unknown';
-      const currentCount = modelCounts.get(model) || 0;
-      modelCounts.set(model, currentCount + 1);
+      const current = modelCounts.get(model);
+      modelCounts.set(model, {
+        count: (current?.count || 0) + 1,
+        manufacturer:
+          current?.manufacturer ||
+          aircraft.manufacturer ||
+          this.currentManufacturer ||
+          'Unknown',
+      });
     });
 
     // Convert to array of AircraftModel objects
-    return Array.from(modelCounts.entries()).map(([model, count]) => ({
-      model,
-      label: model, // Required by AircraftModel
-      count: count,
-      activeCount: count,
-      totalCount: count,
-      // Ensure manufacturer is always a string
-      manufacturer: this.currentManufacturer || 'Unknown',
-    }));
+    return Array.from(modelCounts.entries()).map(
+      ([model, { count, manufacturer }]) => ({
+        model,
+        label: model, // Required by AircraftModel
+        count: count,
+        activeCount: count,
+        totalCount: count,
+        // Ensure manufacturer is always a string
+        manufacturer,
+      })
+    );
   }
 
   /**
    * Get model statistics
    */
-  public getModelStats(): {
+  public getModelStats(
+    manufacturerFilter?: string,
+    countryFilter?: string
+  ): {
     models: AircraftModel[];
     totalActive: number;
   } {
-    const models = this.getActiveModelCounts();
-    const totalActive = this.trackedAircraft.length;
+    const models = this.getActiveModelCounts(manufacturerFilter, countryFilter);
+    const totalActive = this.filterByCountry(
+      this.filterByManufacturer(this.trackedAircraft, manufacturerFilter),
+      countryFilter
+    ).length;
 
     return { models, totalActive };
   }
+
+  /**
+   * Active aircraft per manufacturer, used to filter region results
+   */
+  public getActiveManufacturerCounts(): {
+    manufacturer: string;
+    count: number;
+  }[] {
+    const counts = new Map<string, number>();
+
+    this.trackedAircraft.forEach((aircraft) => {
+      const manufacturer = aircraft.manufacturer || 'Unknown';
+      counts.set(manufacturer, (counts.get(manufacturer) || 0) + 1);
+    });
+
+    return Array.from(counts.entries())
+      .map(([manufacturer, count]) => ({ manufacturer, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Active aircraft per registration country, from the ICAO24 address block
+   */
+  public getActiveCountryCounts(): {
+    country: string;
+    flag: string;
+    count: number;
+  }[] {
+    const counts = new Map<string, { flag: string; count: number }>();
+
+    this.trackedAircraft.forEach((aircraft) => {
+      const country = getAircraftCountry(aircraft);
+      const entry = counts.get(country);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(country, {
+          flag:
+            aircraft.countryFlag ||
+            getIcaoAllocation(aircraft.icao24)?.flag ||
+            '',
+          count: 1,
+        });
+      }
+    });
+
+    return Array.from(counts.entries())
+      .map(([country, { flag, count }]) => ({ country, flag, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  private filterByCountry(
+    aircraft: Aircraft[],
+    countryFilter?: string
+  ): Aircraft[] {
+    if (!countryFilter) return aircraft;
+    return aircraft.filter(
+      (plane) => getAircraftCountry(plane) === countryFilter
+    );
+  }
+
+  private filterByManufacturer(
+    aircraft: Aircraft[],
+    manufacturerFilter?: string
+  ): Aircraft[] {
+    if (!manufacturerFilter) return aircraft;
+    return aircraft.filter(
+      (plane) => (plane.manufacturer || 'Unknown') === manufacturerFilter
+    );
+  }
   /**
    * Stop tracking aircraft
    */
@@ -693,6 +1113,10 @@ class OpenSkyTrackingService {
     console.log('[OpenSky] Stopping tracking');
     this.trackingActive = false;
     this.currentManufacturer = null;
+    this.currentRegion = null;
+    this.currentIcao24s = null;
+    this.trackingSession++;
+    this.closeStream();
 
     if (this.refreshInterval) {
       clearInterval(this.refreshInterval);
@@ -713,7 +1137,7 @@ class OpenSkyTrackingService {
       console.log(`[OpenSky] Fetching aircraft for ${manufacturer}`);
 
       // First get ICAO codes for this manufacturer
-      const icao24s = await this.getIcao24sForManufacturer(manufacturer);
+      const icao24s = await this.resolveTrackedIcao24s(manufacturer);
 
       if (icao24s.length === 0) {
         console.log(`[OpenSky] No ICAO codes found for ${manufacturer}`);
@@ -748,23 +1172,75 @@ class OpenSkyTrackingService {
     }
   }
 
+  /**
+   * Fetch everything inside the tracked region
+   */
+  private async fetchAndUpdateRegion(bounds: BoundingBox): Promise<void> {
+    try {
+      const response = await fetch('/api/tracking/live', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bounds,
+          provider: this.liveDataSource || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch region data: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const aircraft: Aircraft[] = Array.isArray(data?.aircraft)
+        ? data.aircraft
+        : [];
+
+      // Region was changed or tracking stopped while we were waiting
+      if (this.currentRegion !== bounds) return;
+
+      this.trackedAircraft = aircraft;
+      this.updateTrackedIcao24sSet();
+      this.updateTrails();
+      this.lastRefreshTime = Date.now();
+      this.notifySubscribers();
+
+      console.log(
+        `[OpenSky] Updated region tracking data: ${aircraft.length} aircraft`
+      );
+    } catch (error) {
+      console.error('[OpenSky] Error fetching region aircraft:', error);
+    }
+  }
+
   /**
    * Helper method to get current state of tracking
    */
   public getTrackingStatus(): {
     active: boolean;
     manufacturer: string | null;
+    region: BoundingBox | null;
     count: number;
     lastRefresh: number;
   } {
     return {
       active: this.trackingActive,
       manufacturer: this.currentManufacturer,
+      region: this.currentRegion,
       count: this.trackedAircraft.length,
       lastRefresh: this.lastRefreshTime,
     };
   }
 
+  /**
+   * ICAO24 codes to query: the explicit list when tracking specific
+   * aircraft, otherwise the manufacturer's fleet
+   */
+  private async resolveTrackedIcao24s(manufacturer: string): Promise<string[]> {
+    return this.currentIcao24s || this.getIcao24sForManufacturer(manufacturer);
+  }
+
   /**
    * Get ICAO24 codes for a manufacturer
    */
@@ -808,8 +1284,15 @@ class OpenSkyTrackingService {
     return request;
   }
 
-  public getExtendedAircraft(modelFilter?: string): ExtendedAircraft[] {
-    let filtered = this.trackedAircraft;
+  public getExtendedAircraft(
+    modelFilter?: string,
+    manufacturerFilter?: string,
+    countryFilter?: string
+  ): ExtendedAircraft[] {
+    let filtered = this.filterByCountry(
+      this.filterByManufacturer(this.trackedAircraft, manufacturerFilter),
+      countryFilter
+    );
 
     // Apply model filter if provided
     if (modelFilter) {
@@ -859,6 +1342,7 @@ class OpenSkyTrackingService {
                   icao24s: batch,
                   includeStatic,
                   activeOnly,
+                  provider: this.liveDataSource || undefined,
                 }),
               });
 
@@ -978,6 +1462,7 @@ class OpenSkyTrackingService {
     const data = {
       aircraft: this.trackedAircraft,
       manufacturer: this.currentManufacturer,
+      region: this.currentRegion,
       count: this.trackedAircraft.length,
       timestamp: this.lastRefreshTime,
       trails: trailData, // This is now properly formatted for components
@@ -1010,6 +1495,11 @@ class OpenSkyTrackingService {
    * Force a refresh of tracking data
    */
   public async refreshTracking(): Promise<void> {
+    if (this.trackingActive && this.currentRegion) {
+      await this.fetchAndUpdateRegion(this.currentRegion);
+      return;
+    }
+
     if (!this.trackingActive || !this.currentManufacturer) {
       return;
     }
@@ -1068,6 +1558,12 @@ class OpenSkyTrackingService {
       return this.trackedAircraft;
     }
 
+    // Region mode re-runs the bounding box query
+    if (this.trackingActive && this.currentRegion) {
+      await this.fetchAndUpdateRegion(this.currentRegion);
+      return this.trackedAircraft;
+    }
+
     // If we're not tracking anything, there's nothing to refresh
     if (!this.trackingActive || !this.currentManufacturer) {
       console.log('[OpenSky] No active tracking or manufacturer to refresh');
@@ -1094,7 +1590,7 @@ class OpenSkyTrackingService {
         );
 
         // First, get all ICAO24 codes for the manufacturer
-        const allIcao24s = await this.getIcao24sForManufacturer(manufacturer);
+        const allIcao24s = await this.resolveTrackedIcao24s(manufacturer);
 
         // Then get live data, but only for aircraft with position data
         const updatedAircraft = await this.getLiveAircraftData(
@@ -1364,6 +1860,12 @@ class OpenSkyTrackingService {
           velocity: positionUpdate.velocity,
           heading: positionUpdate.heading,
           on_ground: positionUpdate.on_ground,
+          vertical_rate: positionUpdate.vertical_rate,
+          geo_altitude: positionUpdate.geo_altitude,
+          squawk: positionUpdate.squawk,
+          spi: positionUpdate.spi,
+          position_source: positionUpdate.position_source,
+          category: positionUpdate.category ?? cachedData?.category,
           lastSeen: positionUpdate.lastSeen || Date.now(),
         } as ExtendedAircraft;
 
@@ -1380,6 +1882,217 @@ class OpenSkyTrackingService {
     console.log(`[OpenSky] Updated positions for ${updatedCount} aircraft`);
   }
 
+  /**
+   * Receive pushed updates (the default) instead of polling: from the
+   * tracking WebSocket when NEXT_PUBLIC_TRACKING_SOCKET_URL is set,
+   * otherwise from /api/tracking/stream. Applies from the next session.
+   */
+  public setStreamingEnabled(enabled: boolean): void {
+    this.streamingEnabled = enabled;
+    console.log(`[OpenSky] Streaming ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Whether the current session receives updates from the stream
+   */
+  public isStreaming(): boolean {
+    return this.updateStream !== null;
+  }
+
+  /**
+   * Load the first data of a new tracking session from the update stream,
+   * or with `fetchInitial` followed by polling when the stream is
+   * unavailable
+   */
+  private async startUpdates(
+    subscription: TrackingSubscription,
+    fetchInitial: () => Promise<void>
+  ): Promise<void> {
+    const session = this.trackingSession;
+    if (
+      await this.openStream({
+        ...subscription,
+        provider: this.liveDataSource || undefined,
+      })
+    ) {
+      return;
+    }
+
+    // Tracking was stopped or replaced while connecting
+    if (session !== this.trackingSession) return;
+
+    await fetchInitial();
+    this.startPolling();
+  }
+
+  /**
+   * Open the update stream. Resolves true once the first snapshot has
+   * been applied, false when the stream is unavailable or closed first.
+   */
+  private openStream(subscription: TrackingSubscription): Promise<boolean> {
+    this.closeStream();
+    const socket = this.streamingEnabled ? getTrackingSocket() : null;
+    if (
+      !this.streamingEnabled ||
+      (!socket && typeof EventSource === 'undefined')
+    ) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise<boolean>((resolve) => {
+      const giveUp = (reason: string) => () => {
+        console.warn(`[OpenSky] ${reason}, polling instead`);
+        this.closeStream();
+      };
+      let timeout = setTimeout(
+        giveUp('Update stream did not open in time'),
+        STREAM_CONNECT_TIMEOUT
+      );
+
+      this.settleStream = (connected) => {
+        clearTimeout(timeout);
+        this.settleStream = null;
+        resolve(connected);
+      };
+
+      const token = {};
+      const isCurrent = () => this.streamToken === token;
+      const awaitSnapshot = () => {
+        if (!isCurrent() || !this.settleStream) return;
+        clearTimeout(timeout);
+        timeout = setTimeout(
+          giveUp('No snapshot from the update stream in time'),
+          STREAM_SNAPSHOT_TIMEOUT
+        );
+      };
+      const handlers: UpdateHandlers = {
+        opened: awaitSnapshot,
+        // Large fleets take minutes; the server reports it is still working
+        pending: awaitSnapshot,
+        snapshot: (aircraft) => {
+          if (!isCurrent()) return;
+          this.streamAircraft = new Map(
+            aircraft.map((plane) => [plane.icao24.toLowerCase(), plane])
+          );
+          this.applyStreamAircraft();
+          this.settleStream?.(true);
+        },
+        delta: (delta) => {
+          if (!isCurrent()) return;
+          this.applyStreamDelta(delta);
+        },
+        error: (message) => {
+          console.warn('[OpenSky] Stream refresh failed:', message);
+
+          // Without a first snapshot, fetch the data ourselves
+          if (isCurrent() && this.settleStream) this.closeStream();
+        },
+        closed: () => {
+          if (!isCurrent()) return;
+
+          if (this.settleStream) {
+            console.warn('[OpenSky] Update stream unavailable');
+            this.closeStream();
+          } else {
+            console.warn('[OpenSky] Update stream closed, polling instead');
+            this.closeStream();
+            this.startPolling();
+          }
+        },
+      };
+
+      this.streamToken = token;
+      this.updateStream = socket
+        ? { close: socket.subscribe(subscription, handlers) }
+        : this.openEventSource(subscription, handlers);
+    });
+  }
+
+  /**
+   * Subscribe over Server-Sent Events from /api/tracking/stream
+   */
+  private openEventSource(
+    subscription: TrackingSubscription,
+    handlers: UpdateHandlers
+  ): { close(): void } {
+    const params = new URLSearchParams();
+    if (subscription.manufacturer) {
+      params.set('manufacturer', subscription.manufacturer);
+    }
+    if (subscription.model) params.set('model', subscription.model);
+    if (subscription.provider) params.set('provider', subscription.provider);
+    if (subscription.icao24s) {
+      params.set('icao24s', subscription.icao24s.join(','));
+    }
+    if (subscription.bounds) {
+      Object.entries(subscription.bounds).forEach(([key, value]) =>
+        params.set(key, String(value))
+      );
+    }
+    params.set('fullRefresh', String(this.fullRefreshInterval / 60000));
+
+    const source = new EventSource(`/api/tracking/stream?${params}`);
+    const data = (event: Event) => JSON.parse((event as MessageEvent).data);
+    let receivedSnapshot = false;
+
+    source.onopen = () => handlers.opened();
+
+    source.addEventListener('pending', () => handlers.pending());
+    source.addEventListener('snapshot', (event) => {
+      receivedSnapshot = true;
+      handlers.snapshot(data(event).aircraft);
+    });
+    source.addEventListener('delta', (event) => handlers.delta(data(event)));
+    source.addEventListener('refresh-error', (event) =>
+      handlers.error(data(event).message)
+    );
+
+    // The browser reconnects by itself unless the server refused the
+    // stream; before the first snapshot there is no point waiting
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED || !receivedSnapshot) {
+        source.close();
+        handlers.closed();
+      }
+    };
+
+    return { close: () => source.close() };
+  }
+
+  private closeStream(): void {
+    this.streamToken = null;
+    this.updateStream?.close();
+    this.updateStream = null;
+    this.streamAircraft.clear();
+    this.settleStream?.(false);
+  }
+
+  private applyStreamDelta(delta: AircraftDelta): void {
+    [...delta.added, ...delta.changed].forEach((aircraft) => {
+      this.streamAircraft.set(aircraft.icao24.toLowerCase(), aircraft);
+    });
+    delta.removed.forEach((icao) => this.streamAircraft.delete(icao));
+    this.applyStreamAircraft();
+  }
+
+  /**
+   * Make the streamed aircraft the tracked aircraft
+   */
+  private applyStreamAircraft(): void {
+    this.trackedAircraft = Array.from(this.streamAircraft.values());
+    this.activeIcao24s = new Set(this.streamAircraft.keys());
+    this.updateTrackedIcao24sSet();
+    this.updateTrails();
+    this.updateTrackedAircraftState();
+  }
+
+  private startPolling(): void {
+    if (this.refreshInterval) clearInterval(this.refreshInterval);
+    this.refreshInterval = setInterval(() => {
+      void this.refreshPositionsOnly();
+    }, FALLBACK_POLL_INTERVAL);
+  }
+
   /**
    * Sets the interval between full refreshes
    */
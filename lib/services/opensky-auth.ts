@@ -1,47 +1,73 @@
 // lib/services/opensky-auth.ts
+import { OpenSkyAuthenticationError } from './error-handler/error-handler';
+
+const DEFAULT_TOKEN_URL =
+  'https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token';
+
+export type OpenSkyAuthMode = 'oauth2' | 'basic' | 'none';
+
+interface ClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
 
 interface AuthCredentials {
   username: string;
   password: string;
 }
 
+interface AccessToken {
+  value: string;
+  expiresAt: number; // ms
+  obtainedAt: number; // ms
+}
+
 interface AuthState {
+  mode: OpenSkyAuthMode;
   authenticated: boolean;
+  usingFallback: boolean;
   lastAttempt: number;
-  retryAfter: number;
+  retryAfter: number; // ms timestamp before which we do not retry the token endpoint
+  consecutiveFailures: number;
+  lastError: string | null;
   username: string | null;
-  credentials: AuthCredentials | null;
+  clientId: string | null;
+}
+
+/**
+ * Snapshot of the authentication state, as returned by the status API
+ */
+export interface OpenSkyAuthStatus {
+  mode: OpenSkyAuthMode;
+  authenticated: boolean;
+  usingFallback: boolean;
+  clientId: string | null;
+  username: string | null;
+  tokenExpiresAt: string | null;
+  tokenExpiresIn: number | null; // seconds
+  lastAttempt: string | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  nextRetryAt: string | null;
 }
 
 export class OpenSkyAuth {
   private static instance: OpenSkyAuth;
-  private state: AuthState = {
-    authenticated: false,
-    lastAttempt: 0,
-    retryAfter: 0,
-    username: null,
-    credentials: null,
-  };
+  private state: AuthState = OpenSkyAuth.initialState();
+  private clientCredentials: ClientCredentials | null = null;
+  private credentials: AuthCredentials | null = null;
+  private token: AccessToken | null = null;
+  private pendingToken: Promise<AccessToken> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
   private readonly AUTH_TIMEOUT = 15000;
-  private readonly MAX_RETRIES = 3;
+  private readonly REFRESH_MARGIN = 60000; // Refresh a minute before expiry,
+  private readonly MAX_REFRESH_SHARE = 0.25; // or a quarter of short lifetimes
   private readonly BASE_DELAY = 5000;
+  private readonly MAX_DELAY = 300000;
 
   private constructor() {
-    // Load credentials immediately in constructor
-    const username = process.env.OPENSKY_USERNAME;
-    const password = process.env.OPENSKY_PASSWORD;
-
-    console.log('[OpenSkyAuth] Environment check:', {
-      usernamePresent: !!username,
-      passwordPresent: !!password,
-    });
-
-    if (username && password) {
-      this.updateCredentials(username, password);
-      console.log('[OpenSkyAuth] Credentials loaded from environment');
-    } else {
-      console.error('[OpenSkyAuth] Missing environment credentials!');
-    }
+    this.loadCredentials();
   }
 
   public static getInstance(): OpenSkyAuth {
@@ -51,123 +77,305 @@ export class OpenSkyAuth {
     return OpenSkyAuth.instance;
   }
 
-  private updateCredentials(username: string, password: string): void {
-    this.state.credentials = { username, password };
-    this.state.username = username;
-    console.log('[OpenSkyAuth] Credentials updated for user:', username);
+  private static initialState(): AuthState {
+    return {
+      mode: 'none',
+      authenticated: false,
+      usingFallback: false,
+      lastAttempt: 0,
+      retryAfter: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      username: null,
+      clientId: null,
+    };
+  }
+
+  /**
+   * Pick up OAuth2 client credentials, falling back to Basic auth
+   */
+  private loadCredentials(): void {
+    const clientId = process.env.OPENSKY_CLIENT_ID;
+    const clientSecret = process.env.OPENSKY_CLIENT_SECRET;
+    const username = process.env.OPENSKY_USERNAME;
+    const password = process.env.OPENSKY_PASSWORD;
+
+    this.clientCredentials =
+      clientId && clientSecret ? { clientId, clientSecret } : null;
+    this.credentials = username && password ? { username, password } : null;
+
+    this.state.clientId = clientId || null;
+    this.state.username = username || null;
+    this.state.mode = this.clientCredentials
+      ? 'oauth2'
+      : this.credentials
+        ? 'basic'
+        : 'none';
+    // Basic auth cannot be checked without spending a request
+    this.state.authenticated = this.state.mode === 'basic';
+
+    console.log('[OpenSkyAuth] Environment check:', {
+      mode: this.state.mode,
+      clientIdPresent: !!clientId,
+      basicFallback: !!this.credentials,
+    });
   }
 
+  /**
+   * Make sure we can authenticate requests. For OAuth2 this fetches a token
+   * when none is cached or the cached one is about to expire.
+   */
   public async ensureAuthenticated(): Promise<boolean> {
-    console.log('[OpenSkyAuth] Starting authentication check');
+    if (this.state.mode === 'none') {
+      this.loadCredentials();
+    }
 
-    if (this.isAuthenticated()) {
-      console.log('[OpenSkyAuth] Already authenticated');
+    if (this.state.mode === 'basic') {
       return true;
     }
-
-    console.log('[OpenSkyAuth] Not authenticated, attempting authentication');
-    if (!this.state.credentials) {
-      console.error(
-        '[OpenSkyAuth] No credentials available for authentication'
-      );
-      const username = process.env.OPENSKY_USERNAME;
-      const password = process.env.OPENSKY_PASSWORD;
-
-      if (username && password) {
-        console.log('[OpenSkyAuth] Loading credentials from environment');
-        this.updateCredentials(username, password);
-      } else {
-        console.error('[OpenSkyAuth] No environment credentials available');
-        return false;
-      }
+    if (this.state.mode === 'none') {
+      return false;
     }
 
-    return this.authenticate({ useEnvCredentials: true });
+    try {
+      await this.getAccessToken();
+      return true;
+    } catch (error) {
+      return !!this.credentials; // Basic auth fallback
+    }
   }
 
-  public getAuthHeaders(): Record<string, string> {
-    if (!this.state.credentials) {
-      console.error('[OpenSkyAuth] No credentials available for headers');
-      throw new Error('Authentication required');
+  /**
+   * Authorization headers for an OpenSky API request. Uses a bearer token
+   * when OAuth2 is configured, Basic auth as fallback, and no headers for
+   * anonymous access.
+   */
+  public async getAuthHeaders(): Promise<Record<string, string>> {
+    if (this.state.mode === 'oauth2') {
+      try {
+        const token = await this.getAccessToken();
+        this.state.usingFallback = false;
+        return { Authorization: `Bearer ${token.value}` };
+      } catch (error) {
+        if (!this.credentials) {
+          throw new OpenSkyAuthenticationError(
+            `OpenSky token unavailable: ${this.state.lastError || 'unknown error'}`
+          );
+        }
+        if (!this.state.usingFallback) {
+          console.warn('[OpenSkyAuth] Falling back to Basic auth');
+        }
+        this.state.usingFallback = true;
+      }
+    }
+
+    if (this.credentials) {
+      const authString = Buffer.from(
+        `${this.credentials.username}:${this.credentials.password}`
+      ).toString('base64');
+      return { Authorization: `Basic ${authString}` };
     }
 
-    const authString = Buffer.from(
-      `${this.state.credentials.username}:${this.state.credentials.password}`
-    ).toString('base64');
+    return {};
+  }
 
+  /**
+   * Drop the cached token, e.g. after the API rejected it with a 401
+   */
+  public invalidateToken(): void {
+    if (!this.token) return;
+    console.log('[OpenSkyAuth] Access token invalidated');
+    this.token = null;
+    this.state.authenticated = false;
+    this.clearRefreshTimer();
+  }
+
+  public getStatus(): OpenSkyAuthStatus {
+    const now = Date.now();
     return {
-      Authorization: `Basic ${authString}`,
+      mode: this.state.mode,
+      authenticated: this.isAuthenticated(),
+      usingFallback: this.state.usingFallback,
+      clientId: this.state.clientId,
+      username: this.state.username,
+      tokenExpiresAt: this.token
+        ? new Date(this.token.expiresAt).toISOString()
+        : null,
+      tokenExpiresIn: this.token
+        ? Math.max(0, Math.floor((this.token.expiresAt - now) / 1000))
+        : null,
+      lastAttempt: this.state.lastAttempt
+        ? new Date(this.state.lastAttempt).toISOString()
+        : null,
+      consecutiveFailures: this.state.consecutiveFailures,
+      lastError: this.state.lastError,
+      nextRetryAt:
+        this.state.retryAfter > now
+          ? new Date(this.state.retryAfter).toISOString()
+          : null,
     };
   }
 
-  public async authenticate(options: {
-    useEnvCredentials: boolean;
-  }): Promise<boolean> {
-    console.log('[OpenSkyAuth] Starting authentication process');
+  public isAuthenticated(): boolean {
+    if (this.state.mode === 'oauth2') {
+      return !!this.token && this.token.expiresAt > Date.now();
+    }
+    return this.state.authenticated;
+  }
 
-    if (options.useEnvCredentials) {
-      const username = process.env.OPENSKY_USERNAME;
-      const password = process.env.OPENSKY_PASSWORD;
+  public reset(): void {
+    console.log('[OpenSkyAuth] Resetting authentication state');
+    this.clearRefreshTimer();
+    this.token = null;
+    this.pendingToken = null;
+    this.state = OpenSkyAuth.initialState();
+    this.loadCredentials();
+  }
 
-      if (!username || !password) {
-        console.error(
-          '[OpenSkyAuth] Missing environment credentials during authentication'
-        );
-        return false;
-      }
+  /**
+   * Cached token, refreshed once it is due (see refreshDueAt).
+   * Concurrent callers share one token request.
+   */
+  private async getAccessToken(): Promise<AccessToken> {
+    const now = Date.now();
 
-      this.updateCredentials(username, password);
+    if (this.token && now < this.refreshDueAt(this.token)) {
+      return this.token;
     }
 
-    try {
-      // Test authentication with a minimal request
-      const authString = Buffer.from(
-        `${this.state.credentials!.username}:${this.state.credentials!.password}`
-      ).toString('base64');
+    if (this.pendingToken) {
+      return this.pendingToken;
+    }
+
+    if (now < this.state.retryAfter) {
+      // Still usable while backing off from a failed refresh
+      if (this.token && this.token.expiresAt > now) {
+        return this.token;
+      }
+      throw new OpenSkyAuthenticationError(
+        `OpenSky token request backing off until ${new Date(this.state.retryAfter).toISOString()}`
+      );
+    }
 
-      // Make a minimal request to verify auth
+    this.pendingToken = this.requestToken().finally(() => {
+      this.pendingToken = null;
+    });
+    return this.pendingToken;
+  }
+
+  /**
+   * Client credentials grant against the OpenSky token endpoint
+   */
+  private async requestToken(): Promise<AccessToken> {
+    const { clientId, clientSecret } = this.clientCredentials!;
+    this.state.lastAttempt = Date.now();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.AUTH_TIMEOUT);
+
+    try {
       const response = await fetch(
-        'https://opensky-network.org/api/states/all?time=0&icao24=a00001',
+        process.env.OPENSKY_TOKEN_URL || DEFAULT_TOKEN_URL,
         {
-          headers: {
-            Authorization: `Basic ${authString}`,
-            Accept: 'application/json',
-          },
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_id: clientId,
+            client_secret: clientSecret,
+          }),
+          signal: controller.signal,
         }
       );
 
-      console.log('[OpenSkyAuth] Auth test response status:', response.status);
-
-      if (response.ok) {
-        this.state.authenticated = true;
-        this.state.lastAttempt = Date.now();
-        console.log('[OpenSkyAuth] Authentication successful');
-        return true;
-      } else {
-        console.error('[OpenSkyAuth] Authentication failed:', response.status);
-        this.state.authenticated = false;
-        return false;
+      if (!response.ok) {
+        throw new Error(
+          `Token request failed: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      if (!data?.access_token) {
+        throw new Error('Token response did not include an access token');
       }
+
+      const obtainedAt = Date.now();
+      const expiresIn = Number(data.expires_in);
+      this.token = {
+        value: data.access_token,
+        obtainedAt,
+        expiresAt: obtainedAt + (expiresIn > 0 ? expiresIn : 1800) * 1000,
+      };
+
+      this.state.authenticated = true;
+      this.state.consecutiveFailures = 0;
+      this.state.retryAfter = 0;
+      this.state.lastError = null;
+      this.scheduleRefresh();
+
+      console.log(
+        `[OpenSkyAuth] Access token obtained, expires ${new Date(this.token.expiresAt).toISOString()}`
+      );
+      return this.token;
     } catch (error) {
-      console.error('[OpenSkyAuth] Authentication error:', error);
-      this.state.authenticated = false;
-      return false;
+      const message =
+        error instanceof Error && error.name === 'AbortError'
+          ? 'Token request timed out'
+          : error instanceof Error
+            ? error.message
+            : String(error);
+
+      this.state.consecutiveFailures++;
+      this.state.lastError = message;
+      this.state.retryAfter =
+        Date.now() +
+        Math.min(
+          this.BASE_DELAY * 2 ** (this.state.consecutiveFailures - 1),
+          this.MAX_DELAY
+        );
+      this.state.authenticated = this.isAuthenticated();
+
+      console.error('[OpenSkyAuth] Authentication error:', message);
+      throw new OpenSkyAuthenticationError(message);
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
-  public isAuthenticated(): boolean {
-    return this.state.authenticated;
+  /**
+   * Refresh the token ahead of expiry so requests never wait on it
+   */
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer();
+    if (!this.token) return;
+
+    const delay = Math.max(this.refreshDueAt(this.token) - Date.now(), 0);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.getAccessToken().catch(() => {
+        // Failure state is recorded; the next request retries after backoff
+      });
+    }, delay);
+    this.refreshTimer.unref?.();
   }
 
-  public reset(): void {
-    console.log('[OpenSkyAuth] Resetting authentication state');
-    this.state = {
-      authenticated: false,
-      lastAttempt: 0,
-      retryAfter: 0,
-      username: null,
-      credentials: null,
-    };
+  /**
+   * When a token should be replaced. The margin shrinks for tokens living
+   * barely longer than it, which would otherwise be due as soon as issued.
+   */
+  private refreshDueAt(token: AccessToken): number {
+    const lifetime = token.expiresAt - token.obtainedAt;
+    return (
+      token.expiresAt -
+      Math.min(this.REFRESH_MARGIN, lifetime * this.MAX_REFRESH_SHARE)
+    );
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
   }
 }
 
@@ -0,0 +1,180 @@
+// lib/services/position-history.ts
+import dbManager from '../db/DatabaseManager';
+import { getPositionHistoryConfig, PositionHistoryConfig } from '../db/config';
+import type { PositionRow } from '../../types/database';
+import type { LiveAircraftState } from './providers/types';
+
+// Retention and downsampling run at most this often
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Positions kept in memory while the database is unavailable
+const MAX_PENDING_BATCHES = 20;
+
+export type PositionListener = (positions: PositionRow[]) => void;
+
+/**
+ * Buffers live positions and writes them to the positions table in
+ * batches. Retention and downsampling run after writes, at most hourly.
+ */
+export class PositionHistoryRecorder {
+  private static instance: PositionHistoryRecorder | null = null;
+  private pending: PositionRow[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private lastMaintenance = 0;
+  private listeners = new Set<PositionListener>();
+
+  private constructor(private readonly config: PositionHistoryConfig) {}
+
+  public static getInstance(): PositionHistoryRecorder {
+    if (!PositionHistoryRecorder.instance) {
+      PositionHistoryRecorder.instance = new PositionHistoryRecorder(
+        getPositionHistoryConfig()
+      );
+    }
+    return PositionHistoryRecorder.instance;
+  }
+
+  /**
+   * Queue the positions of live states received from a provider
+   */
+  public record(states: LiveAircraftState[], source: string): void {
+    if (!this.config.enabled) return;
+
+    for (const state of states) {
+      if (
+        !state?.icao24 ||
+        !Number.isFinite(state.latitude) ||
+        !Number.isFinite(state.longitude)
+      ) {
+        continue;
+      }
+
+      const ts = state.time_position ?? state.last_contact;
+      if (!Number.isFinite(ts)) continue;
+
+      this.pending.push({
+        icao24: state.icao24.toLowerCase(),
+        ts: Math.floor(ts),
+        lat: state.latitude,
+        lon: state.longitude,
+        altitude: Number.isFinite(state.altitude) ? state.altitude : null,
+        velocity: Number.isFinite(state.velocity) ? state.velocity : null,
+        heading: Number.isFinite(state.heading) ? state.heading : null,
+        on_ground: Boolean(state.on_ground),
+        source,
+      });
+    }
+
+    const maxPending = this.config.batchSize * MAX_PENDING_BATCHES;
+    if (this.pending.length > maxPending) {
+      const dropped = this.pending.length - maxPending;
+      this.pending.splice(0, dropped);
+      console.warn(
+        `[PositionHistory] Dropped ${dropped} unwritten positions (queue full)`
+      );
+    }
+
+    if (this.pending.length >= this.config.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Write all queued positions now
+   */
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // One write at a time; later positions wait for the next flush
+    if (this.flushing) {
+      await this.flushing;
+      if (this.pending.length > 0) this.scheduleFlush();
+      return;
+    }
+
+    this.flushing = this.writePending().finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  /**
+   * Be notified of each batch of positions after it has been written.
+   * Returns an unsubscribe function.
+   */
+  public subscribe(listener: PositionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Apply the retention policy and downsample old positions
+   */
+  public async runMaintenance(): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const { retentionDays, downsampleAfterHours, downsampleIntervalSeconds } =
+      this.config;
+
+    this.lastMaintenance = Date.now();
+    await dbManager.prunePositions({
+      deleteBefore: retentionDays > 0 ? now - retentionDays * 86400 : null,
+      downsampleBefore:
+        downsampleAfterHours > 0 ? now - downsampleAfterHours * 3600 : null,
+      interval: downsampleIntervalSeconds,
+    });
+    console.log('[PositionHistory] Applied retention and downsampling');
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || this.pending.length === 0) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.config.flushIntervalMs);
+    // Never keep a script alive just to write positions
+    this.flushTimer.unref?.();
+  }
+
+  private async writePending(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.config.batchSize);
+
+      try {
+        await dbManager.savePositions(batch);
+      } catch (error) {
+        console.error('[PositionHistory] Failed to write positions:', error);
+        this.pending.unshift(...batch);
+        this.scheduleFlush(); // retry later
+        return;
+      }
+
+      for (const listener of this.listeners) {
+        try {
+          listener(batch);
+        } catch (error) {
+          console.error('[PositionHistory] Listener failed:', error);
+        }
+      }
+    }
+
+    if (Date.now() - this.lastMaintenance >= MAINTENANCE_INTERVAL_MS) {
+      try {
+        await this.runMaintenance();
+      } catch (error) {
+        console.error('[PositionHistory] Maintenance failed:', error);
+      }
+    }
+  }
+}
+
+const positionHistory = PositionHistoryRecorder.getInstance();
+export default positionHistory;
@@ -0,0 +1,143 @@
+// lib/services/providers/AircraftStateStore.ts
+import type { BoundingBox } from '@/types/regions';
+import type { LiveAircraftState } from './types';
+
+/**
+ * Partial update for one aircraft, as decoded from a single feed message.
+ * Units follow LiveAircraftState (meters, m/s, degrees).
+ */
+export interface AircraftStateUpdate {
+  callsign?: string;
+  altitude?: number;
+  velocity?: number;
+  heading?: number;
+  vertical_rate?: number;
+  latitude?: number;
+  longitude?: number;
+  squawk?: string;
+  on_ground?: boolean;
+  spi?: boolean;
+  position_source?: number;
+  category?: number;
+}
+
+interface StoredAircraftState extends AircraftStateUpdate {
+  icao24: string;
+  lastContact: number; // ms
+  lastPosition: number; // ms, 0 when no position yet
+}
+
+const DEFAULT_MAX_AGE = 60000; // Drop aircraft not heard for a minute
+
+/**
+ * Assembles per-ICAO24 state from the partial messages of a receiver feed
+ * (SBS-1, raw Mode-S, ...).
+ */
+export class AircraftStateStore {
+  private states = new Map<string, StoredAircraftState>();
+
+  constructor(private readonly maxAge: number = DEFAULT_MAX_AGE) {}
+
+  /**
+   * Merge a partial update into the state for an aircraft
+   */
+  public update(
+    icao24: string,
+    update: AircraftStateUpdate,
+    timestamp: number = Date.now()
+  ): void {
+    const icao = icao24.toLowerCase();
+    const current = this.states.get(icao) || {
+      icao24: icao,
+      lastContact: 0,
+      lastPosition: 0,
+    };
+
+    const next: StoredAircraftState = { ...current };
+    (Object.keys(update) as (keyof AircraftStateUpdate)[]).forEach((key) => {
+      if (update[key] !== undefined) {
+        (next as any)[key] = update[key];
+      }
+    });
+
+    next.lastContact = Math.max(current.lastContact, timestamp);
+    if (update.latitude !== undefined && update.longitude !== undefined) {
+      next.lastPosition = timestamp;
+    }
+
+    this.states.set(icao, next);
+  }
+
+  /**
+   * Current live states of all aircraft with a known position
+   */
+  public getStates(): LiveAircraftState[] {
+    this.prune();
+
+    const result: LiveAircraftState[] = [];
+    this.states.forEach((state) => {
+      if (
+        !state.lastPosition ||
+        state.latitude === undefined ||
+        state.longitude === undefined
+      ) {
+        return;
+      }
+
+      result.push({
+        icao24: state.icao24,
+        callsign: state.callsign,
+        last_contact: Math.floor(state.lastContact / 1000),
+        latitude: state.latitude,
+        longitude: state.longitude,
+        altitude: state.altitude ?? 0,
+        on_ground: state.on_ground ?? false,
+        velocity: state.velocity ?? 0,
+        heading: state.heading ?? 0,
+        vertical_rate: state.vertical_rate ?? 0,
+        squawk: state.squawk,
+        spi: state.spi,
+        position_source: state.position_source,
+        category: state.category,
+        time_position: Math.floor(state.lastPosition / 1000),
+      });
+    });
+
+    return result;
+  }
+
+  public getStatesByIcao24s(icao24s: string[]): LiveAircraftState[] {
+    const wanted = new Set(icao24s.map((icao) => icao.toLowerCase()));
+    return this.getStates().filter((state) => wanted.has(state.icao24));
+  }
+
+  public getStatesInBounds(bounds: BoundingBox): LiveAircraftState[] {
+    return this.getStates().filter(
+      (state) =>
+        state.latitude >= bounds.minLat &&
+        state.latitude <= bounds.maxLat &&
+        state.longitude >= bounds.minLon &&
+        state.longitude <= bounds.maxLon
+    );
+  }
+
+  public get size(): number {
+    return this.states.size;
+  }
+
+  public clear(): void {
+    this.states.clear();
+  }
+
+  /**
+   * Remove aircraft we have not heard from within maxAge
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.maxAge;
+    this.states.forEach((state, icao) => {
+      if (state.lastContact < cutoff) {
+        this.states.delete(icao);
+      }
+    });
+  }
+}
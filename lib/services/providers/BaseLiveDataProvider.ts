@@ -0,0 +1,290 @@
+// lib/services/providers/BaseLiveDataProvider.ts
+import type { BoundingBox } from '@/types/regions';
+import dbManager from '../../db/DatabaseManager';
+import { boundingBoxFromEdges, splitAtAntimeridian } from '../../../utils/geo';
+import { LruCache } from '../../../utils/lru-cache';
+import {
+  LiveDataProvider,
+  LiveDataProviderError,
+  ProviderRateLimitStatus,
+  ProviderStatesResult,
+} from './types';
+
+const DEFAULT_CACHE_TTL = 60000; // 1 minute cache
+const DEFAULT_BATCH_DELAY = 500; // Delay between sequential batches
+const MAX_CACHED_RESPONSES = 500; // per provider
+
+/**
+ * Normalize and validate ICAO24 codes (6 hex characters, lowercase, unique)
+ */
+export function normalizeIcao24s(icao24s: unknown[]): string[] {
+  const normalized = icao24s
+    .filter((code): code is string => typeof code === 'string')
+    .map((code) => code.trim().toLowerCase())
+    .filter((code) => /^[0-9a-f]{6}$/.test(code));
+
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Validate a bounding box from a request body (degrees, minLat <= maxLat).
+ * Longitudes are wrapped into -180..180, so a box whose west edge ends up
+ * east of its east edge crosses the antimeridian.
+ */
+export function normalizeBoundingBox(bounds: unknown): BoundingBox | null {
+  if (!bounds || typeof bounds !== 'object') {
+    return null;
+  }
+
+  const { minLat, maxLat, minLon, maxLon } = bounds as Record<string, unknown>;
+  const values = [minLat, maxLat, minLon, maxLon].map(Number);
+  if (values.some((value) => !Number.isFinite(value))) {
+    return null;
+  }
+
+  const [south, north, west, east] = values;
+  if (south > north) {
+    return null;
+  }
+
+  return boundingBoxFromEdges(south, north, west, east);
+}
+
+/**
+ * Shared batching and caching for live data providers.
+ * Subclasses only implement the single-request fetches.
+ */
+export abstract class BaseLiveDataProvider implements LiveDataProvider {
+  abstract readonly name: string;
+  abstract readonly maxIcaosPerRequest: number;
+
+  protected cacheTtl: number = DEFAULT_CACHE_TTL;
+  protected batchDelay: number = DEFAULT_BATCH_DELAY;
+
+  // Keep upstream responses in the database so restarts don't refetch them
+  protected persistResponses = false;
+  private restored: Promise<void> | null = null;
+
+  private cachedResponses: LruCache<ProviderStatesResult> | null = null;
+  private inFlightRequests = new Map<string, Promise<ProviderStatesResult>>();
+
+  // Created on first use: the name and TTL are set by the subclass
+  protected get responseCache(): LruCache<ProviderStatesResult> {
+    if (!this.cachedResponses) {
+      this.cachedResponses = new LruCache({
+        name: `provider:${this.name}`,
+        maxEntries: MAX_CACHED_RESPONSES,
+        defaultTtlMs: this.cacheTtl,
+      });
+    }
+    return this.cachedResponses;
+  }
+
+  /**
+   * Fetch states for a single batch (at most maxIcaosPerRequest codes)
+   */
+  protected abstract fetchIcao24Batch(
+    icao24s: string[]
+  ): Promise<ProviderStatesResult>;
+
+  /**
+   * Fetch all states within a bounding box
+   */
+  protected abstract fetchBoundsStates(
+    bounds: BoundingBox
+  ): Promise<ProviderStatesResult>;
+
+  public abstract getRateLimitStatus(): ProviderRateLimitStatus;
+
+  /**
+   * Fetch states for any number of ICAO24 codes, batching and caching as needed
+   */
+  public async fetchStatesByIcao24s(
+    icao24s: string[]
+  ): Promise<ProviderStatesResult> {
+    const validIcaos = normalizeIcao24s(icao24s).sort();
+
+    if (validIcaos.length === 0) {
+      return { states: [], timestamp: Date.now() };
+    }
+
+    const batches: string[][] = [];
+    for (let i = 0; i < validIcaos.length; i += this.maxIcaosPerRequest) {
+      batches.push(validIcaos.slice(i, i + this.maxIcaosPerRequest));
+    }
+
+    console.log(
+      `[${this.name}] Processing ${validIcaos.length} ICAOs in ${batches.length} batches`
+    );
+
+    const combined: ProviderStatesResult = { states: [], timestamp: 0 };
+    let lastError: unknown = null;
+    let succeededBatches = 0;
+
+    // Process batches sequentially to respect rate limits
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+      try {
+        const result = await this.withCache(`icao:${batch.join(',')}`, () =>
+          this.fetchIcao24Batch(batch)
+        );
+        combined.states.push(...result.states);
+        combined.timestamp = Math.max(combined.timestamp, result.timestamp);
+        succeededBatches++;
+      } catch (error) {
+        console.error(`[${this.name}] Error processing batch ${i + 1}:`, error);
+        lastError = error;
+
+        // No point in continuing once we are rate limited
+        if (
+          error instanceof LiveDataProviderError &&
+          error.statusCode === 429
+        ) {
+          break;
+        }
+      }
+
+      if (i < batches.length - 1 && this.batchDelay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.batchDelay));
+      }
+    }
+
+    // Only fail the whole request when no batch came back; batches skipped
+    // after a 429 count as failed
+    if (lastError) {
+      if (succeededBatches === 0) throw lastError;
+      combined.failedBatches = batches.length - succeededBatches;
+    }
+
+    combined.timestamp = combined.timestamp || Date.now();
+    return combined;
+  }
+
+  /**
+   * Fetch states inside a bounding box, with caching. Boxes crossing the
+   * antimeridian are fetched as two boxes.
+   */
+  public async fetchStatesByBounds(
+    bounds: BoundingBox
+  ): Promise<ProviderStatesResult> {
+    const parts = splitAtAntimeridian(bounds);
+    if (parts.length === 1) {
+      return this.fetchBoxStates(bounds);
+    }
+
+    const combined: ProviderStatesResult = { states: [], timestamp: 0 };
+    const seen = new Set<string>();
+    for (const part of parts) {
+      const result = await this.fetchBoxStates(part);
+      // Aircraft on the antimeridian itself fall in both parts
+      combined.states.push(
+        ...result.states.filter((state) => !seen.has(state.icao24))
+      );
+      result.states.forEach((state) => seen.add(state.icao24));
+      combined.timestamp = Math.max(combined.timestamp, result.timestamp);
+    }
+    return combined;
+  }
+
+  private fetchBoxStates(bounds: BoundingBox): Promise<ProviderStatesResult> {
+    const key = `bbox:${bounds.minLat},${bounds.maxLat},${bounds.minLon},${bounds.maxLon}`;
+    return this.withCache(key, () => this.fetchBoundsStates(bounds));
+  }
+
+  /**
+   * Clear cached responses
+   */
+  public clearCache(): void {
+    this.responseCache.clear();
+    if (this.persistResponses) {
+      dbManager.clearProviderResponses(this.name).catch((error) => {
+        console.error(`[${this.name}] Failed to clear persisted cache:`, error);
+      });
+    }
+    console.log(`[${this.name}] Cache cleared`);
+  }
+
+  /**
+   * Restore persisted state once per instance; failures are only logged
+   */
+  protected ensureRestored(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.restorePersistedState().catch((error) => {
+        console.error(
+          `[${this.name}] Failed to restore persisted state:`,
+          error
+        );
+      });
+    }
+    return this.restored;
+  }
+
+  /**
+   * Load persisted responses that are still within the cache TTL.
+   * Subclasses extend this to restore their own state.
+   */
+  protected async restorePersistedState(): Promise<void> {
+    if (!this.persistResponses) return;
+
+    const entries = await dbManager.getProviderResponses<ProviderStatesResult>(
+      this.name,
+      this.cacheTtl
+    );
+    for (const { cacheKey, data, fetchedAt } of entries) {
+      if (!this.responseCache.has(cacheKey)) {
+        this.responseCache.set(cacheKey, data, this.cacheTtl, fetchedAt);
+      }
+    }
+
+    if (entries.length > 0) {
+      console.log(
+        `[${this.name}] Restored ${entries.length} cached responses from the database`
+      );
+    }
+  }
+
+  /**
+   * Return a cached result, join an identical in-flight request, or fetch
+   */
+  protected async withCache(
+    key: string,
+    fetcher: () => Promise<ProviderStatesResult>
+  ): Promise<ProviderStatesResult> {
+    await this.ensureRestored();
+
+    const cached = this.responseCache.get(key);
+    if (cached) {
+      console.log(`[${this.name}] Returning cached response`);
+      return cached;
+    }
+
+    const existing = this.inFlightRequests.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const request = fetcher()
+      .then((data) => {
+        const timestamp = Date.now();
+        this.responseCache.set(key, data, this.cacheTtl, timestamp);
+
+        if (this.persistResponses) {
+          dbManager
+            .saveProviderResponse(this.name, key, data, timestamp)
+            .catch((error) => {
+              console.error(
+                `[${this.name}] Failed to persist response:`,
+                error
+              );
+            });
+        }
+        return data;
+      })
+      .finally(() => {
+        this.inFlightRequests.delete(key);
+      });
+
+    this.inFlightRequests.set(key, request);
+    return request;
+  }
+}
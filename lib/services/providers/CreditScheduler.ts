@@ -0,0 +1,254 @@
+// lib/services/providers/CreditScheduler.ts
+import { CreditBudget, LiveDataProviderError } from './types';
+
+const REMAINING_HEADER = 'X-Rate-Limit-Remaining';
+const RETRY_AFTER_HEADER = 'X-Rate-Limit-Retry-After-Seconds';
+
+export interface CreditSchedulerOptions {
+  name: string;
+  dailyLimit: () => number; // may change with the auth mode
+  maxWaitMs?: number; // longest a request may queue before it is rejected
+  maxQueueLength?: number;
+}
+
+/**
+ * Serializable scheduler state, persisted across restarts
+ */
+export interface CreditSchedulerState {
+  remaining: number | null;
+  synced: boolean;
+  blockedUntil: number;
+  resetsAt: number;
+  requestTimes: number[];
+  requestsToday: number;
+}
+
+/**
+ * Runs upstream requests one at a time against a daily credit budget.
+ * The budget is synced from the upstream rate-limit headers; until the first
+ * response arrives it is estimated from the configured daily limit.
+ */
+export class CreditScheduler {
+  private readonly name: string;
+  private readonly dailyLimit: () => number;
+  private readonly maxWaitMs: number;
+  private readonly maxQueueLength: number;
+
+  private remaining: number | null = null; // null = nothing reported yet
+  private synced = false;
+  private blockedUntil = 0;
+  private resetsAt = nextUtcMidnight();
+  private queued = 0;
+  private tail: Promise<void> = Promise.resolve();
+
+  private requestTimes: number[] = [];
+  private requestsToday = 0;
+
+  constructor(options: CreditSchedulerOptions) {
+    this.name = options.name;
+    this.dailyLimit = options.dailyLimit;
+    this.maxWaitMs = options.maxWaitMs ?? 15000;
+    this.maxQueueLength = options.maxQueueLength ?? 20;
+  }
+
+  /**
+   * Queue a request that costs `cost` credits. Rejects with a 429 when the
+   * budget cannot cover it or the wait would exceed maxWaitMs.
+   */
+  public async schedule(
+    cost: number,
+    request: () => Promise<Response>
+  ): Promise<Response> {
+    if (this.queued >= this.maxQueueLength) {
+      throw new LiveDataProviderError(
+        'Too many queued requests',
+        429,
+        Math.max(1, this.getRetryAfter())
+      );
+    }
+
+    this.queued++;
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise<void>((resolve) => (release = resolve));
+
+    try {
+      await previous;
+      await this.reserve(cost);
+
+      let response: Response;
+      try {
+        response = await request();
+      } catch (error) {
+        this.refund(cost);
+        throw error;
+      }
+
+      this.record(response, cost);
+      return response;
+    } finally {
+      this.queued--;
+      release();
+    }
+  }
+
+  public getBudget(): CreditBudget {
+    this.checkReset();
+    const dailyLimit = this.dailyLimit();
+
+    return {
+      dailyLimit,
+      remaining: this.remaining ?? dailyLimit,
+      estimated: !this.synced,
+      queued: this.queued,
+      retryAfter: this.getRetryAfter(),
+      resetsAt: this.resetsAt,
+    };
+  }
+
+  /**
+   * Seconds until a request costing `cost` credits could go out
+   */
+  public getRetryAfter(cost: number = 1): number {
+    this.checkReset();
+    const now = Date.now();
+
+    if (this.blockedUntil > now) {
+      return Math.ceil((this.blockedUntil - now) / 1000);
+    }
+    if ((this.remaining ?? this.dailyLimit()) < cost) {
+      return Math.ceil((this.resetsAt - now) / 1000);
+    }
+    return 0;
+  }
+
+  public exportState(): CreditSchedulerState {
+    return {
+      remaining: this.remaining,
+      synced: this.synced,
+      blockedUntil: this.blockedUntil,
+      resetsAt: this.resetsAt,
+      requestTimes: [...this.requestTimes],
+      requestsToday: this.requestsToday,
+    };
+  }
+
+  /**
+   * Restore a persisted state; anything past its reset time is dropped
+   */
+  public restoreState(state: CreditSchedulerState): void {
+    this.remaining = state.remaining;
+    this.synced = state.synced;
+    this.blockedUntil = state.blockedUntil;
+    this.resetsAt = state.resetsAt;
+    this.requestTimes = state.requestTimes;
+    this.requestsToday = state.requestsToday;
+    this.checkReset();
+  }
+
+  public getRequestCounts(): { lastMinute: number; today: number } {
+    this.checkReset();
+    const cutoff = Date.now() - 60000;
+    this.requestTimes = this.requestTimes.filter((time) => time > cutoff);
+
+    return { lastMinute: this.requestTimes.length, today: this.requestsToday };
+  }
+
+  /**
+   * Wait out a short upstream back-off, or reject when credits are gone
+   */
+  private async reserve(cost: number): Promise<void> {
+    const wait = this.blockedUntil - Date.now();
+    if (wait > 0) {
+      if (wait > this.maxWaitMs) {
+        throw new LiveDataProviderError(
+          'Rate limit exceeded',
+          429,
+          Math.ceil(wait / 1000)
+        );
+      }
+
+      console.log(`[${this.name}] Rate limited, waiting ${wait}ms`);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+
+    const retryAfter = this.getRetryAfter(cost);
+    if (retryAfter > 0) {
+      console.log(
+        `[${this.name}] Not enough credits for request (cost ${cost}, remaining ${this.remaining})`
+      );
+      throw new LiveDataProviderError('API credits exhausted', 429, retryAfter);
+    }
+
+    // Reserve the credits up front so queued requests see the new balance
+    this.remaining = (this.remaining ?? this.dailyLimit()) - cost;
+    this.requestTimes.push(Date.now());
+    this.requestsToday++;
+  }
+
+  /**
+   * Sync the budget from the upstream rate-limit headers
+   */
+  private record(response: Response, cost: number): void {
+    const remaining = parseHeaderInt(response.headers.get(REMAINING_HEADER));
+    if (remaining !== null) {
+      this.remaining = remaining;
+      this.synced = true;
+    }
+
+    if (response.status === 429) {
+      const retryAfter =
+        parseHeaderInt(response.headers.get(RETRY_AFTER_HEADER)) ?? 60;
+      this.blockedUntil = Date.now() + retryAfter * 1000;
+      this.remaining = 0;
+      console.log(
+        `[${this.name}] Upstream rate limit hit, retry after ${retryAfter}s`
+      );
+    } else if (!response.ok && remaining === null) {
+      // Failed requests are not charged
+      this.refund(cost);
+    }
+  }
+
+  private refund(cost: number): void {
+    if (this.remaining !== null) {
+      this.remaining = Math.min(this.remaining + cost, this.dailyLimit());
+    }
+  }
+
+  /**
+   * Refill the estimate once the daily budget has reset
+   */
+  private checkReset(): void {
+    // Upstream told us when credits come back; trust it over our own reset time
+    if (this.blockedUntil && Date.now() >= this.blockedUntil) {
+      this.blockedUntil = 0;
+      this.remaining = null;
+      this.synced = false;
+    }
+
+    if (Date.now() < this.resetsAt) return;
+
+    this.resetsAt = nextUtcMidnight();
+    this.remaining = null;
+    this.synced = false;
+    this.requestsToday = 0;
+    console.log(`[${this.name}] Reset daily credit budget`);
+  }
+}
+
+function parseHeaderInt(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Credits are handed out per UTC day
+function nextUtcMidnight(): number {
+  const now = new Date();
+  return Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1
+  );
+}
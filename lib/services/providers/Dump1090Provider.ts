@@ -0,0 +1,263 @@
+// lib/services/providers/Dump1090Provider.ts
+import fs from 'fs/promises';
+import type { Aircraft } from '@/types/base';
+import type { BoundingBox } from '@/types/regions';
+import { emitterCategoryFromCode } from '@/utils/state-vector';
+import { BaseLiveDataProvider } from './BaseLiveDataProvider';
+import { enrichWithRegistryData } from './registry-enrichment';
+import {
+  LiveAircraftState,
+  LiveDataProviderError,
+  ProviderRateLimitStatus,
+  ProviderStatesResult,
+} from './types';
+
+// Unit conversions into the OpenSky state vector units
+const FEET_TO_METERS = 0.3048;
+const KNOTS_TO_MS = 0.514444;
+const FPM_TO_MS = 0.00508;
+
+const DEFAULT_POLL_INTERVAL = 1000; // dump1090 rewrites aircraft.json every second
+const DEFAULT_MAX_AGE = 60; // Ignore aircraft not heard for a minute
+
+/**
+ * A single entry of the dump1090/readsb `aircraft.json` feed
+ */
+export interface Dump1090Aircraft {
+  hex: string;
+  flight?: string;
+  alt_baro?: number | 'ground';
+  alt_geom?: number;
+  gs?: number;
+  track?: number;
+  baro_rate?: number;
+  geom_rate?: number;
+  lat?: number;
+  lon?: number;
+  squawk?: string;
+  category?: string;
+  type?: string; // position source, e.g. "adsb_icao" or "mlat"
+  seen?: number;
+  seen_pos?: number;
+}
+
+/**
+ * Top-level `aircraft.json` document
+ */
+export interface Dump1090Snapshot {
+  now: number; // seconds since epoch
+  messages?: number;
+  aircraft: Dump1090Aircraft[];
+}
+
+export interface Dump1090ProviderOptions {
+  source?: string; // URL or file path of aircraft.json
+  pollInterval?: number; // ms
+  maxAge?: number; // seconds
+}
+
+/**
+ * Map a dump1090 aircraft entry into a live state. Returns null when the
+ * entry has no usable position or a non-ICAO (`~` prefixed) address.
+ */
+export function mapDump1090Aircraft(
+  entry: Dump1090Aircraft,
+  now: number
+): LiveAircraftState | null {
+  const hex = entry.hex?.trim().toLowerCase();
+  if (!hex || !/^[0-9a-f]{6}$/.test(hex)) return null;
+  if (typeof entry.lat !== 'number' || typeof entry.lon !== 'number') {
+    return null;
+  }
+
+  const onGround = entry.alt_baro === 'ground';
+  const altitudeFeet =
+    typeof entry.alt_baro === 'number' ? entry.alt_baro : entry.alt_geom;
+  const verticalRateFpm = entry.baro_rate ?? entry.geom_rate;
+
+  return {
+    icao24: hex,
+    callsign: entry.flight?.trim() || undefined,
+    last_contact: Math.floor(now - (entry.seen ?? 0)),
+    longitude: entry.lon,
+    latitude: entry.lat,
+    altitude: onGround ? 0 : (altitudeFeet ?? 0) * FEET_TO_METERS,
+    on_ground: onGround,
+    velocity: (entry.gs ?? 0) * KNOTS_TO_MS,
+    heading: entry.track ?? 0,
+    vertical_rate: (verticalRateFpm ?? 0) * FPM_TO_MS,
+    squawk: entry.squawk,
+    geo_altitude:
+      typeof entry.alt_geom === 'number'
+        ? entry.alt_geom * FEET_TO_METERS
+        : null,
+    category: emitterCategoryFromCode(entry.category),
+    position_source: positionSourceFromType(entry.type),
+    time_position: Math.floor(now - (entry.seen_pos ?? entry.seen ?? 0)),
+  };
+}
+
+// Map readsb's `type` field onto the OpenSky position sources
+function positionSourceFromType(type: string | undefined): number | undefined {
+  if (!type) return undefined;
+  if (type.startsWith('adsb') || type.startsWith('adsr')) return 0;
+  if (type === 'mlat') return 2;
+  return undefined;
+}
+
+/**
+ * Live data provider reading a local dump1090/readsb receiver feed
+ */
+export class Dump1090Provider extends BaseLiveDataProvider {
+  public readonly name = 'dump1090';
+  public readonly maxIcaosPerRequest = 10000; // Local feed, no upstream limit
+
+  private readonly source: string;
+  private readonly pollInterval: number;
+  private readonly maxAge: number;
+  private snapshot: { fetchedAt: number; states: LiveAircraftState[] } | null =
+    null;
+  private snapshotRequest: Promise<LiveAircraftState[]> | null = null;
+
+  constructor(options: Dump1090ProviderOptions = {}) {
+    super();
+    this.source =
+      options.source ||
+      process.env.DUMP1090_AIRCRAFT_JSON ||
+      'http://localhost:8080/data/aircraft.json';
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+
+    // The snapshot already is our cache
+    this.cacheTtl = 0;
+    this.batchDelay = 0;
+  }
+
+  protected async fetchIcao24Batch(
+    icao24s: string[]
+  ): Promise<ProviderStatesResult> {
+    const wanted = new Set(icao24s);
+    const states = await this.getStates();
+    return {
+      states: states.filter((state) => wanted.has(state.icao24)),
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  protected async fetchBoundsStates(
+    bounds: BoundingBox
+  ): Promise<ProviderStatesResult> {
+    const states = await this.getStates();
+    return {
+      states: states.filter(
+        (state) =>
+          state.latitude >= bounds.minLat &&
+          state.latitude <= bounds.maxLat &&
+          state.longitude >= bounds.minLon &&
+          state.longitude <= bounds.maxLon
+      ),
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  public getRateLimitStatus(): ProviderRateLimitStatus {
+    return {
+      limited: false,
+      requestsThisMinute: 0,
+      requestsToday: 0,
+      maxRequestsPerMinute: null,
+      maxRequestsPerDay: null,
+      retryAfter: 0,
+    };
+  }
+
+  /**
+   * All aircraft currently seen by the receiver, merged with registry data
+   */
+  public async fetchAllAircraft(): Promise<Aircraft[]> {
+    const states = await this.getStates();
+    return enrichWithRegistryData(states);
+  }
+
+  public clearCache(): void {
+    super.clearCache();
+    this.snapshot = null;
+  }
+
+  /**
+   * Return the current snapshot, polling the feed when it is stale
+   */
+  private async getStates(): Promise<LiveAircraftState[]> {
+    if (
+      this.snapshot &&
+      Date.now() - this.snapshot.fetchedAt < this.pollInterval
+    ) {
+      return this.snapshot.states;
+    }
+
+    if (!this.snapshotRequest) {
+      this.snapshotRequest = this.readSnapshot()
+        .then((document) => {
+          const states = this.parseSnapshot(document);
+          this.snapshot = { fetchedAt: Date.now(), states };
+          return states;
+        })
+        .finally(() => {
+          this.snapshotRequest = null;
+        });
+    }
+
+    return this.snapshotRequest;
+  }
+
+  /**
+   * Read aircraft.json from a URL or the local filesystem
+   */
+  private async readSnapshot(): Promise<Dump1090Snapshot> {
+    try {
+      if (/^https?:\/\//i.test(this.source)) {
+        const response = await fetch(this.source, {
+          headers: { Accept: 'application/json' },
+        });
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        return (await response.json()) as Dump1090Snapshot;
+      }
+
+      const contents = await fs.readFile(this.source, 'utf8');
+      return JSON.parse(contents) as Dump1090Snapshot;
+    } catch (error) {
+      console.error(
+        `[dump1090 Provider] Failed to read ${this.source}:`,
+        error
+      );
+      throw new LiveDataProviderError(
+        `Receiver feed unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        503,
+        5
+      );
+    }
+  }
+
+  private parseSnapshot(document: Dump1090Snapshot): LiveAircraftState[] {
+    const now =
+      typeof document?.now === 'number' ? document.now : Date.now() / 1000;
+    const entries = Array.isArray(document?.aircraft) ? document.aircraft : [];
+
+    const states: LiveAircraftState[] = [];
+    for (const entry of entries) {
+      if ((entry.seen_pos ?? entry.seen ?? 0) > this.maxAge) continue;
+
+      const state = mapDump1090Aircraft(entry, now);
+      if (state) {
+        states.push(state);
+      }
+    }
+
+    console.log(
+      `[dump1090 Provider] ${states.length} of ${entries.length} aircraft with positions`
+    );
+    return states;
+  }
+}
@@ -0,0 +1,83 @@
+// lib/services/providers/ModeSProvider.ts
+import {
+  AvrFrameReader,
+  BeastFrameReader,
+  CprPosition,
+  ModeSTracker,
+} from '@/lib/services/modes';
+import { TcpFeedProvider } from './TcpFeedProvider';
+
+export type ModeSFraming = 'beast' | 'avr';
+
+const DEFAULT_HOST = 'localhost';
+const DEFAULT_PORTS: Record<ModeSFraming, number> = {
+  beast: 30005,
+  avr: 30002,
+};
+
+export interface ModeSProviderOptions {
+  host?: string;
+  port?: number;
+  framing?: ModeSFraming;
+  receiverPosition?: CprPosition; // Reference for single-frame CPR decoding
+  maxAge?: number; // ms
+}
+
+function receiverPositionFromEnv(): CprPosition | null {
+  const latitude = parseFloat(process.env.RECEIVER_LAT || '');
+  const longitude = parseFloat(process.env.RECEIVER_LON || '');
+  return Number.isFinite(latitude) && Number.isFinite(longitude)
+    ? { latitude, longitude }
+    : null;
+}
+
+/**
+ * Live data provider that decodes raw 1090ES frames itself, from a
+ * receiver's Beast binary (port 30005) or AVR text (port 30002) output.
+ */
+export class ModeSProvider extends TcpFeedProvider {
+  public readonly name = 'modes';
+
+  private readonly reader: BeastFrameReader | AvrFrameReader;
+  private readonly tracker: ModeSTracker;
+
+  constructor(options: ModeSProviderOptions = {}) {
+    const framing: ModeSFraming =
+      options.framing ||
+      (process.env.MODES_FORMAT?.toLowerCase() === 'avr' ? 'avr' : 'beast');
+
+    super({
+      host: options.host || process.env.MODES_HOST || DEFAULT_HOST,
+      port:
+        options.port ||
+        Number(process.env.MODES_PORT) ||
+        DEFAULT_PORTS[framing],
+      maxAge: options.maxAge,
+    });
+
+    this.reader =
+      framing === 'avr' ? new AvrFrameReader() : new BeastFrameReader();
+    this.tracker = new ModeSTracker(
+      this.store,
+      options.receiverPosition || receiverPositionFromEnv()
+    );
+  }
+
+  protected handleData(chunk: Buffer): void {
+    const now = Date.now();
+    for (const frame of this.reader.push(chunk)) {
+      if (this.tracker.handleFrame(frame, now)) {
+        this.messagesReceived++;
+      }
+    }
+  }
+
+  protected resetStream(): void {
+    this.reader.reset();
+  }
+
+  public clearCache(): void {
+    super.clearCache();
+    this.tracker.clear();
+  }
+}
@@ -0,0 +1,363 @@
+// lib/services/providers/OpenSkyProvider.ts
+import { API_CONFIG } from '@/config/api';
+import dbManager from '@/lib/db/DatabaseManager';
+import { openSkyAuth } from '@/lib/services/opensky-auth';
+import type { OpenSkyStateArray } from '@/types/base';
+import type { BoundingBox } from '@/types/regions';
+import { BaseLiveDataProvider } from './BaseLiveDataProvider';
+import { CreditScheduler, CreditSchedulerState } from './CreditScheduler';
+import {
+  AircraftTrack,
+  LiveAircraftState,
+  LiveDataProviderError,
+  ProviderRateLimitStatus,
+  ProviderStatesResult,
+} from './types';
+
+// Constants
+const MAX_ICAOS_PER_REQUEST = 100; // OpenSky limit
+const ANONYMOUS_DAILY_CREDITS = 400;
+const AUTHENTICATED_DAILY_CREDITS = 4000;
+const GLOBAL_QUERY_CREDITS = 4; // queries without a bounding box
+
+/**
+ * Live data provider backed by the OpenSky `/states/all` endpoint
+ */
+export class OpenSkyProvider extends BaseLiveDataProvider {
+  public readonly name = 'opensky';
+  public readonly maxIcaosPerRequest = MAX_ICAOS_PER_REQUEST;
+
+  // Requests are metered in API credits, synced from the response headers
+  private scheduler = new CreditScheduler({
+    name: 'OpenSky Provider',
+    dailyLimit: getDailyCreditLimit,
+  });
+
+  constructor() {
+    super();
+    // Credits and responses survive restarts and hot reloads
+    this.persistResponses = true;
+    void this.ensureRestored();
+  }
+
+  protected async fetchIcao24Batch(
+    icao24s: string[]
+  ): Promise<ProviderStatesResult> {
+    console.log(
+      `[OpenSky Provider] Fetching ${icao24s.length} aircraft from OpenSky API`
+    );
+
+    return this.fetchStates(
+      new URLSearchParams({
+        icao24: icao24s.join(','),
+        extended: '1',
+      }),
+      GLOBAL_QUERY_CREDITS
+    );
+  }
+
+  protected async fetchBoundsStates(
+    bounds: BoundingBox
+  ): Promise<ProviderStatesResult> {
+    console.log(
+      `[OpenSky Provider] Fetching aircraft within ${bounds.minLat},${bounds.minLon} - ${bounds.maxLat},${bounds.maxLon}`
+    );
+
+    return this.fetchStates(
+      new URLSearchParams({
+        lamin: String(bounds.minLat),
+        lamax: String(bounds.maxLat),
+        lomin: String(bounds.minLon),
+        lomax: String(bounds.maxLon),
+        extended: '1',
+      }),
+      boundsCreditCost(bounds)
+    );
+  }
+
+  /**
+   * Track of the current (or last) flight from `/tracks/all`
+   */
+  public async fetchTrack(icao24: string): Promise<AircraftTrack | null> {
+    console.log(`[OpenSky Provider] Fetching track for ${icao24}`);
+
+    // Track cost is not documented, so charge it like a global query
+    const params = new URLSearchParams({ icao24, time: '0' });
+    const response = await this.scheduledRequest(
+      GLOBAL_QUERY_CREDITS,
+      `${this.apiUrl()}/tracks/all?${params}`
+    );
+
+    // No flight known for this aircraft
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw this.responseError(response);
+    }
+
+    return parseTrack(await response.json());
+  }
+
+  public getRateLimitStatus(): ProviderRateLimitStatus {
+    const credits = this.scheduler.getBudget();
+    const requests = this.scheduler.getRequestCounts();
+
+    return {
+      limited: credits.retryAfter > 0,
+      requestsThisMinute: requests.lastMinute,
+      requestsToday: requests.today,
+      maxRequestsPerMinute: null,
+      maxRequestsPerDay: null,
+      retryAfter: credits.retryAfter,
+      credits,
+    };
+  }
+
+  /**
+   * Perform a single `/states/all` request
+   */
+  private async fetchStates(
+    params: URLSearchParams,
+    cost: number
+  ): Promise<ProviderStatesResult> {
+    const endpoint = `${this.apiUrl()}/states/all`;
+    const response = await this.scheduledRequest(cost, `${endpoint}?${params}`);
+
+    if (!response.ok) {
+      throw this.responseError(response);
+    }
+
+    // Parse the response
+    const data = await response.json();
+
+    return {
+      states: parseStateVectors(data?.states),
+      timestamp: data?.time || Date.now(),
+    };
+  }
+
+  protected async restorePersistedState(): Promise<void> {
+    await super.restorePersistedState();
+
+    const state = await dbManager.getProviderState<CreditSchedulerState>(
+      this.name
+    );
+    if (state) {
+      this.scheduler.restoreState(state);
+      console.log(
+        '[OpenSky Provider] Restored credit budget from the database'
+      );
+    }
+  }
+
+  /**
+   * Run a request through the credit scheduler and persist the new budget
+   */
+  private async scheduledRequest(cost: number, url: string): Promise<Response> {
+    await this.ensureRestored();
+
+    try {
+      return await this.scheduler.schedule(cost, () => this.request(url));
+    } finally {
+      dbManager
+        .saveProviderState(this.name, this.scheduler.exportState())
+        .catch((error) => {
+          console.error(
+            '[OpenSky Provider] Failed to persist credit budget:',
+            error
+          );
+        });
+    }
+  }
+
+  private apiUrl(): string {
+    return process.env.OPENSKY_API_URL || 'https://opensky-network.org/api';
+  }
+
+  private responseError(response: Response): LiveDataProviderError {
+    const message = `OpenSky API error: ${response.status} ${response.statusText}`;
+
+    if (response.status === 429) {
+      return new LiveDataProviderError(
+        message,
+        429,
+        this.scheduler.getRetryAfter() || 60
+      );
+    }
+    return new LiveDataProviderError(message, 503);
+  }
+
+  /**
+   * Authenticated GET; a rejected bearer token gets one retry with a fresh token
+   */
+  private async request(url: string): Promise<Response> {
+    const response = await this.send(url);
+
+    if (response.status === 401 && openSkyAuth.getStatus().mode === 'oauth2') {
+      console.log('[OpenSky Provider] Token rejected, retrying with a new one');
+      openSkyAuth.invalidateToken();
+      return this.send(url);
+    }
+
+    return response;
+  }
+
+  /**
+   * Single GET with auth headers and timeout
+   */
+  private async send(url: string): Promise<Response> {
+    let authHeaders: Record<string, string>;
+    try {
+      authHeaders = await openSkyAuth.getAuthHeaders();
+    } catch (error) {
+      throw new LiveDataProviderError(
+        error instanceof Error
+          ? error.message
+          : 'OpenSky authentication failed',
+        503
+      );
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      API_CONFIG.TIMEOUT?.DEFAULT || 20000
+    );
+
+    try {
+      return await fetch(url, {
+        headers: {
+          ...authHeaders,
+          Accept: 'application/json',
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new LiveDataProviderError('OpenSky API request timed out', 408);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Daily credits for the current auth mode, overridable with OPENSKY_DAILY_CREDITS
+ */
+function getDailyCreditLimit(): number {
+  const configured = parseInt(process.env.OPENSKY_DAILY_CREDITS || '', 10);
+  if (configured > 0) return configured;
+
+  return openSkyAuth.getStatus().mode === 'none'
+    ? ANONYMOUS_DAILY_CREDITS
+    : AUTHENTICATED_DAILY_CREDITS;
+}
+
+/**
+ * Credit cost of a `/states/all` query by bounding-box area (square degrees)
+ */
+export function boundsCreditCost(bounds: BoundingBox): number {
+  const area =
+    (bounds.maxLat - bounds.minLat) * (bounds.maxLon - bounds.minLon);
+
+  if (area <= 25) return 1;
+  if (area <= 100) return 2;
+  if (area <= 400) return 3;
+  return GLOBAL_QUERY_CREDITS;
+}
+
+/**
+ * Extract and format aircraft states from the raw OpenSky state arrays
+ */
+export function parseStateVectors(states: unknown): LiveAircraftState[] {
+  if (!Array.isArray(states)) {
+    return [];
+  }
+
+  return states
+    .filter(
+      (state: any[]) =>
+        Array.isArray(state) && state.length >= 8 && state[5] && state[6]
+    )
+    .map((state: any[]) => {
+      // OpenSky API returns an array with specific indexes
+      const [
+        icao24,
+        callsign,
+        origin_country,
+        time_position,
+        last_contact,
+        longitude,
+        latitude,
+        altitude,
+        on_ground,
+        velocity,
+        heading,
+        vertical_rate,
+        sensors,
+        geo_altitude,
+        squawk,
+        spi,
+        position_source,
+        category, // only present with extended=1
+      ] = state as OpenSkyStateArray;
+
+      return {
+        icao24: icao24?.toLowerCase(),
+        callsign: callsign?.trim(),
+        origin_country,
+        time_position: time_position ?? null,
+        last_contact,
+        longitude,
+        latitude,
+        altitude: altitude || 0,
+        on_ground: !!on_ground,
+        velocity: velocity || 0,
+        heading: heading || 0,
+        vertical_rate: vertical_rate || 0,
+        sensors: Array.isArray(sensors) ? sensors : null,
+        geo_altitude: typeof geo_altitude === 'number' ? geo_altitude : null,
+        squawk: squawk || undefined,
+        spi: !!spi,
+        position_source:
+          typeof position_source === 'number' ? position_source : undefined,
+        category: typeof category === 'number' ? category : undefined,
+      };
+    });
+}
+
+/**
+ * Convert a raw `/tracks/all` response. Waypoints are
+ * [time, latitude, longitude, baro_altitude, true_track, on_ground].
+ */
+export function parseTrack(data: any): AircraftTrack | null {
+  if (!data || !Array.isArray(data.path)) {
+    return null;
+  }
+
+  return {
+    icao24: String(data.icao24 || '').toLowerCase(),
+    callsign: data.callsign?.trim() || undefined,
+    startTime: data.startTime,
+    endTime: data.endTime,
+    path: data.path
+      .filter(
+        (point: any[]) =>
+          Array.isArray(point) &&
+          typeof point[1] === 'number' &&
+          typeof point[2] === 'number'
+      )
+      .map((point: any[]) => ({
+        time: point[0],
+        latitude: point[1],
+        longitude: point[2],
+        altitude: typeof point[3] === 'number' ? point[3] : null,
+        heading: typeof point[4] === 'number' ? point[4] : null,
+        on_ground: !!point[5],
+      })),
+  };
+}
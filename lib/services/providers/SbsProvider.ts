@@ -0,0 +1,51 @@
+// lib/services/providers/SbsProvider.ts
+import { parseSbsMessage, sbsMessageToUpdate } from './sbs-parser';
+import { TcpFeedProvider } from './TcpFeedProvider';
+
+const DEFAULT_HOST = 'localhost';
+const DEFAULT_PORT = 30003;
+
+export interface SbsProviderOptions {
+  host?: string;
+  port?: number;
+  maxAge?: number; // ms
+}
+
+/**
+ * Live data provider fed by a BaseStation-format (SBS-1, port 30003) TCP
+ * stream. Aircraft state is assembled in memory from the partial
+ * MSG,1..8 lines.
+ */
+export class SbsProvider extends TcpFeedProvider {
+  public readonly name = 'sbs';
+
+  private buffer = '';
+
+  constructor(options: SbsProviderOptions = {}) {
+    super({
+      host: options.host || process.env.SBS_HOST || DEFAULT_HOST,
+      port: options.port || Number(process.env.SBS_PORT) || DEFAULT_PORT,
+      maxAge: options.maxAge,
+    });
+  }
+
+  protected handleData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() || '';
+
+    const now = Date.now();
+    for (const line of lines) {
+      const message = parseSbsMessage(line);
+      if (!message) continue;
+
+      this.messagesReceived++;
+      this.store.update(message.icao24, sbsMessageToUpdate(message), now);
+    }
+  }
+
+  protected resetStream(): void {
+    this.buffer = '';
+  }
+}
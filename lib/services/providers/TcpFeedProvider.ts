@@ -0,0 +1,182 @@
+// lib/services/providers/TcpFeedProvider.ts
+import net from 'net';
+import type { BoundingBox } from '@/types/regions';
+import { AircraftStateStore } from './AircraftStateStore';
+import { BaseLiveDataProvider } from './BaseLiveDataProvider';
+import {
+  LiveDataProviderError,
+  ProviderRateLimitStatus,
+  ProviderStatesResult,
+} from './types';
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+export interface TcpFeedOptions {
+  host: string;
+  port: number;
+  maxAge?: number; // ms
+}
+
+/**
+ * Base for providers fed by a receiver's TCP output port. The connection
+ * is opened on first use and kept open (reconnecting with backoff); the
+ * subclass decodes the stream into the shared state store.
+ */
+export abstract class TcpFeedProvider extends BaseLiveDataProvider {
+  public readonly maxIcaosPerRequest = 10000; // Local feed, no upstream limit
+
+  protected readonly host: string;
+  protected readonly port: number;
+  protected readonly store: AircraftStateStore;
+  protected messagesReceived = 0;
+
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private stopped = false;
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: TcpFeedOptions) {
+    super();
+    this.host = options.host;
+    this.port = options.port;
+    this.store = new AircraftStateStore(options.maxAge);
+
+    // State is already held in memory
+    this.cacheTtl = 0;
+    this.batchDelay = 0;
+  }
+
+  /**
+   * Decode a chunk of the stream into the state store
+   */
+  protected abstract handleData(chunk: Buffer): void;
+
+  /**
+   * Reset any partial-frame state when the connection drops
+   */
+  protected abstract resetStream(): void;
+
+  /**
+   * Open the TCP connection (no-op when already connected)
+   */
+  public start(): void {
+    this.stopped = false;
+    if (this.socket) return;
+
+    console.log(`[${this.name}] Connecting to ${this.host}:${this.port}`);
+    const socket = net.createConnection({ host: this.host, port: this.port });
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      console.log(`[${this.name}] Connected to ${this.host}:${this.port}`);
+      this.connected = true;
+      this.reconnectDelay = MIN_RECONNECT_DELAY;
+    });
+
+    socket.on('data', (chunk: Buffer) => this.handleData(chunk));
+
+    socket.on('error', (error) => {
+      console.error(`[${this.name}] Socket error:`, error.message);
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      this.socket = null;
+      this.resetStream();
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  public stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.destroy();
+    this.socket = null;
+    this.connected = false;
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public getMessageCount(): number {
+    return this.messagesReceived;
+  }
+
+  protected async fetchIcao24Batch(
+    icao24s: string[]
+  ): Promise<ProviderStatesResult> {
+    this.ensureFeed();
+    return {
+      states: this.store.getStatesByIcao24s(icao24s),
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  protected async fetchBoundsStates(
+    bounds: BoundingBox
+  ): Promise<ProviderStatesResult> {
+    this.ensureFeed();
+    return {
+      states: this.store.getStatesInBounds(bounds),
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  public getRateLimitStatus(): ProviderRateLimitStatus {
+    return {
+      limited: false,
+      requestsThisMinute: 0,
+      requestsToday: 0,
+      maxRequestsPerMinute: null,
+      maxRequestsPerDay: null,
+      retryAfter: 0,
+    };
+  }
+
+  public clearCache(): void {
+    super.clearCache();
+    this.store.clear();
+  }
+
+  /**
+   * Start the feed on first use; report an error until it has data
+   */
+  private ensureFeed(): void {
+    this.start();
+    if (!this.connected && this.store.size === 0) {
+      throw new LiveDataProviderError(
+        `Feed ${this.host}:${this.port} is not connected`,
+        503,
+        Math.ceil(this.reconnectDelay / 1000)
+      );
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    console.log(
+      `[${this.name}] Connection closed, reconnecting in ${this.reconnectDelay / 1000}s`
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.start();
+    }, this.reconnectDelay);
+
+    this.reconnectDelay = Math.min(
+      this.reconnectDelay * 2,
+      MAX_RECONNECT_DELAY
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// lib/services/providers/index.ts
+import { OpenSkyProvider } from './OpenSkyProvider';
+import { Dump1090Provider } from './Dump1090Provider';
+import { SbsProvider } from './SbsProvider';
+import { ModeSProvider } from './ModeSProvider';
+import type { LiveDataProvider } from './types';
+
+export * from './types';
+export {
+  BaseLiveDataProvider,
+  normalizeBoundingBox,
+  normalizeIcao24s,
+} from './BaseLiveDataProvider';
+export { recordLastSeen, getLastSeen } from './last-seen';
+
+const DEFAULT_PROVIDER = 'opensky';
+
+// Factories for the providers we know how to build
+const providerFactories = new Map<string, () => LiveDataProvider>([
+  ['opensky', () => new OpenSkyProvider()],
+  ['dump1090', () => new Dump1090Provider()],
+  ['sbs', () => new SbsProvider()],
+  ['modes', () => new ModeSProvider()],
+]);
+
+// Providers are stateful (rate limits, caches), so keep one of each
+const providerInstances = new Map<string, LiveDataProvider>();
+
+/**
+ * Register an additional live data provider under a name
+ */
+export function registerLiveDataProvider(
+  name: string,
+  factory: () => LiveDataProvider
+): void {
+  providerFactories.set(name.toLowerCase(), factory);
+  providerInstances.delete(name.toLowerCase());
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getAvailableProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Get a provider by name, defaulting to LIVE_DATA_PROVIDER (or OpenSky)
+ */
+export function getLiveDataProvider(name?: string): LiveDataProvider {
+  const requested = (
+    name ||
+    process.env.LIVE_DATA_PROVIDER ||
+    DEFAULT_PROVIDER
+  ).toLowerCase();
+
+  const key = providerFactories.has(requested) ? requested : DEFAULT_PROVIDER;
+  if (key !== requested) {
+    console.warn(
+      `[Providers] Unknown provider "${requested}", falling back to ${DEFAULT_PROVIDER}`
+    );
+  }
+
+  let provider = providerInstances.get(key);
+  if (!provider) {
+    provider = providerFactories.get(key)!();
+    providerInstances.set(key, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,37 @@
+// lib/services/providers/last-seen.ts
+import type { LiveAircraftState } from './types';
+
+// Enough for a few busy regions; the oldest entries go first
+const MAX_ENTRIES = 50000;
+
+// icao24 -> last_contact (seconds since epoch), least recently seen first
+const lastSeen = new Map<string, number>();
+
+/**
+ * Remember when aircraft were last heard by any provider
+ */
+export function recordLastSeen(states: LiveAircraftState[]): void {
+  for (const state of states) {
+    if (!state?.icao24 || !Number.isFinite(state.last_contact)) continue;
+
+    const icao24 = state.icao24.toLowerCase();
+    const previous = lastSeen.get(icao24);
+    if (previous !== undefined && previous > state.last_contact) continue;
+
+    // Re-insert so the map stays ordered by recency
+    lastSeen.delete(icao24);
+    lastSeen.set(icao24, state.last_contact);
+  }
+
+  while (lastSeen.size > MAX_ENTRIES) {
+    const oldest = lastSeen.keys().next().value as string;
+    lastSeen.delete(oldest);
+  }
+}
+
+/**
+ * Last contact of an aircraft seen by this server, in seconds since epoch
+ */
+export function getLastSeen(icao24: string): number | null {
+  return lastSeen.get(icao24.toLowerCase()) ?? null;
+}
@@ -0,0 +1,93 @@
+// lib/services/providers/registry-enrichment.ts
+import type { Aircraft } from '@/types/base';
+import dbManager from '../../db/DatabaseManager';
+import { icao24ToNNumber } from '../../../utils/n-number';
+import { getAllocationFields } from '../../../utils/icao-allocations';
+import type { LiveAircraftState } from './types';
+
+/**
+ * Load registry rows for the given ICAO24s, keyed by lowercase ICAO24
+ */
+export async function loadRegistryRecords(
+  icao24s: string[]
+): Promise<Record<string, any>> {
+  if (icao24s.length === 0) {
+    return {};
+  }
+
+  const staticData = await dbManager.getAircraftByIcao24s(icao24s);
+
+  // Create a lookup map for faster merging
+  return staticData.reduce((map: Record<string, any>, aircraft) => {
+    if (aircraft.icao24) {
+      map[aircraft.icao24.toLowerCase()] = aircraft;
+    }
+    return map;
+  }, {});
+}
+
+// Registration derived from the Mode S address of US aircraft missing
+// from the registry table
+function registrationFields(icao24: string): Record<string, string> {
+  const nNumber = icao24ToNNumber(icao24);
+  return nNumber ? { 'N-NUMBER': nNumber.slice(1), registration: nNumber } : {};
+}
+
+/**
+ * Merge a live state with its registry row (if any) into an Aircraft record
+ */
+export function mergeLiveWithRegistry(
+  liveAircraft: LiveAircraftState,
+  registry: Record<string, any> | undefined,
+  manufacturer?: string
+): Aircraft {
+  const icao = liveAircraft.icao24.toLowerCase();
+  const staticData = registry || {};
+
+  // Registry columns mapped onto the Aircraft field names used by the UI
+  const registryFields = registry
+    ? {
+        'N-NUMBER': registry.n_number || '',
+        manufacturer: registry.manufacturer || manufacturer || '',
+        model: registry.model || '',
+        NAME: registry.name || '',
+        CITY: registry.city || '',
+        STATE: registry.state || '',
+        TYPE_AIRCRAFT: registry.type_aircraft || '',
+        OWNER_TYPE: registry.owner_type || '',
+      }
+    : registrationFields(icao);
+
+  return {
+    ...staticData,
+    ...registryFields,
+    ...getAllocationFields(icao),
+    ...liveAircraft,
+    // Ensure consistent icao24 format
+    icao24: icao,
+    isTracked: true,
+    // Add tracking metadata
+    _tracking: {
+      manufacturer,
+      lastSeen: Date.now(),
+    },
+  } as unknown as Aircraft;
+}
+
+/**
+ * Merge registry data from the database into a list of live states
+ */
+export async function enrichWithRegistryData(
+  states: LiveAircraftState[],
+  manufacturer?: string
+): Promise<Aircraft[]> {
+  const registry = await loadRegistryRecords(states.map((s) => s.icao24));
+
+  return states.map((state) =>
+    mergeLiveWithRegistry(
+      state,
+      registry[state.icao24.toLowerCase()],
+      manufacturer
+    )
+  );
+}
@@ -0,0 +1,187 @@
+// lib/services/providers/sbs-parser.ts
+import type { AircraftStateUpdate } from './AircraftStateStore';
+
+// Unit conversions into the OpenSky state vector units
+const FEET_TO_METERS = 0.3048;
+const KNOTS_TO_MS = 0.514444;
+const FPM_TO_MS = 0.00508;
+
+/**
+ * BaseStation transmission types (MSG,1 .. MSG,8)
+ */
+export enum SbsTransmissionType {
+  IDENTIFICATION = 1,
+  SURFACE_POSITION = 2,
+  AIRBORNE_POSITION = 3,
+  AIRBORNE_VELOCITY = 4,
+  SURVEILLANCE_ALTITUDE = 5,
+  SURVEILLANCE_ID = 6,
+  AIR_TO_AIR = 7,
+  ALL_CALL_REPLY = 8,
+}
+
+/**
+ * One decoded line of a BaseStation (port 30003) stream
+ */
+export interface SbsMessage {
+  transmissionType: SbsTransmissionType;
+  icao24: string;
+  callsign?: string;
+  altitude?: number; // feet
+  groundSpeed?: number; // knots
+  track?: number; // degrees
+  latitude?: number;
+  longitude?: number;
+  verticalRate?: number; // feet/minute
+  squawk?: string;
+  alert?: boolean;
+  emergency?: boolean;
+  spi?: boolean;
+  onGround?: boolean;
+}
+
+// Field positions in the comma separated line
+const FIELD = {
+  MESSAGE_TYPE: 0,
+  TRANSMISSION_TYPE: 1,
+  HEX_IDENT: 4,
+  CALLSIGN: 10,
+  ALTITUDE: 11,
+  GROUND_SPEED: 12,
+  TRACK: 13,
+  LATITUDE: 14,
+  LONGITUDE: 15,
+  VERTICAL_RATE: 16,
+  SQUAWK: 17,
+  ALERT: 18,
+  EMERGENCY: 19,
+  SPI: 20,
+  IS_ON_GROUND: 21,
+} as const;
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// BaseStation flags are -1 for true and 0 for false
+function parseFlag(value: string | undefined): boolean | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  return value.trim() !== '0';
+}
+
+function parseString(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Parse a single BaseStation line. Returns null for anything that is not
+ * a well-formed MSG line (SEL, ID, AIR, STA and CLK lines are ignored).
+ */
+export function parseSbsMessage(line: string): SbsMessage | null {
+  const fields = line.trim().split(',');
+  if (fields.length < 11 || fields[FIELD.MESSAGE_TYPE] !== 'MSG') {
+    return null;
+  }
+
+  const transmissionType = Number(fields[FIELD.TRANSMISSION_TYPE]);
+  if (!(transmissionType >= 1 && transmissionType <= 8)) {
+    return null;
+  }
+
+  const icao24 = fields[FIELD.HEX_IDENT]?.trim().toLowerCase();
+  if (!icao24 || !/^[0-9a-f]{6}$/.test(icao24)) {
+    return null;
+  }
+
+  return {
+    transmissionType,
+    icao24,
+    callsign: parseString(fields[FIELD.CALLSIGN]),
+    altitude: parseNumber(fields[FIELD.ALTITUDE]),
+    groundSpeed: parseNumber(fields[FIELD.GROUND_SPEED]),
+    track: parseNumber(fields[FIELD.TRACK]),
+    latitude: parseNumber(fields[FIELD.LATITUDE]),
+    longitude: parseNumber(fields[FIELD.LONGITUDE]),
+    verticalRate: parseNumber(fields[FIELD.VERTICAL_RATE]),
+    squawk: parseString(fields[FIELD.SQUAWK]),
+    alert: parseFlag(fields[FIELD.ALERT]),
+    emergency: parseFlag(fields[FIELD.EMERGENCY]),
+    spi: parseFlag(fields[FIELD.SPI]),
+    onGround: parseFlag(fields[FIELD.IS_ON_GROUND]),
+  };
+}
+
+/**
+ * Convert a BaseStation message into a state update, keeping only the
+ * fields each transmission type is defined to carry.
+ */
+export function sbsMessageToUpdate(message: SbsMessage): AircraftStateUpdate {
+  const update: AircraftStateUpdate = { spi: message.spi };
+  const hasPosition =
+    message.latitude !== undefined && message.longitude !== undefined;
+
+  switch (message.transmissionType) {
+    case SbsTransmissionType.IDENTIFICATION:
+      update.callsign = message.callsign;
+      break;
+
+    case SbsTransmissionType.SURFACE_POSITION:
+      update.on_ground = true;
+      update.altitude = 0;
+      if (message.groundSpeed !== undefined) {
+        update.velocity = message.groundSpeed * KNOTS_TO_MS;
+      }
+      update.heading = message.track;
+      if (hasPosition) {
+        update.latitude = message.latitude;
+        update.longitude = message.longitude;
+      }
+      break;
+
+    case SbsTransmissionType.AIRBORNE_POSITION:
+      if (message.altitude !== undefined) {
+        update.altitude = message.altitude * FEET_TO_METERS;
+      }
+      if (hasPosition) {
+        update.latitude = message.latitude;
+        update.longitude = message.longitude;
+      }
+      update.on_ground = message.onGround;
+      break;
+
+    case SbsTransmissionType.AIRBORNE_VELOCITY:
+      if (message.groundSpeed !== undefined) {
+        update.velocity = message.groundSpeed * KNOTS_TO_MS;
+      }
+      update.heading = message.track;
+      if (message.verticalRate !== undefined) {
+        update.vertical_rate = message.verticalRate * FPM_TO_MS;
+      }
+      break;
+
+    case SbsTransmissionType.SURVEILLANCE_ALTITUDE:
+    case SbsTransmissionType.AIR_TO_AIR:
+      if (message.altitude !== undefined) {
+        update.altitude = message.altitude * FEET_TO_METERS;
+      }
+      update.on_ground = message.onGround;
+      break;
+
+    case SbsTransmissionType.SURVEILLANCE_ID:
+      if (message.altitude !== undefined) {
+        update.altitude = message.altitude * FEET_TO_METERS;
+      }
+      update.squawk = message.squawk;
+      update.on_ground = message.onGround;
+      break;
+
+    case SbsTransmissionType.ALL_CALL_REPLY:
+      update.on_ground = message.onGround;
+      break;
+  }
+
+  return update;
+}
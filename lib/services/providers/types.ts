@@ -0,0 +1,117 @@
+// lib/services/providers/types.ts
+import type { BoundingBox } from '@/types/regions';
+
+/**
+ * Live position state for a single aircraft, normalized across providers.
+ * Units follow the OpenSky state vector (meters, m/s, degrees).
+ */
+export interface LiveAircraftState {
+  icao24: string;
+  callsign?: string;
+  origin_country?: string;
+  last_contact: number;
+  longitude: number;
+  latitude: number;
+  altitude: number;
+  on_ground: boolean;
+  velocity: number;
+  heading: number;
+  vertical_rate: number;
+  squawk?: string;
+  geo_altitude?: number | null; // meters
+  spi?: boolean; // special position indicator ("ident")
+  position_source?: number; // 0 ADS-B, 1 ASTERIX, 2 MLAT, 3 FLARM
+  category?: number; // emitter category, OpenSky numbering
+  time_position?: number | null; // seconds since epoch of the last position
+  sensors?: number[] | null; // receiver IDs contributing to the state
+}
+
+/**
+ * Result of a single provider query
+ */
+export interface ProviderStatesResult {
+  states: LiveAircraftState[];
+  timestamp: number;
+  failedBatches?: number; // ICAO24 batches left out of a partial result
+}
+
+/**
+ * One waypoint of a flight track
+ */
+export interface TrackPoint {
+  time: number; // seconds since epoch
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // meters (barometric)
+  heading: number | null;
+  on_ground: boolean;
+}
+
+/**
+ * Full track of an aircraft's current or most recent flight
+ */
+export interface AircraftTrack {
+  icao24: string;
+  callsign?: string;
+  startTime: number; // seconds since epoch
+  endTime: number;
+  path: TrackPoint[];
+}
+
+/**
+ * Remaining API credits of a credit-metered provider
+ */
+export interface CreditBudget {
+  dailyLimit: number;
+  remaining: number;
+  estimated: boolean; // false once upstream has reported the remaining credits
+  queued: number; // requests waiting for the scheduler
+  retryAfter: number; // seconds, 0 when requests may go out
+  resetsAt: number; // ms since epoch
+}
+
+/**
+ * Current rate-limit standing of a provider
+ */
+export interface ProviderRateLimitStatus {
+  limited: boolean;
+  requestsThisMinute: number;
+  requestsToday: number;
+  maxRequestsPerMinute: number | null;
+  maxRequestsPerDay: number | null;
+  retryAfter: number; // seconds, 0 when not limited
+  credits?: CreditBudget;
+}
+
+/**
+ * A source of live aircraft states (OpenSky, a local receiver, ...)
+ */
+export interface LiveDataProvider {
+  readonly name: string;
+  readonly maxIcaosPerRequest: number;
+
+  fetchStatesByIcao24s(icao24s: string[]): Promise<ProviderStatesResult>;
+  fetchStatesByBounds(bounds: BoundingBox): Promise<ProviderStatesResult>;
+  getRateLimitStatus(): ProviderRateLimitStatus;
+  clearCache(): void;
+
+  /**
+   * Track of the current or last flight; null when the provider has none.
+   * Optional, since receiver feeds only know the present.
+   */
+  fetchTrack?(icao24: string): Promise<AircraftTrack | null>;
+}
+
+/**
+ * Error raised by a provider; carries the HTTP status the proxy should return
+ */
+export class LiveDataProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 503,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'LiveDataProviderError';
+  }
+}
@@ -0,0 +1,122 @@
+// lib/services/registry/faa-files.ts
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { Readable } from 'stream';
+import { listZipEntries, openZipEntry } from './zip-reader';
+
+/**
+ * Files of the FAA releasable aircraft database we import
+ */
+export type FaaFileName = 'MASTER' | 'ACFTREF' | 'ENGINE';
+
+export class FaaSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FaaSourceError';
+  }
+}
+
+/**
+ * Split one line of an FAA file. The files are plain comma-separated with
+ * space padding; quotes are handled in case a release ever uses them.
+ */
+export function splitFaaLine(line: string): string[] {
+  if (!line.includes('"')) {
+    return line.split(',').map((field) => field.trim());
+  }
+
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Open a file (e.g. MASTER.txt) from a release zip or an extracted directory
+ */
+async function openFaaFile(
+  source: string,
+  file: FaaFileName
+): Promise<Readable> {
+  const fileName = `${file}.TXT`;
+  const stat = await fs.promises.stat(source).catch(() => null);
+  if (!stat) {
+    throw new FaaSourceError(`FAA source not found: ${source}`);
+  }
+
+  if (stat.isDirectory()) {
+    const match = (await fs.promises.readdir(source)).find(
+      (name) => name.toUpperCase() === fileName
+    );
+    if (!match) {
+      throw new FaaSourceError(`${fileName} not found in ${source}`);
+    }
+    return fs.createReadStream(path.join(source, match));
+  }
+
+  // Entries may sit inside a folder within the archive
+  const entry = (await listZipEntries(source)).find(
+    (candidate) =>
+      path.posix.basename(candidate.name).toUpperCase() === fileName
+  );
+  if (!entry) {
+    throw new FaaSourceError(`${fileName} not found in ${source}`);
+  }
+  return openZipEntry(source, entry);
+}
+
+/**
+ * Stream the records of an FAA file keyed by its (upper-cased) header names
+ */
+export async function* readFaaRecords(
+  source: string,
+  file: FaaFileName
+): AsyncGenerator<Record<string, string>> {
+  const stream = await openFaaFile(source, file);
+  const lines = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+
+  let header: string[] | null = null;
+  try {
+    for await (const rawLine of lines) {
+      if (!header) {
+        // Header line; releases start with a UTF-8 byte order mark
+        header = splitFaaLine(rawLine.replace(/^\uFEFF/, '')).map((name) =>
+          name.toUpperCase()
+        );
+        continue;
+      }
+      if (!rawLine.trim()) continue;
+
+      const fields = splitFaaLine(rawLine);
+      const record: Record<string, string> = {};
+      header.forEach((name, index) => {
+        if (name) record[name] = fields[index] ?? '';
+      });
+      yield record;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
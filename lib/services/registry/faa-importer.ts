@@ -0,0 +1,212 @@
+// lib/services/registry/faa-importer.ts
+import dbManager, { RegistryChanges } from '../../db/DatabaseManager';
+import type { RegistryRow } from '../../../types/database';
+import { readFaaRecords } from './faa-files';
+
+const SAMPLE_SIZE = 10;
+
+export interface FaaImportOptions {
+  dryRun?: boolean; // compute the report without writing
+  keepRemoved?: boolean; // keep rows that are no longer in the release
+  log?: (message: string) => void;
+}
+
+export interface FaaImportReport {
+  source: string;
+  total: number; // MASTER records with a usable Mode S address
+  skipped: number; // MASTER records without one
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  dryRun: boolean;
+  durationMs: number;
+  samples: { added: string[]; changed: string[]; removed: string[] };
+}
+
+interface ModelReference {
+  manufacturer: string;
+  model: string;
+  numEngines: number | null;
+  numSeats: number | null;
+  weightClass: string | null;
+}
+
+interface EngineReference {
+  manufacturer: string;
+  model: string;
+}
+
+function text(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function integer(value: string | undefined): number | null {
+  const parsed = parseInt(value?.trim() || '', 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Map a MASTER record onto registry columns, joining the model and engine
+ * references. Returns null when the record has no Mode S address.
+ */
+export function mapMasterRecord(
+  record: Record<string, string>,
+  models: Map<string, ModelReference>,
+  engines: Map<string, EngineReference>
+): RegistryRow | null {
+  const icao24 = record['MODE S CODE HEX']?.trim().toLowerCase();
+  if (!icao24 || !/^[0-9a-f]{6}$/.test(icao24)) {
+    return null;
+  }
+
+  const model = models.get(record['MFR MDL CODE']?.trim() || '');
+  const engine = engines.get(record['ENG MFR MDL']?.trim() || '');
+  const name = text(record['NAME']);
+
+  return {
+    icao24,
+    n_number: text(record['N-NUMBER']),
+    serial_number: text(record['SERIAL NUMBER']),
+    manufacturer: text(model?.manufacturer),
+    model: text(model?.model),
+    year_mfr: integer(record['YEAR MFR']),
+    owner: name,
+    name,
+    city: text(record['CITY']),
+    state: text(record['STATE']),
+    country: text(record['COUNTRY']),
+    type_aircraft: text(record['TYPE AIRCRAFT']),
+    type_engine: text(record['TYPE ENGINE']),
+    owner_type: text(record['TYPE REGISTRANT']),
+    engine_manufacturer: text(engine?.manufacturer),
+    engine_model: text(engine?.model),
+    num_engines: model?.numEngines ?? null,
+    num_seats: model?.numSeats ?? null,
+    weight_class: model?.weightClass ?? null,
+    status_code: text(record['STATUS CODE']),
+  };
+}
+
+function sameRegistryRow(a: RegistryRow, b: RegistryRow): boolean {
+  return (Object.keys(a) as (keyof RegistryRow)[]).every(
+    (column) => String(a[column] ?? '') === String(b[column] ?? '')
+  );
+}
+
+async function loadModels(
+  source: string
+): Promise<Map<string, ModelReference>> {
+  const models = new Map<string, ModelReference>();
+  for await (const record of readFaaRecords(source, 'ACFTREF')) {
+    models.set(record['CODE'], {
+      manufacturer: record['MFR'],
+      model: record['MODEL'],
+      numEngines: integer(record['NO-ENG']),
+      numSeats: integer(record['NO-SEATS']),
+      weightClass: text(record['AC-WEIGHT']),
+    });
+  }
+  return models;
+}
+
+async function loadEngines(
+  source: string
+): Promise<Map<string, EngineReference>> {
+  const engines = new Map<string, EngineReference>();
+  for await (const record of readFaaRecords(source, 'ENGINE')) {
+    engines.set(record['CODE'], {
+      manufacturer: record['MFR'],
+      model: record['MODEL'],
+    });
+  }
+  return engines;
+}
+
+/**
+ * Rebuild the aircraft registry from an FAA releasable database
+ * (ReleasableAircraft.zip or its extracted directory).
+ */
+export async function importFaaRegistry(
+  source: string,
+  options: FaaImportOptions = {}
+): Promise<FaaImportReport> {
+  const log =
+    options.log || ((message) => console.log(`[FAA Import] ${message}`));
+  const startedAt = Date.now();
+
+  const models = await loadModels(source);
+  const engines = await loadEngines(source);
+  log(`Loaded ${models.size} aircraft models and ${engines.size} engines`);
+
+  const existing = await dbManager.getRegistrySnapshot();
+  const existingByIcao = new Map<string, { key: string; row: RegistryRow }>();
+  existing.forEach((row, key) => {
+    existingByIcao.set(key.toLowerCase(), { key, row });
+  });
+  log(`Registry currently holds ${existing.size} aircraft`);
+
+  const changes: RegistryChanges = { added: [], changed: [], removed: [] };
+  const seen = new Set<string>();
+  let total = 0;
+  let skipped = 0;
+  let unchanged = 0;
+
+  for await (const record of readFaaRecords(source, 'MASTER')) {
+    const row = mapMasterRecord(record, models, engines);
+    if (!row) {
+      skipped++;
+      continue;
+    }
+    if (seen.has(row.icao24)) continue; // first registration wins
+    seen.add(row.icao24);
+    total++;
+
+    const current = existingByIcao.get(row.icao24);
+    if (!current) {
+      changes.added.push(row);
+    } else if (
+      current.key !== row.icao24 ||
+      !sameRegistryRow(current.row, row)
+    ) {
+      changes.changed.push({ key: current.key, row });
+    } else {
+      unchanged++;
+    }
+  }
+
+  if (!options.keepRemoved) {
+    existingByIcao.forEach(({ key }, icao24) => {
+      if (!seen.has(icao24)) changes.removed.push(key);
+    });
+  }
+
+  if (!options.dryRun) {
+    await dbManager.applyRegistryChanges(changes);
+  }
+
+  const report: FaaImportReport = {
+    source,
+    total,
+    skipped,
+    added: changes.added.length,
+    changed: changes.changed.length,
+    removed: changes.removed.length,
+    unchanged,
+    dryRun: !!options.dryRun,
+    durationMs: Date.now() - startedAt,
+    samples: {
+      added: changes.added.slice(0, SAMPLE_SIZE).map((row) => row.icao24),
+      changed: changes.changed
+        .slice(0, SAMPLE_SIZE)
+        .map(({ row }) => row.icao24),
+      removed: changes.removed.slice(0, SAMPLE_SIZE),
+    },
+  };
+
+  log(
+    `${options.dryRun ? 'Dry run: would add' : 'Added'} ${report.added}, changed ${report.changed}, removed ${report.removed} (${report.unchanged} unchanged, ${report.skipped} without Mode S address)`
+  );
+  return report;
+}
@@ -0,0 +1,140 @@
+// lib/services/registry/zip-reader.ts
+import fs from 'fs';
+import { Readable } from 'stream';
+import zlib from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+/**
+ * List the entries of a zip archive from its central directory.
+ * Zip64 archives are not supported.
+ */
+export async function listZipEntries(zipPath: string): Promise<ZipEntry[]> {
+  const handle = await fs.promises.open(zipPath, 'r');
+
+  try {
+    const { size: fileSize } = await handle.stat();
+
+    // The end-of-central-directory record sits within the last 64 KiB
+    const tailSize = Math.min(fileSize, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+    const tail = Buffer.alloc(tailSize);
+    await handle.read(tail, 0, tailSize, fileSize - tailSize);
+
+    let eocd = -1;
+    for (let i = tailSize - EOCD_MIN_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new ZipFormatError(`${zipPath} is not a zip archive`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new ZipFormatError('Zip64 archives are not supported');
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new ZipFormatError('Corrupt central directory');
+      }
+
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+
+      entries.push({
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        size: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+        name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream the uncompressed contents of a single zip entry
+ */
+export async function openZipEntry(
+  zipPath: string,
+  entry: ZipEntry
+): Promise<Readable> {
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new ZipFormatError(
+      `Unsupported compression method ${entry.method} for ${entry.name}`
+    );
+  }
+
+  // The local header repeats name and extra field with its own lengths
+  const handle = await fs.promises.open(zipPath, 'r');
+  let dataOffset: number;
+  try {
+    const header = Buffer.alloc(30);
+    await handle.read(header, 0, 30, entry.localHeaderOffset);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt local header for ${entry.name}`);
+    }
+    dataOffset =
+      entry.localHeaderOffset +
+      30 +
+      header.readUInt16LE(26) +
+      header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+
+  const raw = fs.createReadStream(zipPath, {
+    start: dataOffset,
+    end: dataOffset + entry.compressedSize - 1,
+  });
+  if (entry.method === METHOD_STORED) {
+    return raw;
+  }
+
+  const inflate = zlib.createInflateRaw();
+  raw.on('error', (error) => inflate.destroy(error));
+  return raw.pipe(inflate);
+}
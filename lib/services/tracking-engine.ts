@@ -0,0 +1,321 @@
+// lib/services/tracking-engine.ts
+import type { Aircraft } from '../../types/base';
+import dbManager from '../db/DatabaseManager';
+import { fetchLiveAircraftData, TRACKING_REFRESH_MS } from './live-tracking';
+import type { LiveAircraftState } from './providers';
+import {
+  AircraftDelta,
+  DEFAULT_FULL_REFRESH_MS,
+  diffAircraft,
+  fetchSubscriptionAircraft,
+  isEmptyDelta,
+  subscriptionKey,
+  toSubscriptionAircraft,
+  TrackingSubscription,
+} from './tracking-stream';
+
+// How often listeners hear that a session's first snapshot is on its way
+const PENDING_INTERVAL = 5000;
+
+/**
+ * Receives the updates of one subscription. `snapshot` comes first, once
+ * per listener; until then `pending` repeats while the first refresh
+ * runs, which takes minutes for large fleets. `error` reports a failed
+ * refresh, which is retried.
+ */
+export interface SubscriptionListener {
+  pending(): void;
+  snapshot(aircraft: Aircraft[], timestamp: number): void;
+  delta(delta: AircraftDelta): void;
+  error(message: string): void;
+}
+
+export interface TrackingSessionStats {
+  key: string;
+  listeners: number;
+  aircraft: number;
+  fullRefreshMs: number;
+  lastRefresh: number | null;
+  lastFullRefresh: number | null;
+}
+
+interface RefreshPlan {
+  full: boolean;
+  icao24s: string[] | null; // null for bounding boxes
+}
+
+// States fetched in one round, per provider and ICAO24
+type RoundStates = Map<
+  string | undefined,
+  Promise<Map<string, LiveAircraftState>>
+>;
+
+/**
+ * One subscription watched by any number of clients
+ */
+class TrackingSession {
+  public readonly listeners = new Map<SubscriptionListener, number>(); // to full refresh ms
+  public aircraft = new Map<string, Aircraft>();
+  public lastRefresh: number | null = null; // set by the first snapshot
+  public lastFullRefresh: number | null = null;
+  public refreshing = false;
+  private pendingTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    public readonly key: string,
+    public readonly subscription: TrackingSubscription
+  ) {}
+
+  // The most eager listener decides
+  public get fullRefreshMs(): number {
+    return Math.min(DEFAULT_FULL_REFRESH_MS, ...this.listeners.values());
+  }
+
+  /**
+   * What to query next. Manufacturer fleets are queried in full every
+   * fullRefreshMs and only their airborne aircraft in between; bounding
+   * boxes and ICAO24 lists are queried in full every time.
+   */
+  public async plan(now: number): Promise<RefreshPlan> {
+    const { bounds, icao24s, manufacturer } = this.subscription;
+    if (bounds) return { full: true, icao24s: null };
+    if (icao24s) return { full: true, icao24s };
+
+    const activeOnly =
+      this.aircraft.size > 0 &&
+      this.lastFullRefresh !== null &&
+      now - this.lastFullRefresh < this.fullRefreshMs;
+    return activeOnly
+      ? { full: false, icao24s: Array.from(this.aircraft.keys()) }
+      : {
+          full: true,
+          icao24s: await dbManager.getIcao24sForManufacturer(manufacturer!),
+        };
+  }
+
+  public snapshot(): Aircraft[] {
+    return Array.from(this.aircraft.values());
+  }
+
+  public startPending(): void {
+    this.pendingTimer = setInterval(() => {
+      if (this.refreshing) {
+        this.listeners.forEach((_, listener) => listener.pending());
+      }
+    }, PENDING_INTERVAL);
+    this.pendingTimer.unref?.();
+  }
+
+  public stopPending(): void {
+    if (this.pendingTimer) clearInterval(this.pendingTimer);
+    this.pendingTimer = null;
+  }
+}
+
+/**
+ * Server-side refresh loop for every subscription clients are watching.
+ * Each round queries the union of the sessions' ICAO24s once per provider
+ * and serves every session from the results (as /api/tracking/live is
+ * served from the state cache), so overlapping fleets, lists and clients
+ * cost one upstream query. Sessions
+ * end when their last client leaves.
+ */
+export class TrackingEngine {
+  private static instance: TrackingEngine | null = null;
+  private sessions = new Map<string, TrackingSession>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TrackingEngine {
+    if (!TrackingEngine.instance) {
+      TrackingEngine.instance = new TrackingEngine();
+    }
+    return TrackingEngine.instance;
+  }
+
+  /**
+   * Start receiving updates for a subscription. Returns a function that
+   * stops them.
+   */
+  public join(
+    subscription: TrackingSubscription,
+    listener: SubscriptionListener,
+    fullRefreshMs: number = DEFAULT_FULL_REFRESH_MS
+  ): () => void {
+    const key = subscriptionKey(subscription);
+    let session = this.sessions.get(key);
+    const created = !session;
+
+    if (!session) {
+      session = new TrackingSession(key, subscription);
+      session.startPending();
+      this.sessions.set(key, session);
+      console.log(`[Engine] Session ${this.sessions.size} started: ${key}`);
+    } else if (session.lastRefresh !== null) {
+      listener.snapshot(session.snapshot(), session.lastRefresh);
+    }
+    session.listeners.set(listener, fullRefreshMs);
+
+    // New sessions get their first data now rather than next round
+    if (created) {
+      void this.refresh([session]);
+      this.schedule();
+    }
+
+    const joined = session;
+    return () => this.leave(joined, listener);
+  }
+
+  public getStats(): TrackingSessionStats[] {
+    return Array.from(this.sessions.values()).map((session) => ({
+      key: session.key,
+      listeners: session.listeners.size,
+      aircraft: session.aircraft.size,
+      fullRefreshMs: session.fullRefreshMs,
+      lastRefresh: session.lastRefresh,
+      lastFullRefresh: session.lastFullRefresh,
+    }));
+  }
+
+  private leave(session: TrackingSession, listener: SubscriptionListener) {
+    session.listeners.delete(listener);
+    if (session.listeners.size > 0) return;
+
+    session.stopPending();
+    if (this.sessions.get(session.key) === session) {
+      this.sessions.delete(session.key);
+      console.log(`[Engine] Session ended: ${session.key}`);
+    }
+    if (this.sessions.size === 0 && this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer || this.sessions.size === 0) return;
+
+    const timer = setTimeout(async () => {
+      // Sessions still on their first refresh wait for the next round
+      await this.refresh(
+        Array.from(this.sessions.values()).filter(
+          (session) => !session.refreshing
+        )
+      );
+      // Every session left during the round; a later join owns the loop
+      if (this.timer !== timer) return;
+      this.timer = null;
+      this.schedule();
+    }, TRACKING_REFRESH_MS);
+    timer.unref?.();
+    this.timer = timer;
+  }
+
+  private async refresh(sessions: TrackingSession[]): Promise<void> {
+    const now = Date.now();
+    sessions.forEach((session) => (session.refreshing = true));
+
+    try {
+      const planned: { session: TrackingSession; plan: RefreshPlan }[] = [];
+      await Promise.all(
+        sessions.map(async (session) => {
+          try {
+            planned.push({ session, plan: await session.plan(now) });
+          } catch (error) {
+            this.fail(session, error);
+          }
+        })
+      );
+
+      // One upstream query per provider for the union of the ICAO24s
+      const unions = new Map<string | undefined, Set<string>>();
+      for (const { session, plan } of planned) {
+        if (!plan.icao24s) continue;
+        const provider = session.subscription.provider;
+        const union = unions.get(provider) ?? new Set<string>();
+        plan.icao24s.forEach((icao24) => union.add(icao24.toLowerCase()));
+        unions.set(provider, union);
+      }
+      const round: RoundStates = new Map();
+      unions.forEach((icao24s, provider) =>
+        round.set(
+          provider,
+          // Anything fetched during the last round is due again
+          fetchLiveAircraftData(
+            Array.from(icao24s),
+            provider,
+            TRACKING_REFRESH_MS / 2
+          ).then(
+            (states) =>
+              new Map(
+                states.map((state) => [state.icao24.toLowerCase(), state])
+              )
+          )
+        )
+      );
+
+      // Sessions take their aircraft from the round's results, which
+      // unlike the shared state cache cannot be evicted mid-round
+      await Promise.all(
+        planned.map(({ session, plan }) =>
+          this.refreshSession(session, plan, round, now)
+        )
+      );
+    } finally {
+      sessions.forEach((session) => (session.refreshing = false));
+    }
+  }
+
+  private async refreshSession(
+    session: TrackingSession,
+    plan: RefreshPlan,
+    round: RoundStates,
+    now: number
+  ): Promise<void> {
+    try {
+      const { subscription } = session;
+      let next: Aircraft[];
+      if (plan.icao24s) {
+        const states = await round.get(subscription.provider)!;
+        next = await toSubscriptionAircraft(
+          subscription,
+          plan.icao24s.flatMap((icao24) => {
+            const state = states.get(icao24.toLowerCase());
+            return state ? [state] : [];
+          })
+        );
+      } else {
+        next = await fetchSubscriptionAircraft(subscription);
+      }
+      if (plan.full) session.lastFullRefresh = now;
+
+      const delta = diffAircraft(session.aircraft, next);
+      session.aircraft = new Map(
+        next.map((plane) => [plane.icao24.toLowerCase(), plane])
+      );
+
+      if (session.lastRefresh === null) {
+        session.stopPending();
+        const aircraft = session.snapshot();
+        session.listeners.forEach((_, listener) =>
+          listener.snapshot(aircraft, delta.timestamp)
+        );
+      } else if (!isEmptyDelta(delta)) {
+        session.listeners.forEach((_, listener) => listener.delta(delta));
+      }
+      session.lastRefresh = delta.timestamp;
+    } catch (error) {
+      this.fail(session, error);
+    }
+  }
+
+  private fail(session: TrackingSession, error: unknown): void {
+    console.error(`[Engine] Refresh failed for ${session.key}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    session.listeners.forEach((_, listener) => listener.error(message));
+  }
+}
+
+const trackingEngine = TrackingEngine.getInstance();
+export default trackingEngine;
@@ -0,0 +1,200 @@
+// lib/services/tracking-socket/client.ts
+import type { Aircraft } from '../../../types/base';
+import type { AircraftDelta, TrackingSubscription } from '../tracking-stream';
+import type { ClientMessage, ServerMessage } from './protocol';
+
+// Reconnect delays double from a second up to this
+const MAX_RECONNECT_DELAY = 30000;
+// Connection attempts in a row that may fail before giving up
+const MAX_CONNECT_ATTEMPTS = 3;
+// Without any message (heartbeats included) for this long the connection
+// is considered dead
+const SILENCE_TIMEOUT = 60000;
+
+/**
+ * Updates of one subscription. `opened` reports that the server has the
+ * request and `pending` that it is still fetching the first snapshot;
+ * after `closed` no more updates arrive.
+ */
+export interface UpdateHandlers {
+  opened(): void;
+  pending(): void;
+  snapshot(aircraft: Aircraft[]): void;
+  delta(delta: AircraftDelta): void;
+  error(message: string): void;
+  closed(): void;
+}
+
+interface ClientSubscription {
+  subscription: TrackingSubscription;
+  handlers: UpdateHandlers;
+  received: boolean; // a snapshot arrived
+}
+
+/**
+ * Browser side of the tracking WebSocket. One connection carries all of a
+ * tab's subscriptions and is re-established (with the subscriptions
+ * renewed) when it drops.
+ */
+export class TrackingSocketClient {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, ClientSubscription>();
+  private nextId = 1;
+  private failedAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private silenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly url: string) {}
+
+  /**
+   * Subscribe to live aircraft. Returns a function that unsubscribes.
+   */
+  public subscribe(
+    subscription: TrackingSubscription,
+    handlers: UpdateHandlers
+  ): () => void {
+    const id = `s${this.nextId++}`;
+    this.subscriptions.set(id, { subscription, handlers, received: false });
+
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.send({ type: 'subscribe', id, subscription });
+      handlers.opened();
+    } else {
+      this.connect();
+    }
+
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+      this.send({ type: 'unsubscribe', id });
+      if (this.subscriptions.size === 0) this.disconnect();
+    };
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer) return;
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    let opened = false;
+
+    socket.onopen = () => {
+      opened = true;
+      this.failedAttempts = 0;
+      this.resetSilenceTimer(socket);
+      this.subscriptions.forEach(({ subscription, handlers }, id) => {
+        this.send({ type: 'subscribe', id, subscription });
+        handlers.opened();
+      });
+    };
+    socket.onmessage = (event) => {
+      this.resetSilenceTimer(socket);
+      this.handleMessage(JSON.parse(event.data) as ServerMessage);
+    };
+    socket.onclose = () => this.handleClose(socket, opened);
+  }
+
+  private handleClose(socket: WebSocket, opened: boolean): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    if (this.silenceTimer) clearTimeout(this.silenceTimer);
+    this.silenceTimer = null;
+
+    // Subscriptions still waiting for their first snapshot fall back to
+    // polling at once rather than wait for reconnects
+    this.subscriptions.forEach((entry, id) => {
+      if (entry.received) return;
+      this.subscriptions.delete(id);
+      entry.handlers.closed();
+    });
+
+    if (this.subscriptions.size === 0) return;
+    if (!opened) this.failedAttempts++;
+
+    if (this.failedAttempts >= MAX_CONNECT_ATTEMPTS) {
+      console.warn(`[TrackingSocket] Giving up on ${this.url}`);
+      const dropped = Array.from(this.subscriptions.values());
+      this.subscriptions.clear();
+      this.failedAttempts = 0;
+      dropped.forEach(({ handlers }) => handlers.closed());
+      return;
+    }
+
+    const delay = Math.min(
+      1000 * 2 ** this.failedAttempts,
+      MAX_RECONNECT_DELAY
+    );
+    console.log(`[TrackingSocket] Reconnecting in ${delay / 1000}s`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private resetSilenceTimer(socket: WebSocket): void {
+    if (this.silenceTimer) clearTimeout(this.silenceTimer);
+    this.silenceTimer = setTimeout(() => {
+      console.warn('[TrackingSocket] No heartbeat, reconnecting');
+      socket.close();
+      this.handleClose(socket, true);
+    }, SILENCE_TIMEOUT);
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.silenceTimer) clearTimeout(this.silenceTimer);
+    this.reconnectTimer = null;
+    this.silenceTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    if (message.type === 'heartbeat') return;
+
+    const entry = message.id ? this.subscriptions.get(message.id) : undefined;
+    const handlers = entry?.handlers;
+
+    switch (message.type) {
+      case 'pending':
+        handlers?.pending();
+        break;
+      case 'snapshot':
+        if (entry) entry.received = true;
+        handlers?.snapshot(message.aircraft);
+        break;
+      case 'delta':
+        handlers?.delta(message);
+        break;
+      case 'error':
+        if (handlers) {
+          handlers.error(message.message);
+        } else {
+          console.warn('[TrackingSocket] Server error:', message.message);
+        }
+        break;
+    }
+  }
+}
+
+let sharedClient: TrackingSocketClient | null = null;
+
+/**
+ * The tab's tracking socket, or null when no socket server is configured
+ * (NEXT_PUBLIC_TRACKING_SOCKET_URL) or WebSockets are unavailable
+ */
+export function getTrackingSocket(): TrackingSocketClient | null {
+  const url = process.env.NEXT_PUBLIC_TRACKING_SOCKET_URL;
+  if (!url || typeof WebSocket === 'undefined') return null;
+
+  if (!sharedClient) {
+    sharedClient = new TrackingSocketClient(url);
+  }
+  return sharedClient;
+}
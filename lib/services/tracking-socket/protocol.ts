@@ -0,0 +1,156 @@
+// lib/services/tracking-socket/protocol.ts
+//
+// Messages of the tracking WebSocket, JSON encoded. A client subscribes
+// under an id of its choosing and receives pending messages while the
+// first refresh runs, a snapshot, then deltas for that id until it
+// unsubscribes. The server sends a heartbeat every
+// HEARTBEAT_INTERVAL and error messages for rejected requests (with the
+// id) or failed refreshes, which are retried.
+import type { Aircraft } from '../../../types/base';
+import {
+  AircraftDelta,
+  parseSubscription,
+  SubscriptionError,
+  TrackingSubscription,
+} from '../tracking-stream';
+
+export const TRACKING_SOCKET_PATH = '/tracking';
+export const HEARTBEAT_INTERVAL = 20000;
+export const MAX_SUBSCRIPTIONS_PER_CLIENT = 10;
+const MAX_ID_LENGTH = 64;
+
+// Client to server
+
+export interface SubscribeMessage {
+  type: 'subscribe';
+  id: string;
+  subscription: TrackingSubscription;
+}
+
+export interface UnsubscribeMessage {
+  type: 'unsubscribe';
+  id: string;
+}
+
+export type ClientMessage = SubscribeMessage | UnsubscribeMessage;
+
+// Server to client
+
+export interface PendingMessage {
+  type: 'pending';
+  id: string;
+  timestamp: number;
+}
+
+export interface SnapshotMessage {
+  type: 'snapshot';
+  id: string;
+  aircraft: Aircraft[];
+  timestamp: number;
+}
+
+export interface DeltaMessage extends AircraftDelta {
+  type: 'delta';
+  id: string;
+}
+
+export interface HeartbeatMessage {
+  type: 'heartbeat';
+  timestamp: number;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  id?: string;
+  message: string;
+  timestamp: number;
+}
+
+export type ServerMessage =
+  | PendingMessage
+  | SnapshotMessage
+  | DeltaMessage
+  | HeartbeatMessage
+  | ErrorMessage;
+
+export class ProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly id?: string
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Validate a subscription the same way the SSE route reads its query
+function readSubscription(value: unknown, id: string): TrackingSubscription {
+  if (!value || typeof value !== 'object') {
+    throw new ProtocolError('subscription must be an object', id);
+  }
+
+  const { bounds, icao24s, manufacturer, model, provider } = value as Record<
+    string,
+    unknown
+  >;
+  const text = (field: unknown) =>
+    typeof field === 'string' || typeof field === 'number'
+      ? String(field)
+      : undefined;
+  const box = (bounds ?? {}) as Record<string, unknown>;
+
+  try {
+    return parseSubscription({
+      manufacturer: text(manufacturer),
+      model: text(model),
+      provider: text(provider),
+      icao24s: Array.isArray(icao24s)
+        ? icao24s.map(String).join(',')
+        : undefined,
+      minLat: text(box.minLat),
+      maxLat: text(box.maxLat),
+      minLon: text(box.minLon),
+      maxLon: text(box.maxLon),
+    });
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      throw new ProtocolError(error.message, id);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decode and validate a client message
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Messages must be JSON');
+  }
+  if (!message || typeof message !== 'object') {
+    throw new ProtocolError('Messages must be JSON objects');
+  }
+
+  const { type, id, subscription } = message as Record<string, unknown>;
+  if (typeof id !== 'string' || !id || id.length > MAX_ID_LENGTH) {
+    throw new ProtocolError(
+      `id must be a string of 1-${MAX_ID_LENGTH} characters`
+    );
+  }
+
+  switch (type) {
+    case 'subscribe':
+      return {
+        type,
+        id,
+        subscription: readSubscription(subscription, id),
+      };
+    case 'unsubscribe':
+      return { type, id };
+    default:
+      throw new ProtocolError(`Unknown message type: ${String(type)}`, id);
+  }
+}
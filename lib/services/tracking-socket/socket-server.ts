@@ -0,0 +1,149 @@
+// lib/services/tracking-socket/socket-server.ts
+import type { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import trackingEngine from '../tracking-engine';
+import {
+  HEARTBEAT_INTERVAL,
+  MAX_SUBSCRIPTIONS_PER_CLIENT,
+  parseClientMessage,
+  ProtocolError,
+  ServerMessage,
+  SubscribeMessage,
+} from './protocol';
+
+export interface TrackingSocketServerOptions {
+  port?: number; // listen on its own port
+  server?: Server; // or share an HTTP server
+  path?: string;
+}
+
+function send(socket: WebSocket, message: ServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function sendError(socket: WebSocket, message: string, id?: string): void {
+  send(socket, { type: 'error', id, message, timestamp: Date.now() });
+}
+
+/**
+ * One client connection and the subscriptions it holds
+ */
+class TrackingConnection {
+  private subscriptions = new Map<string, () => void>();
+  private alive = true;
+
+  constructor(private readonly socket: WebSocket) {
+    socket.on('message', (data) => this.handleMessage(data.toString()));
+    socket.on('pong', () => {
+      this.alive = true;
+    });
+    socket.on('close', () => this.close());
+    socket.on('error', (error) => {
+      console.error('[Socket] Connection error:', error);
+    });
+  }
+
+  /**
+   * Send a heartbeat; drop the connection when the previous ping went
+   * unanswered
+   */
+  public heartbeat(): void {
+    if (!this.alive) {
+      this.socket.terminate();
+      return;
+    }
+    this.alive = false;
+    this.socket.ping();
+    send(this.socket, { type: 'heartbeat', timestamp: Date.now() });
+  }
+
+  public close(): void {
+    this.subscriptions.forEach((leave) => leave());
+    this.subscriptions.clear();
+  }
+
+  private handleMessage(raw: string): void {
+    try {
+      const message = parseClientMessage(raw);
+      if (message.type === 'subscribe') {
+        this.subscribe(message);
+      } else {
+        this.subscriptions.get(message.id)?.();
+        this.subscriptions.delete(message.id);
+      }
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        sendError(this.socket, error.message, error.id);
+      } else {
+        console.error('[Socket] Failed to handle message:', error);
+        sendError(this.socket, 'Internal error');
+      }
+    }
+  }
+
+  private subscribe({ id, subscription }: SubscribeMessage): void {
+    // Re-subscribing under an id replaces the old subscription
+    this.subscriptions.get(id)?.();
+    this.subscriptions.delete(id);
+
+    if (this.subscriptions.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+      throw new ProtocolError(
+        `At most ${MAX_SUBSCRIPTIONS_PER_CLIENT} subscriptions per connection`,
+        id
+      );
+    }
+
+    const leave = trackingEngine.join(subscription, {
+      pending: () =>
+        send(this.socket, { type: 'pending', id, timestamp: Date.now() }),
+      snapshot: (aircraft, timestamp) =>
+        send(this.socket, { type: 'snapshot', id, aircraft, timestamp }),
+      delta: (delta) => send(this.socket, { type: 'delta', id, ...delta }),
+      error: (message) => sendError(this.socket, message, id),
+    });
+    this.subscriptions.set(id, leave);
+  }
+}
+
+/**
+ * WebSocket server speaking the tracking protocol. Connections watching
+ * the same subscription share an engine session, so extra browser tabs
+ * cost no extra upstream requests.
+ */
+export function createTrackingSocketServer(
+  options: TrackingSocketServerOptions
+): WebSocketServer {
+  const wss = new WebSocketServer({
+    port: options.port,
+    server: options.server,
+    path: options.path,
+  });
+  const connections = new Set<TrackingConnection>();
+
+  wss.on('connection', (socket, req) => {
+    const connection = new TrackingConnection(socket);
+    connections.add(connection);
+    console.log(
+      `[Socket] Client connected from ${req.socket.remoteAddress} (${connections.size} open)`
+    );
+
+    socket.on('close', () => {
+      connections.delete(connection);
+      console.log(`[Socket] Client disconnected (${connections.size} open)`);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    connections.forEach((connection) => connection.heartbeat());
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    connections.forEach((connection) => connection.close());
+    connections.clear();
+  });
+
+  return wss;
+}
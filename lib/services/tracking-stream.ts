@@ -0,0 +1,266 @@
+// lib/services/tracking-stream.ts
+import type { Aircraft } from '../../types/base';
+import type { BoundingBox } from '../../types/regions';
+import dbManager from '../db/DatabaseManager';
+import { LiveAircraftState, normalizeBoundingBox } from './providers';
+import {
+  loadRegistryRecords,
+  mergeLiveWithRegistry,
+} from './providers/registry-enrichment';
+import {
+  fetchLiveAircraftData,
+  fetchLiveAircraftInBounds,
+} from './live-tracking';
+
+export const MAX_SUBSCRIPTION_ICAO24S = 1000;
+
+// Full refresh limits, matching the client's setting
+export const DEFAULT_FULL_REFRESH_MS = 60 * 60000;
+const MIN_FULL_REFRESH_MINUTES = 10;
+
+// Fields whose change is worth pushing to clients
+const TRACKED_FIELDS: (keyof Aircraft)[] = [
+  'latitude',
+  'longitude',
+  'altitude',
+  'heading',
+  'velocity',
+  'on_ground',
+  'last_contact',
+];
+
+/**
+ * What a client wants to watch: everything in a bounding box, an explicit
+ * ICAO24 list or a manufacturer's fleet. Manufacturer and model narrow a
+ * bounding box; with an ICAO24 list the manufacturer only labels aircraft.
+ */
+export interface TrackingSubscription {
+  manufacturer?: string;
+  model?: string;
+  bounds?: BoundingBox;
+  icao24s?: string[];
+  provider?: string;
+}
+
+export interface AircraftDelta {
+  added: Aircraft[];
+  changed: Aircraft[];
+  removed: string[]; // icao24s
+  timestamp: number;
+}
+
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+type QueryValues = Record<string, string | string[] | undefined>;
+
+function queryValue(query: QueryValues, key: string): string | undefined {
+  const value = query[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+/**
+ * Read a subscription from query parameters:
+ * manufacturer, model, icao24s (comma separated), minLat/maxLat/minLon/maxLon
+ * and provider
+ */
+export function parseSubscription(query: QueryValues): TrackingSubscription {
+  const subscription: TrackingSubscription = {
+    manufacturer: queryValue(query, 'manufacturer'),
+    model: queryValue(query, 'model'),
+    provider: queryValue(query, 'provider'),
+  };
+
+  const hasBounds = ['minLat', 'maxLat', 'minLon', 'maxLon'].some(
+    (key) => queryValue(query, key) !== undefined
+  );
+  if (hasBounds) {
+    const bounds = normalizeBoundingBox(query);
+    if (!bounds) {
+      throw new SubscriptionError(
+        'Valid bounds (minLat, maxLat, minLon, maxLon) required'
+      );
+    }
+    subscription.bounds = bounds;
+  }
+
+  const icao24s = queryValue(query, 'icao24s');
+  if (icao24s) {
+    const list = Array.from(
+      new Set(
+        icao24s
+          .split(',')
+          .map((icao) => icao.trim().toLowerCase())
+          .filter(Boolean)
+      )
+    );
+    if (list.some((icao) => !/^[0-9a-f]{6}$/.test(icao))) {
+      throw new SubscriptionError('icao24s must be 6-digit hex addresses');
+    }
+    if (list.length > MAX_SUBSCRIPTION_ICAO24S) {
+      throw new SubscriptionError(
+        `At most ${MAX_SUBSCRIPTION_ICAO24S} icao24s per subscription`
+      );
+    }
+    subscription.icao24s = list;
+  }
+
+  if (
+    !subscription.bounds &&
+    !subscription.icao24s &&
+    !subscription.manufacturer
+  ) {
+    throw new SubscriptionError(
+      'A manufacturer, icao24s or bounds are required'
+    );
+  }
+  if (
+    subscription.model &&
+    !subscription.manufacturer &&
+    !subscription.bounds
+  ) {
+    throw new SubscriptionError('A model needs a manufacturer or bounds');
+  }
+
+  return subscription;
+}
+
+/**
+ * Identical subscriptions share one key, whatever order their fields or
+ * ICAO24s were given in
+ */
+export function subscriptionKey(subscription: TrackingSubscription): string {
+  const { bounds } = subscription;
+  return JSON.stringify([
+    subscription.provider ?? null,
+    bounds
+      ? [bounds.minLat, bounds.maxLat, bounds.minLon, bounds.maxLon]
+      : null,
+    subscription.icao24s ? [...subscription.icao24s].sort() : null,
+    subscription.manufacturer ?? null,
+    subscription.model ?? null,
+  ]);
+}
+
+/**
+ * Full refresh interval of manufacturer fleets from the `fullRefresh`
+ * (minutes) query parameter
+ */
+export function parseFullRefreshMs(query: QueryValues): number {
+  const minutes = parseInt(queryValue(query, 'fullRefresh') ?? '', 10);
+  return minutes
+    ? Math.max(minutes, MIN_FULL_REFRESH_MINUTES) * 60000
+    : DEFAULT_FULL_REFRESH_MS;
+}
+
+function hasChanged(previous: Aircraft, next: Aircraft): boolean {
+  return TRACKED_FIELDS.some((field) => previous[field] !== next[field]);
+}
+
+/**
+ * Compare the last aircraft sent to a client with a fresh result
+ */
+export function diffAircraft(
+  previous: Map<string, Aircraft>,
+  next: Aircraft[]
+): AircraftDelta {
+  const delta: AircraftDelta = {
+    added: [],
+    changed: [],
+    removed: [],
+    timestamp: Date.now(),
+  };
+  const seen = new Set<string>();
+
+  for (const aircraft of next) {
+    const icao = aircraft.icao24.toLowerCase();
+    seen.add(icao);
+    const before = previous.get(icao);
+    if (!before) {
+      delta.added.push(aircraft);
+    } else if (hasChanged(before, aircraft)) {
+      delta.changed.push(aircraft);
+    }
+  }
+
+  previous.forEach((_, icao) => {
+    if (!seen.has(icao)) delta.removed.push(icao);
+  });
+
+  return delta;
+}
+
+export function isEmptyDelta(delta: AircraftDelta): boolean {
+  return (
+    delta.added.length === 0 &&
+    delta.changed.length === 0 &&
+    delta.removed.length === 0
+  );
+}
+
+/**
+ * Live aircraft of a subscription, enriched from the registry. `icao24s`
+ * overrides the aircraft queried for ICAO24 and manufacturer subscriptions.
+ */
+export async function fetchSubscriptionAircraft(
+  subscription: TrackingSubscription,
+  icao24s?: string[]
+): Promise<Aircraft[]> {
+  let states: LiveAircraftState[];
+
+  if (subscription.bounds) {
+    states = await fetchLiveAircraftInBounds(
+      subscription.bounds,
+      subscription.provider
+    );
+  } else {
+    const list =
+      icao24s ??
+      subscription.icao24s ??
+      (await dbManager.getIcao24sForManufacturer(subscription.manufacturer!));
+    states =
+      list.length > 0
+        ? await fetchLiveAircraftData(list, subscription.provider)
+        : [];
+  }
+
+  return toSubscriptionAircraft(subscription, states);
+}
+
+/**
+ * Enrich live states fetched for a subscription from the registry and
+ * narrow them to its manufacturer and model
+ */
+export async function toSubscriptionAircraft(
+  subscription: TrackingSubscription,
+  states: LiveAircraftState[]
+): Promise<Aircraft[]> {
+  // Fleets and lists are labelled with the manufacturer asked for
+  const label = subscription.bounds ? undefined : subscription.manufacturer;
+  const registry = await loadRegistryRecords(states.map((a) => a.icao24));
+  let aircraft = states.map((state) =>
+    mergeLiveWithRegistry(state, registry[state.icao24.toLowerCase()], label)
+  );
+
+  // Fleets come from the registry already; regions need narrowing
+  if (subscription.bounds && subscription.manufacturer) {
+    const spellings = new Set(
+      await dbManager.getManufacturerSpellings(subscription.manufacturer)
+    );
+    aircraft = aircraft.filter((plane) => spellings.has(plane.manufacturer));
+  }
+  if (subscription.model) {
+    aircraft = aircraft.filter(
+      (plane) =>
+        plane.model === subscription.model ||
+        plane.TYPE_AIRCRAFT === subscription.model
+    );
+  }
+
+  return aircraft;
+}
@@ -0,0 +1,108 @@
+// pages/api/admin/manufacturers.ts
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import dbManager from '@/lib/db/DatabaseManager';
+import {
+  approveAlias,
+  ManufacturerAliasError,
+  rejectAlias,
+  runSuggestionPass,
+} from '@/lib/services/manufacturer-aliases';
+import type { ManufacturerAliasRow } from '@/types/database';
+
+const STATUSES: ManufacturerAliasRow['status'][] = [
+  'pending',
+  'approved',
+  'rejected',
+];
+
+// Admin requests carry "Authorization: Bearer <ADMIN_TOKEN>"
+function isAuthorized(req: NextApiRequest, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Review manufacturer aliases.
+ * GET  /api/admin/manufacturers[?status=pending|approved|rejected]
+ * POST /api/admin/manufacturers { action: 'suggest', threshold? }
+ *                               { action: 'approve', alias, canonical? }
+ *                               { action: 'reject', alias }
+ *                               { action: 'remove', alias }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res
+      .status(503)
+      .json({ error: 'Admin API disabled; set ADMIN_TOKEN to enable it' });
+  }
+  if (!isAuthorized(req, token)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const status = STATUSES.find((value) => value === req.query.status);
+      const [aliases, canonicals] = await Promise.all([
+        dbManager.getManufacturerAliases(status),
+        dbManager.getCanonicalManufacturers(),
+      ]);
+      return res.status(200).json({
+        aliases,
+        canonicals,
+        count: aliases.length,
+      });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { action, alias, canonical, threshold } = req.body || {};
+    if (action === 'suggest') {
+      const value = Number(threshold);
+      const report = await runSuggestionPass(
+        value > 0 && value <= 1 ? value : undefined
+      );
+      return res.status(200).json(report);
+    }
+
+    if (typeof alias !== 'string' || !alias.trim()) {
+      return res.status(400).json({ error: 'alias required' });
+    }
+
+    switch (action) {
+      case 'approve':
+        return res
+          .status(200)
+          .json(
+            await approveAlias(
+              alias,
+              typeof canonical === 'string' ? canonical : undefined
+            )
+          );
+      case 'reject':
+        return res.status(200).json(await rejectAlias(alias));
+      case 'remove':
+        await dbManager.deleteManufacturerAlias(alias);
+        return res.status(200).json({ alias, removed: true });
+      default:
+        return res.status(400).json({ error: `Unknown action ${action}` });
+    }
+  } catch (error) {
+    if (error instanceof ManufacturerAliasError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('[API] Error reviewing manufacturer aliases:', error);
+    return res.status(500).json({
+      error: 'Failed to update manufacturer aliases',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,51 @@
+// pages/api/aircraft/[icao24].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { normalizeIcao24s } from '@/lib/services/providers';
+import { getAircraftDetail } from '@/lib/services/aircraft-detail';
+
+/**
+ * Registry record, decoded codes, model reference and live state of one
+ * aircraft.
+ * GET /api/aircraft/<icao24>?provider=<name>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const [icao24] = normalizeIcao24s([req.query.icao24]);
+  if (!icao24) {
+    return res.status(400).json({ error: 'Valid icao24 required' });
+  }
+
+  const providerName =
+    typeof req.query.provider === 'string' ? req.query.provider : undefined;
+
+  try {
+    const detail = await getAircraftDetail(icao24, providerName);
+
+    const unknown =
+      !detail.registry &&
+      !detail.live &&
+      !detail.liveError &&
+      !detail.flight &&
+      detail.lastSeen === null;
+    if (unknown) {
+      return res.status(404).json({ error: `Unknown aircraft ${icao24}` });
+    }
+
+    return res.status(200).json({
+      ...detail,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`[API] Error loading aircraft ${icao24}:`, error);
+    return res.status(500).json({
+      error: 'Failed to load aircraft',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,56 @@
+// pages/api/aircraft/n-number.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  icao24ToNNumber,
+  isUsIcao24,
+  nNumberToIcao24,
+  normalizeNNumber,
+} from '@/utils/n-number';
+
+/**
+ * Convert between US N-numbers and ICAO24 addresses.
+ * GET /api/aircraft/n-number?n=<N-number>
+ * GET /api/aircraft/n-number?icao24=<hex>
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { n, icao24 } = req.query;
+
+  if (typeof n === 'string' && n.trim()) {
+    const nNumber = normalizeNNumber(n);
+    const address = nNumberToIcao24(nNumber);
+    if (!address) {
+      return res
+        .status(400)
+        .json({ error: `Invalid N-number ${nNumber}`, valid: false });
+    }
+    return res.status(200).json({ nNumber, icao24: address, valid: true });
+  }
+
+  if (typeof icao24 === 'string' && icao24.trim()) {
+    const address = icao24.trim().toLowerCase();
+    if (!/^[0-9a-f]{6}$/.test(address)) {
+      return res
+        .status(400)
+        .json({ error: `Invalid icao24 ${address}`, valid: false });
+    }
+    if (!isUsIcao24(address)) {
+      return res.status(404).json({
+        error: `${address} is outside the US N-number block`,
+        valid: false,
+      });
+    }
+    return res
+      .status(200)
+      .json({
+        nNumber: icao24ToNNumber(address),
+        icao24: address,
+        valid: true,
+      });
+  }
+
+  return res.status(400).json({ error: 'Either n or icao24 is required' });
+}
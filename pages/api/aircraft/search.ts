@@ -0,0 +1,106 @@
+// pages/api/aircraft/search.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import dbManager from '../../../lib/db/DatabaseManager';
+import type { AircraftSearchResult } from '../../../types/database';
+import {
+  icao24ToNNumber,
+  isValidNNumber,
+  nNumberToIcao24,
+  normalizeNNumber,
+} from '../../../utils/n-number';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MIN_QUERY_LENGTH = 2;
+
+function intParam(value: unknown, fallback: number): number {
+  const parsed = parseInt(typeof value === 'string' ? value : '', 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Result for an N-number or ICAO24 address that is not in the registry,
+ * so it can still be tracked
+ */
+function addressResult(query: string): AircraftSearchResult | null {
+  const text = query.trim();
+  let icao24: string | null = null;
+  let nNumber: string | null = null;
+
+  if (/^[0-9a-f]{6}$/i.test(text)) {
+    icao24 = text.toLowerCase();
+    nNumber = icao24ToNNumber(icao24);
+  } else if (isValidNNumber(text)) {
+    nNumber = normalizeNNumber(text);
+    icao24 = nNumberToIcao24(nNumber);
+  }
+
+  if (!icao24) return null;
+  return {
+    icao24,
+    n_number: nNumber ? nNumber.slice(1) : null,
+    manufacturer: null,
+    model: null,
+    name: null,
+    city: null,
+    state: null,
+  };
+}
+
+/**
+ * Ranked registry search. N-numbers and ICAO24 addresses missing from the
+ * registry come back as a single unregistered result.
+ * GET /api/aircraft/search?q=<text>&limit=<n>&offset=<n>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (query.length < MIN_QUERY_LENGTH) {
+    return res.status(400).json({
+      error: `Query must be at least ${MIN_QUERY_LENGTH} characters`,
+    });
+  }
+
+  const limit = Math.min(
+    Math.max(intParam(req.query.limit, DEFAULT_LIMIT), 1),
+    MAX_LIMIT
+  );
+  const offset = Math.max(intParam(req.query.offset, 0), 0);
+
+  try {
+    let { total, results } = await dbManager.searchAircraft(
+      query,
+      limit,
+      offset
+    );
+
+    const unregistered =
+      total === 0 && offset === 0 ? addressResult(query) : null;
+    if (unregistered) {
+      total = 1;
+      results = [unregistered];
+    }
+
+    return res.status(200).json({
+      query,
+      results,
+      total,
+      limit,
+      offset,
+      hasMore: offset + results.length < total,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[API] Error searching aircraft:', error);
+    return res.status(500).json({
+      error: 'Failed to search aircraft',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,58 @@
+// pages/api/airports.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import airportIndex, {
+  AIRPORT_TYPES,
+} from '@/lib/services/airports/airport-index';
+import { normalizeBoundingBox } from '@/lib/services/providers';
+
+const MAX_AIRPORTS = 1000;
+
+/**
+ * Airports inside a bounding box, larger airports first.
+ * GET /api/airports?minLat=&maxLat=&minLon=&maxLon=[&types=large_airport,heliport][&limit=]
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const bounds = normalizeBoundingBox(req.query);
+  if (!bounds) {
+    return res
+      .status(400)
+      .json({ error: 'minLat, maxLat, minLon and maxLon are required' });
+  }
+
+  const types =
+    typeof req.query.types === 'string' && req.query.types.trim()
+      ? req.query.types.split(',').map((type) => type.trim())
+      : AIRPORT_TYPES;
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit ?? ''), 10) || MAX_AIRPORTS, 1),
+    MAX_AIRPORTS
+  );
+
+  try {
+    const airports = (await airportIndex.load()).findInBounds(
+      bounds,
+      types,
+      limit
+    );
+
+    return res.status(200).json({
+      airports,
+      count: airports.length,
+      truncated: airports.length === limit,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[API] Error loading airports:', error);
+    return res.status(500).json({
+      error: 'Failed to load airports',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
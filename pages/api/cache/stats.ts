@@ -0,0 +1,25 @@
+// pages/api/cache/stats.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import dbManager from '@/lib/db/DatabaseManager';
+import { getCacheStats } from '@/utils/lru-cache';
+
+/**
+ * Size and hit/miss/eviction counters of the server-side caches.
+ * GET /api/cache/stats
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Other caches register as their modules load
+  const database = dbManager.getCacheStats();
+  const caches = getCacheStats().filter(
+    (stats) => stats.name !== database.name
+  );
+
+  return res.status(200).json({
+    caches: [database, ...caches],
+    timestamp: new Date().toISOString(),
+  });
+}
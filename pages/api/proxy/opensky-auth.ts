@@ -0,0 +1,22 @@
+// pages/api/proxy/opensky-auth.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { openSkyAuth } from '@/lib/services/opensky-auth';
+
+/**
+ * OpenSky authentication status (mode, token expiry, failures).
+ * `?refresh=true` obtains a token first if none is cached.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (req.query.refresh === 'true') {
+    await openSkyAuth.ensureAuthenticated();
+  }
+
+  return res.status(200).json(openSkyAuth.getStatus());
+}
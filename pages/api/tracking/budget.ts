@@ -0,0 +1,23 @@
+// pages/api/tracking/budget.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLiveDataProvider } from '@/lib/services/providers';
+
+/**
+ * Rate-limit standing and remaining API credits of a live data provider.
+ * GET /api/tracking/budget?provider=<name>
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const providerName =
+    typeof req.query.provider === 'string' ? req.query.provider : undefined;
+  const provider = getLiveDataProvider(providerName);
+
+  return res.status(200).json({
+    provider: provider.name,
+    ...provider.getRateLimitStatus(),
+    timestamp: new Date().toISOString(),
+  });
+}
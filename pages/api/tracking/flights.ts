@@ -0,0 +1,73 @@
+// pages/api/tracking/flights.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import flightSegmentation from '@/lib/services/flight-segmentation';
+import { normalizeIcao24s } from '@/lib/services/providers';
+
+const DEFAULT_RANGE = 7 * 86400; // seconds
+
+// Unix seconds, or any date Date.parse understands ("2024-05-01"). A plain
+// date as the end of the range includes that whole day (UTC).
+function timeParam(
+  value: unknown,
+  fallback: number,
+  endOfDay = false
+): number | null {
+  if (typeof value !== 'string' || !value.trim()) return fallback;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  const parsed = Date.parse(trimmed);
+  if (!Number.isFinite(parsed)) return null;
+
+  const seconds = Math.floor(parsed / 1000);
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(trimmed)
+    ? seconds + 86399
+    : seconds;
+}
+
+/**
+ * Flights of one aircraft overlapping a date range, oldest first.
+ * GET /api/tracking/flights?icao24=<hex>&from=<date|unix s>&to=<date|unix s>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const [icao24] = normalizeIcao24s([req.query.icao24]);
+  if (!icao24) {
+    return res.status(400).json({ error: 'Valid icao24 required' });
+  }
+
+  const to = timeParam(req.query.to, Math.floor(Date.now() / 1000), true);
+  const from =
+    to === null ? null : timeParam(req.query.from, to - DEFAULT_RANGE);
+  if (to === null || from === null) {
+    return res.status(400).json({ error: 'Invalid from or to date' });
+  }
+  if (from > to) {
+    return res.status(400).json({ error: 'from must not be after to' });
+  }
+
+  try {
+    const flights = await flightSegmentation.getFlights(icao24, from, to);
+
+    return res.status(200).json({
+      icao24,
+      from,
+      to,
+      flights,
+      count: flights.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`[API] Error loading flights for ${icao24}:`, error);
+    return res.status(500).json({
+      error: 'Failed to load flights',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,61 @@
+// pages/api/tracking/history.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import dbManager from '@/lib/db/DatabaseManager';
+import { normalizeIcao24s } from '@/lib/services/providers';
+
+const DEFAULT_WINDOW = 24 * 3600; // seconds
+const MAX_POSITIONS = 10000;
+
+function intParam(value: unknown, fallback: number): number {
+  const parsed = parseInt(typeof value === 'string' ? value : '', 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Stored positions of one aircraft, oldest first.
+ * GET /api/tracking/history?icao24=<hex>&since=<unix s>&until=<unix s>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const [icao24] = normalizeIcao24s([req.query.icao24]);
+  if (!icao24) {
+    return res.status(400).json({ error: 'Valid icao24 required' });
+  }
+
+  const until = intParam(req.query.until, Math.floor(Date.now() / 1000));
+  const since = intParam(req.query.since, until - DEFAULT_WINDOW);
+  if (since > until) {
+    return res.status(400).json({ error: 'since must not be after until' });
+  }
+
+  try {
+    const positions = await dbManager.getPositions(
+      icao24,
+      since,
+      until,
+      MAX_POSITIONS
+    );
+
+    return res.status(200).json({
+      icao24,
+      since,
+      until,
+      positions,
+      count: positions.length,
+      truncated: positions.length === MAX_POSITIONS,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`[API] Error loading history for ${icao24}:`, error);
+    return res.status(500).json({
+      error: 'Failed to load position history',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,12 +1,14 @@
 // pages/api/tracking/live.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import dbManager from '../../../lib/db/DatabaseManager';
-import { Aircraft } from '@/types/base';
-import openSkyProxyHandler from '../proxy/opensky';
-
-// Cache for API responses
-const TRACKING_CACHE = new Map<string, { data: any; timestamp: number }>();
-const CACHE_TTL = 15000; // 15 seconds
+import { normalizeBoundingBox } from '@/lib/services/providers';
+import {
+  loadRegistryRecords,
+  mergeLiveWithRegistry,
+} from '@/lib/services/providers/registry-enrichment';
+import {
+  fetchLiveAircraftData,
+  fetchLiveAircraftInBounds,
+} from '@/lib/services/live-tracking';
 
 export default async function handler(
   req: NextApiRequest,
@@ -21,8 +23,15 @@ export default async function handler(
     manufacturer,
     includeStatic = false,
     activeOnly = false,
+    provider,
+    bounds,
   } = req.body;
 
+  // Region mode: everything inside a bounding box
+  if (bounds !== undefined) {
+    return handleBoundsRequest(res, bounds, provider);
+  }
+
   console.log(
     `[API] Received request for ${icao24s?.length || 0} aircraft from ${manufacturer || 'unknown manufacturer'}`
   );
@@ -42,8 +51,8 @@ export default async function handler(
   );
 
   try {
-    // Get live data using the proxy API
-    const liveData = await fetchLiveAircraftData(icao24s);
+    // Get live data from the configured provider
+    const liveData = await fetchLiveAircraftData(icao24s, provider);
     console.log(
       `[API] Received ${liveData.length} aircraft with position data`
     );
@@ -58,9 +67,9 @@ export default async function handler(
       console.log(
         `[API] Fetching static data for ${liveIcao24s.length} aircraft`
       );
-      const staticData = await dbManager.getAircraftByIcao24s(liveIcao24s);
+      staticAircraft = await loadRegistryRecords(liveIcao24s);
       console.log(
-        `[API] Retrieved static data for ${staticData.length} aircraft`
+        `[API] Retrieved static data for ${Object.keys(staticAircraft).length} aircraft`
       );
 
       const { batchIndex, totalBatches } = req.body;
@@ -74,44 +83,28 @@ export default async function handler(
         // Fall back to the existing logging
         console.log(`[API] Processing batch 1/1 (${icao24s.length} ICAOs)`);
       }
-
-      // Create a lookup map for faster merging
-      staticAircraft = staticData.reduce((map, aircraft) => {
-        if (aircraft.icao24) {
-          map[aircraft.icao24.toLowerCase()] = aircraft;
-        }
-        return map;
-      }, {});
     }
 
     // Merge live and static data
-    const mergedAircraft = liveData.map((liveAircraft) => {
-      const icao = liveAircraft.icao24.toLowerCase();
-      const staticData = staticAircraft[icao] || {};
-
-      if (activeOnly) {
-        // Only return aircraft with position data
-        const activeAircraft = mergedAircraft.filter(
-          (aircraft) => aircraft.latitude && aircraft.longitude
-        );
+    let mergedAircraft = liveData.map((liveAircraft) =>
+      mergeLiveWithRegistry(
+        liveAircraft,
+        staticAircraft[liveAircraft.icao24.toLowerCase()],
+        manufacturer
+      )
+    );
 
-        console.log(
-          `[API] Filtering to ${activeAircraft.length} active aircraft out of ${mergedAircraft.length} total`
-        );
-      }
+    if (activeOnly) {
+      // Only return aircraft with position data
+      const activeAircraft = mergedAircraft.filter(
+        (aircraft) => aircraft.latitude && aircraft.longitude
+      );
 
-      return {
-        ...staticData,
-        ...liveAircraft,
-        // Ensure consistent icao24 format
-        icao24: icao,
-        // Add tracking metadata
-        _tracking: {
-          manufacturer,
-          lastSeen: Date.now(),
-        },
-      };
-    });
+      console.log(
+        `[API] Filtering to ${activeAircraft.length} active aircraft out of ${mergedAircraft.length} total`
+      );
+      mergedAircraft = activeAircraft;
+    }
 
     console.log(
       `[API] Returning ${mergedAircraft.length} merged aircraft records`
@@ -137,157 +130,52 @@ export default async function handler(
 }
 
 /**
- * Fetch live aircraft data using the OpenSky proxy
- * Handles batching and rate limits through the proxy
+ * Return all aircraft inside a bounding box, enriched from the registry.
+ * Manufacturer/model filtering is left to the client.
  */
-async function fetchLiveAircraftData(icao24s: string[]): Promise<Aircraft[]> {
-  // Generate a cache key based on ICAO24s
-  const cacheKey = icao24s.sort().join(',');
-
-  // Check cache first
-  const cached = TRACKING_CACHE.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    console.log(
-      '[API] Using cached tracking data from',
-      new Date(cached.timestamp).toLocaleTimeString()
-    );
-    return cached.data;
-  }
-
-  // Prepare batches (100 ICAOs per batch as per the proxy's limit)
-  const BATCH_SIZE = 100;
-  const batches: string[][] = [];
-
-  for (let i = 0; i < icao24s.length; i += BATCH_SIZE) {
-    batches.push(icao24s.slice(i, i + BATCH_SIZE));
-  }
-
-  console.log(
-    `[API] Processing ${icao24s.length} ICAOs in ${batches.length} batches`
-  );
-
-  // Process batches sequentially to respect rate limits
-  const results: Aircraft[] = [];
-
-  for (let i = 0; i < batches.length; i++) {
-    const batch = batches[i];
-    try {
-      console.log(
-        `[API] Processing batch ${i + 1}/${batches.length} (${batch.length} ICAOs)`
-      );
-
-      // Sample of ICAOs in this batch
-      const sampleIcaos = batch.slice(0, 5);
-      console.log(
-        `[API] Sample ICAOs in batch: ${sampleIcaos.join(', ')}${batch.length > 5 ? '...' : ''}`
-      );
-
-      // Call the proxy endpoint
-      const batchResults = await fetchAircraftBatch(batch);
-
-      // Add to overall results
-      results.push(...batchResults);
-
-      // Log results
-      console.log(
-        `[API] Batch ${i + 1} returned ${batchResults.length} aircraft with position data`
-      );
-
-      // Add a small delay between batches to be nice to the proxy
-      if (i < batches.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
-    } catch (error) {
-      console.error(`[API] Error processing batch ${i + 1}:`, error);
-      // Continue with the next batch instead of failing completely
-    }
+async function handleBoundsRequest(
+  res: NextApiResponse,
+  rawBounds: unknown,
+  providerName?: string
+) {
+  const bounds = normalizeBoundingBox(rawBounds);
+  if (!bounds) {
+    console.log('[API] Invalid request: Malformed bounds');
+    return res.status(400).json({
+      error: 'Valid bounds (minLat, maxLat, minLon, maxLon) required',
+    });
   }
 
-  // Cache the combined results
-  TRACKING_CACHE.set(cacheKey, {
-    data: results,
-    timestamp: Date.now(),
-  });
-
-  return results;
-}
-
-/**
- * Fetch a single batch of aircraft data using the proxy API
- */
-async function fetchAircraftBatch(icao24Batch: string[]): Promise<Aircraft[]> {
-  // Get base URL from environment variable or use a default
-  const baseUrl =
-    process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
-
-  // Call our proxy API with absolute URL
-  const response = await fetch(`${baseUrl}/api/proxy/opensky`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ icao24s: icao24Batch }),
-  });
-
-  if (!response.ok) {
-    // If we hit a rate limit, handle it gracefully
-    if (response.status === 429) {
-      const data = await response.json();
-      const retryAfter = data.retryAfter || 60;
-      console.log(`[API] Rate limited by proxy. Retry after ${retryAfter}s`);
-
-      // If we're dealing with a rate limit, wait and retry once
-      await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
-
-      // Retry the request
-      const retryResponse = await fetch('/api/proxy/opensky', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ icao24s: icao24Batch }),
-      });
-
-      if (!retryResponse.ok) {
-        console.error(
-          `[API] Retry failed with status: ${retryResponse.status}`
-        );
-        return []; // Return empty array on retry failure
-      }
+  try {
+    const liveData = await fetchLiveAircraftInBounds(bounds, providerName);
+    const registry = await loadRegistryRecords(liveData.map((a) => a.icao24));
 
-      const retryData = await retryResponse.json();
-      return processProxyResponse(retryData);
-    }
+    console.log(
+      `[API] Region query returned ${liveData.length} aircraft, ${Object.keys(registry).length} in registry`
+    );
 
-    // For other errors, log and return empty array
-    console.error(
-      `[API] Proxy API error: ${response.status} ${response.statusText}`
+    const aircraft = liveData.map((liveAircraft) =>
+      mergeLiveWithRegistry(
+        liveAircraft,
+        registry[liveAircraft.icao24.toLowerCase()]
+      )
     );
-    return [];
-  }
 
-  const data = await response.json();
-  return processProxyResponse(data);
-}
+    return res.status(200).json({
+      aircraft,
+      count: aircraft.length,
+      bounds,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching region data:', error);
 
-/**
- * Process the response from the OpenSky proxy API
- */
-function processProxyResponse(response: any): Aircraft[] {
-  if (
-    !response.success ||
-    !response.data ||
-    !Array.isArray(response.data.states)
-  ) {
-    console.warn('[API] Invalid response format from proxy:', response);
-    return [];
+    return res.status(500).json({
+      error: 'Failed to fetch tracking data',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      aircraft: [],
+      count: 0,
+      timestamp: new Date().toISOString(),
+    });
   }
-
-  // The proxy already formats the data, so we can use it directly
-  return response.data.states.filter((state: any) => {
-    // Ensure we only return aircraft with valid position data
-    return (
-      state &&
-      typeof state.latitude === 'number' &&
-      typeof state.longitude === 'number'
-    );
-  });
 }
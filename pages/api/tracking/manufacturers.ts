@@ -18,21 +18,6 @@ export default async function handler(
     // Get top 50 manufacturers by aircraft count
     console.log('[API] Fetching manufacturers...');
 
-    // Use a simpler query with explicit column name targeting
-    const query = `
-      SELECT 
-        manufacturer AS name, 
-        COUNT(*) AS count 
-      FROM aircraft 
-      WHERE manufacturer IS NOT NULL 
-      GROUP BY manufacturer 
-      HAVING count > 0 
-      ORDER BY count DESC 
-      LIMIT 50
-    `;
-
-    console.log('[API] Executing query:', query);
-
     // 1. First check for empty table
     const countQuery = await dbManager.query(
       'aircraft-count',
@@ -50,13 +35,8 @@ export default async function handler(
       return res.status(200).json([]);
     }
 
-    // 2. Execute the manufacturers query
-    const manufacturers = await dbManager.query(
-      'manufacturers-direct',
-      query,
-      [],
-      0
-    );
+    // 2. Count aircraft per canonical manufacturer (aliases merged)
+    const manufacturers = await dbManager.getManufacturersWithCount(50);
     console.log('[API] Query returned', manufacturers.length, 'results');
 
     // Log a sample of the results
@@ -0,0 +1,40 @@
+// pages/api/tracking/receiver.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLiveDataProvider } from '@/lib/services/providers';
+import { Dump1090Provider } from '@/lib/services/providers/Dump1090Provider';
+
+/**
+ * All aircraft currently seen by our own ADS-B receiver (dump1090/readsb)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const provider = getLiveDataProvider('dump1090') as Dump1090Provider;
+
+  try {
+    const aircraft = await provider.fetchAllAircraft();
+
+    console.log(`[API] Receiver returned ${aircraft.length} aircraft`);
+
+    return res.status(200).json({
+      aircraft,
+      count: aircraft.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[API] Error reading receiver feed:', error);
+
+    return res.status(503).json({
+      error: 'Receiver feed unavailable',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      aircraft: [],
+      count: 0,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
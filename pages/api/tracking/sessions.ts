@@ -0,0 +1,20 @@
+// pages/api/tracking/sessions.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import trackingEngine from '@/lib/services/tracking-engine';
+import { TRACKING_REFRESH_MS } from '@/lib/services/live-tracking';
+
+/**
+ * Sessions the tracking engine is refreshing for streaming clients.
+ * GET /api/tracking/sessions
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return res.status(200).json({
+    sessions: trackingEngine.getStats(),
+    refreshInterval: TRACKING_REFRESH_MS,
+    timestamp: new Date().toISOString(),
+  });
+}
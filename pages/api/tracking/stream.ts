@@ -0,0 +1,100 @@
+// pages/api/tracking/stream.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  parseFullRefreshMs,
+  parseSubscription,
+  SubscriptionError,
+  TrackingSubscription,
+} from '@/lib/services/tracking-stream';
+import trackingEngine from '@/lib/services/tracking-engine';
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL = 20000;
+
+export const config = {
+  api: {
+    responseLimit: false,
+    externalResolver: true, // the response outlives the handler
+  },
+};
+
+/**
+ * Server-Sent Events stream of live aircraft for a subscription.
+ * GET /api/tracking/stream?manufacturer=|icao24s=|minLat=&maxLat=&minLon=&maxLon=
+ *   [&model=][&provider=][&fullRefresh=minutes]
+ * Sends `pending` events while the first refresh runs, a `snapshot` event,
+ * then a `delta` event (added, changed and removed aircraft) whenever a
+ * refresh changes something. A failed
+ * refresh sends `refresh-error` and is retried on the next round.
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let subscription: TrackingSubscription;
+  try {
+    subscription = parseSubscription(req.query);
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+  const fullRefreshMs = parseFullRefreshMs(req.query);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  const send = (event: string, data: unknown) => {
+    if (!closed)
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  console.log(
+    `[Stream] Client subscribed to ${describeSubscription(subscription)}`
+  );
+
+  // Clients with the same subscription share one engine session
+  const leave = trackingEngine.join(
+    subscription,
+    {
+      pending: () => send('pending', { timestamp: Date.now() }),
+      snapshot: (aircraft, timestamp) =>
+        send('snapshot', { aircraft, count: aircraft.length, timestamp }),
+      delta: (delta) => send('delta', delta),
+      error: (message) =>
+        send('refresh-error', { message, timestamp: Date.now() }),
+    },
+    fullRefreshMs
+  );
+
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    leave();
+    console.log('[Stream] Client disconnected');
+  });
+}
+
+function describeSubscription(subscription: TrackingSubscription): string {
+  if (subscription.bounds) {
+    const { minLat, maxLat, minLon, maxLon } = subscription.bounds;
+    return `region ${minLat},${minLon} - ${maxLat},${maxLon}`;
+  }
+  if (subscription.icao24s) {
+    return `${subscription.icao24s.length} aircraft`;
+  }
+  return subscription.manufacturer!;
+}
@@ -0,0 +1,84 @@
+// pages/api/tracking/track.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  AircraftTrack,
+  getLiveDataProvider,
+  LiveDataProviderError,
+  normalizeIcao24s,
+} from '@/lib/services/providers';
+
+// Tracks only grow while the aircraft is flying, so a short TTL is enough
+const TRACK_CACHE = new Map<
+  string,
+  { track: AircraftTrack | null; timestamp: number }
+>();
+const CACHE_TTL = 60000; // 1 minute
+
+/**
+ * Full track of an aircraft's current or last flight.
+ * GET /api/tracking/track?icao24=<hex>&provider=<name>
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const [icao24] = normalizeIcao24s([req.query.icao24]);
+  if (!icao24) {
+    return res.status(400).json({ error: 'Valid icao24 required' });
+  }
+
+  const providerName =
+    typeof req.query.provider === 'string' ? req.query.provider : undefined;
+  const provider = getLiveDataProvider(providerName);
+
+  if (!provider.fetchTrack) {
+    return res.status(501).json({
+      error: `Provider ${provider.name} does not support flight tracks`,
+    });
+  }
+
+  const cacheKey = `${provider.name}:${icao24}`;
+  const cached = TRACK_CACHE.get(cacheKey);
+
+  try {
+    let track: AircraftTrack | null;
+
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      console.log(`[API] Using cached track for ${icao24}`);
+      track = cached.track;
+    } else {
+      track = await provider.fetchTrack(icao24);
+      TRACK_CACHE.set(cacheKey, { track, timestamp: Date.now() });
+      console.log(
+        `[API] Fetched track for ${icao24}: ${track?.path.length ?? 0} points`
+      );
+    }
+
+    if (!track || track.path.length === 0) {
+      return res.status(404).json({ error: `No track found for ${icao24}` });
+    }
+
+    return res.status(200).json({
+      track,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`[API] Error fetching track for ${icao24}:`, error);
+
+    if (error instanceof LiveDataProviderError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        retryAfter: error.retryAfter,
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Failed to fetch track',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
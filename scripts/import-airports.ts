@@ -0,0 +1,59 @@
+// scripts/import-airports.ts
+//
+// Replace the airport reference data with an OurAirports airports.csv
+// (https://ourairports.com/data/).
+//
+//   npm run import:airports -- <airports.csv> [--dry-run] [--json]
+//
+import dbManager from '../lib/db/DatabaseManager';
+import { importAirports } from '../lib/services/airports/airport-importer';
+
+const USAGE =
+  'Usage: npm run import:airports -- <airports.csv> [--dry-run] [--json]';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const flags = new Set(args.filter((arg) => arg.startsWith('--')));
+  const [source] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!source || flags.has('--help')) {
+    console.log(USAGE);
+    return source ? 0 : 1;
+  }
+
+  const json = flags.has('--json');
+  const report = await importAirports(source, {
+    dryRun: flags.has('--dry-run'),
+    // Keep stdout clean for --json output
+    log: json ? (message) => console.error(message) : undefined,
+  });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return 0;
+  }
+
+  const types = Object.entries(report.byType)
+    .sort(([, a], [, b]) => b - a)
+    .map(([type, count]) => `${type} ${count}`)
+    .join(', ');
+
+  console.log(`
+Airport import${report.dryRun ? ' (dry run)' : ''}
+  Source:     ${report.source}
+  Airports:   ${report.total} (${report.skipped} closed or without position)
+  Types:      ${types}
+  Took:       ${(report.durationMs / 1000).toFixed(1)}s`);
+  return 0;
+}
+
+main()
+  .then(async (code) => {
+    await dbManager.close();
+    process.exit(code);
+  })
+  .catch(async (error) => {
+    console.error('[Airport Import] Failed:', error);
+    await dbManager.close();
+    process.exit(1);
+  });
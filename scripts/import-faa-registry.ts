@@ -0,0 +1,57 @@
+// scripts/import-faa-registry.ts
+//
+// Rebuild the aircraft registry from the FAA releasable aircraft database.
+//
+//   npm run import:faa -- <ReleasableAircraft.zip | directory> [--dry-run] [--keep-removed] [--json]
+//
+import dbManager from '../lib/db/DatabaseManager';
+import { importFaaRegistry } from '../lib/services/registry/faa-importer';
+
+const USAGE =
+  'Usage: npm run import:faa -- <ReleasableAircraft.zip | directory> [--dry-run] [--keep-removed] [--json]';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const flags = new Set(args.filter((arg) => arg.startsWith('--')));
+  const [source] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!source || flags.has('--help')) {
+    console.log(USAGE);
+    return source ? 0 : 1;
+  }
+
+  const json = flags.has('--json');
+  const report = await importFaaRegistry(source, {
+    dryRun: flags.has('--dry-run'),
+    keepRemoved: flags.has('--keep-removed'),
+    // Keep stdout clean for --json output
+    log: json ? (message) => console.error(message) : undefined,
+  });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return 0;
+  }
+
+  console.log(`
+FAA registry import${report.dryRun ? ' (dry run)' : ''}
+  Source:     ${report.source}
+  Aircraft:   ${report.total} (${report.skipped} records without Mode S address)
+  Added:      ${report.added}${report.samples.added.length ? `  e.g. ${report.samples.added.join(', ')}` : ''}
+  Changed:    ${report.changed}${report.samples.changed.length ? `  e.g. ${report.samples.changed.join(', ')}` : ''}
+  Removed:    ${report.removed}${report.samples.removed.length ? `  e.g. ${report.samples.removed.join(', ')}` : ''}
+  Unchanged:  ${report.unchanged}
+  Took:       ${(report.durationMs / 1000).toFixed(1)}s`);
+  return 0;
+}
+
+main()
+  .then(async (code) => {
+    await dbManager.close();
+    process.exit(code);
+  })
+  .catch(async (error) => {
+    console.error('[FAA Import] Failed:', error);
+    await dbManager.close();
+    process.exit(1);
+  });
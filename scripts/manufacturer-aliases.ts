@@ -0,0 +1,122 @@
+// scripts/manufacturer-aliases.ts
+//
+// Review the manufacturer alias table.
+//
+//   npm run manufacturers -- suggest [--threshold=0.85]
+//   npm run manufacturers -- list [pending|approved|rejected]
+//   npm run manufacturers -- approve <alias> [canonical]
+//   npm run manufacturers -- approve-all [--min-similarity=0.95]
+//   npm run manufacturers -- reject <alias>
+//   npm run manufacturers -- remove <alias>
+//
+import dbManager from '../lib/db/DatabaseManager';
+import {
+  approveAlias,
+  ManufacturerAliasError,
+  rejectAlias,
+  runSuggestionPass,
+} from '../lib/services/manufacturer-aliases';
+import type { ManufacturerAliasRow } from '../types/database';
+
+const USAGE = `Usage: npm run manufacturers -- <command>
+  suggest [--threshold=0.85]         store alias suggestions for review
+  list [pending|approved|rejected]   show aliases
+  approve <alias> [canonical]        approve a suggestion or add an alias
+  approve-all [--min-similarity=1]   approve pending suggestions
+  reject <alias>                     reject a suggestion
+  remove <alias>                     delete an alias`;
+
+function numberFlag(flags: string[], name: string): number | undefined {
+  const flag = flags.find((arg) => arg.startsWith(`--${name}=`));
+  const value = flag ? Number(flag.split('=')[1]) : NaN;
+  return value > 0 && value <= 1 ? value : undefined;
+}
+
+function printAliases(aliases: ManufacturerAliasRow[]): void {
+  for (const alias of aliases) {
+    const similarity =
+      alias.similarity !== null ? ` (${alias.similarity.toFixed(2)})` : '';
+    console.log(
+      `  [${alias.status}] ${alias.alias} -> ${alias.canonical}${similarity}`
+    );
+  }
+  console.log(`${aliases.length} aliases`);
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const flags = args.filter((arg) => arg.startsWith('--'));
+  const [command, ...rest] = args.filter((arg) => !arg.startsWith('--'));
+
+  switch (command) {
+    case 'suggest': {
+      const report = await runSuggestionPass(numberFlag(flags, 'threshold'));
+      console.log(
+        `Suggested ${report.suggested} aliases for ${report.spellings} spellings`
+      );
+      for (const sample of report.samples) {
+        console.log(
+          `  ${sample.alias} -> ${sample.canonical} (${sample.similarity.toFixed(2)}, ${sample.aliasCount} aircraft)`
+        );
+      }
+      return 0;
+    }
+
+    case 'list': {
+      const status = rest[0] as ManufacturerAliasRow['status'] | undefined;
+      printAliases(await dbManager.getManufacturerAliases(status));
+      return 0;
+    }
+
+    case 'approve': {
+      if (!rest[0]) break;
+      const row = await approveAlias(rest[0], rest[1]);
+      console.log(`Approved ${row.alias} -> ${row.canonical}`);
+      return 0;
+    }
+
+    case 'approve-all': {
+      const minSimilarity = numberFlag(flags, 'min-similarity') ?? 1;
+      const pending = (
+        await dbManager.getManufacturerAliases('pending')
+      ).filter((alias) => (alias.similarity ?? 0) >= minSimilarity);
+      for (const alias of pending) {
+        await approveAlias(alias.alias);
+      }
+      console.log(`Approved ${pending.length} suggestions`);
+      return 0;
+    }
+
+    case 'reject': {
+      if (!rest[0]) break;
+      const row = await rejectAlias(rest[0]);
+      console.log(`Rejected ${row.alias} -> ${row.canonical}`);
+      return 0;
+    }
+
+    case 'remove': {
+      if (!rest[0]) break;
+      await dbManager.deleteManufacturerAlias(rest[0]);
+      console.log(`Removed ${rest[0]}`);
+      return 0;
+    }
+  }
+
+  console.log(USAGE);
+  return 1;
+}
+
+main()
+  .then(async (code) => {
+    await dbManager.close();
+    process.exit(code);
+  })
+  .catch(async (error) => {
+    if (error instanceof ManufacturerAliasError) {
+      console.error(error.message);
+    } else {
+      console.error('[Manufacturers] Failed:', error);
+    }
+    await dbManager.close();
+    process.exit(1);
+  });
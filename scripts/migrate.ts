@@ -0,0 +1,45 @@
+// scripts/migrate.ts
+//
+// Apply pending schema migrations, or list them with --dry-run.
+//
+//   npm run db:migrate -- [--dry-run]
+//
+import dbManager from '../lib/db/DatabaseManager';
+
+async function main(): Promise<number> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const before = await dbManager.getMigrationStatus();
+  console.log(
+    `Schema version ${before.current} (code supports ${before.latest})`
+  );
+
+  if (before.pending.length === 0) {
+    console.log('No pending migrations');
+    return 0;
+  }
+
+  console.log(
+    `${dryRun ? 'Would apply' : 'Applying'} ${before.pending.length} migration(s):`
+  );
+  before.pending.forEach(({ version, name }) =>
+    console.log(`  ${version}  ${name}`)
+  );
+  if (dryRun) return 0;
+
+  await dbManager.initialize();
+  const after = await dbManager.getMigrationStatus();
+  console.log(`Schema now at version ${after.current}`);
+  return 0;
+}
+
+main()
+  .then(async (code) => {
+    await dbManager.close();
+    process.exit(code);
+  })
+  .catch(async (error) => {
+    console.error('[DB] Migration failed:', error);
+    await dbManager.close();
+    process.exit(1);
+  });
@@ -0,0 +1,48 @@
+// scripts/tracking-socket-server.ts
+//
+// Run the tracking WebSocket server next to the Next.js app. Browsers
+// connect to it when NEXT_PUBLIC_TRACKING_SOCKET_URL points at it.
+//
+//   npm run socket-server
+//
+// TRACKING_SOCKET_PORT (default 3002) sets the port and
+// TRACKING_REFRESH_SECONDS (default 30) the refresh interval.
+//
+import dbManager from '../lib/db/DatabaseManager';
+import { createTrackingSocketServer } from '../lib/services/tracking-socket/socket-server';
+import { TRACKING_SOCKET_PATH } from '../lib/services/tracking-socket/protocol';
+
+const DEFAULT_PORT = 3002;
+
+async function main(): Promise<void> {
+  const port =
+    parseInt(process.env.TRACKING_SOCKET_PORT ?? '', 10) || DEFAULT_PORT;
+
+  await dbManager.initialize();
+  const wss = createTrackingSocketServer({
+    port,
+    path: TRACKING_SOCKET_PATH,
+  });
+  wss.on('listening', () => {
+    console.log(
+      `[Socket] Listening on ws://localhost:${port}${TRACKING_SOCKET_PATH}`
+    );
+  });
+
+  const shutdown = () => {
+    console.log('[Socket] Shutting down');
+    wss.clients.forEach((client) => client.terminate());
+    wss.close(async () => {
+      await dbManager.close();
+      process.exit(0);
+    });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(async (error) => {
+  console.error('[Socket] Failed to start:', error);
+  await dbManager.close();
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+// test/dump1090-provider.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { Dump1090Provider } from '@/lib/services/providers/Dump1090Provider';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'aircraft.json');
+
+describe('Dump1090Provider', () => {
+  const provider = new Dump1090Provider({ source: FIXTURE });
+
+  it('maps aircraft.json entries into live states', async () => {
+    const { states } = await provider.fetchStatesByIcao24s(['4840d6']);
+    assert.equal(states.length, 1);
+
+    const [klm] = states;
+    assert.equal(klm.icao24, '4840d6');
+    assert.equal(klm.callsign, 'KLM1023');
+    assert.equal(klm.latitude, 52.257202);
+    assert.equal(klm.longitude, 3.919373);
+    assert.equal(klm.on_ground, false);
+    assert.ok(Math.abs(klm.altitude - 11582.4) < 0.01); // 38000 ft
+    assert.ok(Math.abs(klm.velocity - 231.6) < 0.1); // 450.2 kt
+    assert.equal(klm.heading, 92.5);
+    assert.ok(Math.abs(klm.vertical_rate - -0.325) < 0.001); // -64 ft/min
+    assert.equal(klm.squawk, '1000');
+    assert.equal(klm.position_source, 0);
+    assert.equal(klm.time_position, 1699999999);
+    assert.equal(klm.last_contact, 1699999999);
+  });
+
+  it('reports ground traffic at zero altitude', async () => {
+    const { states } = await provider.fetchStatesByIcao24s(['a835af']);
+    assert.equal(states.length, 1);
+    assert.equal(states[0].on_ground, true);
+    assert.equal(states[0].altitude, 0);
+    assert.equal(states[0].callsign, 'N646SP');
+    assert.equal(states[0].position_source, 2);
+  });
+
+  it('skips non-ICAO, position-less and stale entries', async () => {
+    const { states } = await provider.fetchStatesByBounds({
+      minLat: -90,
+      maxLat: 90,
+      minLon: -180,
+      maxLon: 180,
+    });
+    assert.deepEqual(states.map((state) => state.icao24).sort(), [
+      '4840d6',
+      'a835af',
+    ]);
+  });
+
+  it('filters by bounding box', async () => {
+    const { states } = await provider.fetchStatesByBounds({
+      minLat: 50,
+      maxLat: 55,
+      minLon: 0,
+      maxLon: 10,
+    });
+    assert.deepEqual(
+      states.map((state) => state.icao24),
+      ['4840d6']
+    );
+  });
+
+  it('splits boxes crossing the antimeridian', async () => {
+    const { states } = await provider.fetchStatesByBounds({
+      minLat: -90,
+      maxLat: 90,
+      minLon: 100,
+      maxLon: 0,
+    });
+    assert.deepEqual(
+      states.map((state) => state.icao24),
+      ['a835af']
+    );
+  });
+});
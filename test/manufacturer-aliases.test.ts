@@ -0,0 +1,48 @@
+// test/manufacturer-aliases.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { suggestManufacturerAliases } from '@/lib/services/manufacturer-aliases';
+
+describe('suggestManufacturerAliases', () => {
+  it('names a group after its spelling without noise words', () => {
+    const suggestions = suggestManufacturerAliases(
+      [
+        { name: 'CESSNA AIRCRAFT CO', count: 300 },
+        { name: 'CESSNA', count: 20 },
+      ],
+      [],
+      new Set()
+    );
+    assert.deepEqual(
+      suggestions.map(({ alias, canonical }) => [alias, canonical]),
+      [['CESSNA AIRCRAFT CO', 'CESSNA']]
+    );
+  });
+
+  it('otherwise names it after its most common registry spelling', () => {
+    const suggestions = suggestManufacturerAliases(
+      [
+        { name: 'CESSNA AIRCRAFT COMPANY', count: 50 },
+        { name: 'CESSNA AIRCRAFT CO', count: 300 },
+      ],
+      [],
+      new Set()
+    );
+    assert.deepEqual(
+      suggestions.map(({ alias, canonical }) => [alias, canonical]),
+      [['CESSNA AIRCRAFT COMPANY', 'CESSNA AIRCRAFT CO']]
+    );
+  });
+
+  it('joins existing canonical names', () => {
+    const suggestions = suggestManufacturerAliases(
+      [{ name: 'PIPER AIRCRAFT INC', count: 80 }],
+      ['PIPER'],
+      new Set()
+    );
+    assert.deepEqual(
+      suggestions.map(({ alias, canonical }) => [alias, canonical]),
+      [['PIPER AIRCRAFT INC', 'PIPER']]
+    );
+  });
+});
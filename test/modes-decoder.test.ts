@@ -0,0 +1,258 @@
+// test/modes-decoder.test.ts
+//
+// Frame vectors from "The 1090MHz Riddle" (Junzi Sun) and pyModeS
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AvrFrameReader,
+  BeastFrameReader,
+  cprNL,
+  decodeCprGlobal,
+  decodeCprLocal,
+  decodeModeS,
+  ModeSTracker,
+  parseAvrFrame,
+} from '@/lib/services/modes';
+import { AircraftStateStore } from '@/lib/services/providers/AircraftStateStore';
+
+const IDENTIFICATION = '8D4840D6202CC371C32CE0576098';
+const POSITION_EVEN = '8D40621D58C382D690C8AC2863A7';
+const POSITION_ODD = '8D40621D58C386435CC412692AD6';
+const GROUND_SPEED = '8D485020994409940838175B284F';
+const AIRSPEED = '8DA05F219B06B6AF189400CBC33F';
+
+function decode(hex: string) {
+  return decodeModeS(parseAvrFrame(hex)!);
+}
+
+function assertClose(actual: number | undefined, expected: number) {
+  assert.ok(
+    actual !== undefined && Math.abs(actual - expected) < 1e-3,
+    `${actual} != ${expected}`
+  );
+}
+
+/**
+ * Beast frame of a Mode-S message, with 0x1a bytes in the timestamp so
+ * the reader has to unescape them
+ */
+function beastFrame(hex: string): Buffer {
+  const type = hex.length === 28 ? 0x33 : 0x32;
+  const body = Buffer.concat([
+    Buffer.from([0x00, 0x1a, 0x02, 0x03, 0x1a, 0x05, 0x80]), // time, signal
+    Buffer.from(hex, 'hex'),
+  ]);
+  const escaped = Array.from(body).flatMap((byte) =>
+    byte === 0x1a ? [0x1a, 0x1a] : [byte]
+  );
+  return Buffer.from([0x1a, type, ...escaped]);
+}
+
+describe('decodeModeS', () => {
+  it('decodes identification', () => {
+    assert.deepEqual(decode(IDENTIFICATION), {
+      df: 17,
+      icao24: '4840d6',
+      addressFromParity: false,
+      type: 'identification',
+      callsign: 'KLM1023',
+      category: 'A0',
+      onGround: false,
+    });
+  });
+
+  it('decodes airborne positions', () => {
+    const even = decode(POSITION_EVEN);
+    assert.equal(even?.type, 'airborne_position');
+    if (even?.type !== 'airborne_position') return;
+    assert.equal(even.icao24, '40621d');
+    assert.equal(even.altitude, 38000);
+    assert.deepEqual(even.cpr, { odd: false, latCpr: 93000, lonCpr: 51372 });
+
+    const odd = decode(POSITION_ODD);
+    assert.equal(odd?.type, 'airborne_position');
+    if (odd?.type !== 'airborne_position') return;
+    assert.deepEqual(odd.cpr, { odd: true, latCpr: 74158, lonCpr: 50194 });
+  });
+
+  it('decodes ground speed velocity (subtype 1)', () => {
+    const message = decode(GROUND_SPEED);
+    assert.equal(message?.type, 'velocity');
+    if (message?.type !== 'velocity') return;
+    assert.equal(message.icao24, '485020');
+    assert.equal(message.speedType, 'ground');
+    assertClose(message.speed, 159.20113);
+    assertClose(message.track, 182.88038);
+    assert.equal(message.verticalRate, -832);
+  });
+
+  it('decodes airspeed velocity (subtype 3)', () => {
+    const message = decode(AIRSPEED);
+    assert.equal(message?.type, 'velocity');
+    if (message?.type !== 'velocity') return;
+    assert.equal(message.icao24, 'a05f21');
+    assert.equal(message.speedType, 'airspeed');
+    assert.equal(message.speed, 375);
+    assertClose(message.track, 243.98438);
+    assert.equal(message.verticalRate, -2304);
+  });
+
+  it('decodes squawks from DF5 and DF21', () => {
+    assert.deepEqual(decode('2A00516D492B80'), {
+      df: 5,
+      type: 'squawk',
+      icao24: '510af9',
+      addressFromParity: true,
+      squawk: '0356',
+      onGround: false,
+    });
+    const df21 = decode('A800292DFFBBA9383FFCEB903D01');
+    assert.equal(df21?.type, 'squawk');
+    if (df21?.type !== 'squawk') return;
+    assert.equal(df21.df, 21);
+    assert.equal(df21.squawk, '1346');
+  });
+
+  it('decodes altitude replies', () => {
+    const message = decode('A02014B400000000000000F9D514');
+    assert.equal(message?.type, 'altitude');
+    if (message?.type !== 'altitude') return;
+    assert.equal(message.altitude, 32300);
+  });
+
+  it('rejects frames failing the CRC', () => {
+    assert.equal(decode('8D4840D6202CC371C32CE0576099'), null);
+  });
+});
+
+describe('CPR', () => {
+  const even = { latCpr: 93000, lonCpr: 51372, odd: false };
+  const odd = { latCpr: 74158, lonCpr: 50194, odd: true };
+
+  it('counts longitude zones', () => {
+    assert.equal(cprNL(0), 59);
+    assert.equal(cprNL(52.2572), 36);
+    assert.equal(cprNL(-52.2572), 36);
+    assert.equal(cprNL(87), 2);
+    assert.equal(cprNL(88), 1);
+  });
+
+  it('decodes a frame pair globally', () => {
+    const evenNewest = decodeCprGlobal(even, odd, false)!;
+    assertClose(evenNewest.latitude, 52.2572);
+    assertClose(evenNewest.longitude, 3.91937);
+
+    const oddNewest = decodeCprGlobal(even, odd, true)!;
+    assertClose(oddNewest.latitude, 52.26578);
+    assertClose(oddNewest.longitude, 3.93891);
+  });
+
+  it('decodes a single frame against a reference', () => {
+    const position = decodeCprLocal(even, {
+      latitude: 52.258,
+      longitude: 3.918,
+    });
+    assertClose(position.latitude, 52.2572);
+    assertClose(position.longitude, 3.91937);
+  });
+});
+
+describe('framing', () => {
+  it('parses AVR frames, with or without MLAT timestamps', () => {
+    assert.deepEqual(
+      parseAvrFrame(`*${IDENTIFICATION};`),
+      Uint8Array.from(Buffer.from(IDENTIFICATION, 'hex'))
+    );
+    assert.deepEqual(
+      parseAvrFrame(`@0123456789AB${IDENTIFICATION};`),
+      parseAvrFrame(IDENTIFICATION)
+    );
+    assert.equal(parseAvrFrame('*7700;'), null); // Mode A/C
+    assert.equal(parseAvrFrame('*8D4840D6ZZ;'), null);
+  });
+
+  it('reads AVR frames split across chunks', () => {
+    const reader = new AvrFrameReader();
+    const stream = `*${IDENTIFICATION};\n*${POSITION_EVEN};\n`;
+    const frames = [
+      ...reader.push(stream.slice(0, 20)),
+      ...reader.push(stream.slice(20, 45)),
+      ...reader.push(stream.slice(45)),
+    ];
+    assert.deepEqual(
+      frames.map((frame) => Buffer.from(frame).toString('hex')),
+      [IDENTIFICATION.toLowerCase(), POSITION_EVEN.toLowerCase()]
+    );
+  });
+
+  it('reads Beast frames split across chunks', () => {
+    const stream = Buffer.concat([
+      Buffer.from([0x00, 0xff]), // noise before the first frame
+      beastFrame(IDENTIFICATION),
+      Buffer.from([0x1a, 0x31, 0, 0, 0, 0, 0, 0, 0x80, 0x77, 0x00]), // Mode A/C
+      beastFrame(POSITION_ODD),
+      beastFrame('2A00516D492B80'),
+    ]);
+
+    // Feed byte by byte so frames and escape pairs are split everywhere
+    const reader = new BeastFrameReader();
+    const frames: Uint8Array[] = [];
+    for (let i = 0; i < stream.length; i++) {
+      frames.push(...reader.push(stream.subarray(i, i + 1)));
+    }
+
+    assert.deepEqual(
+      frames.map((frame) => Buffer.from(frame).toString('hex')),
+      [IDENTIFICATION, POSITION_ODD, '2A00516D492B80'].map((hex) =>
+        hex.toLowerCase()
+      )
+    );
+  });
+});
+
+describe('ModeSTracker', () => {
+  it('pairs position frames into a live state', () => {
+    const store = new AircraftStateStore();
+    const tracker = new ModeSTracker(store);
+    const now = Date.now();
+
+    tracker.handleFrame(parseAvrFrame(POSITION_ODD)!, now - 1000);
+    tracker.handleFrame(parseAvrFrame(POSITION_EVEN)!, now);
+
+    const [state] = store.getStates();
+    assert.equal(state.icao24, '40621d');
+    assertClose(state.latitude, 52.2572);
+    assertClose(state.longitude, 3.91937);
+    assertClose(state.altitude, 38000 * 0.3048);
+  });
+
+  it('ignores parity addresses of aircraft not heard before', () => {
+    const tracker = new ModeSTracker(new AircraftStateStore());
+    assert.equal(tracker.handleFrame(parseAvrFrame('2A00516D492B80')!), null);
+  });
+
+  it('forgets aircraft no longer heard', () => {
+    const tracker = new ModeSTracker(new AircraftStateStore());
+    const now = Date.now();
+
+    tracker.handleFrame(parseAvrFrame(POSITION_ODD)!, now - 1000);
+    tracker.handleFrame(parseAvrFrame(POSITION_EVEN)!, now);
+    tracker.handleFrame(parseAvrFrame(IDENTIFICATION)!, now + 61000);
+
+    assert.deepEqual(Array.from(tracker['knownAddresses'].keys()), ['4840d6']);
+    assert.equal(tracker['lastPositions'].size, 0);
+    assert.equal(tracker['cprFrames'].size, 0);
+  });
+
+  it('drops the stale half of a CPR pair', () => {
+    const tracker = new ModeSTracker(new AircraftStateStore());
+    const now = Date.now();
+
+    tracker.handleFrame(parseAvrFrame(POSITION_ODD)!, now - 11000);
+    tracker.handleFrame(parseAvrFrame(POSITION_EVEN)!, now);
+
+    assert.deepEqual(Object.keys(tracker['cprFrames'].get('40621d')!), [
+      'even',
+    ]);
+  });
+});
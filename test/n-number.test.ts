@@ -0,0 +1,50 @@
+// test/n-number.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  icao24ToNNumber,
+  isValidNNumber,
+  nNumberToIcao24,
+} from '@/utils/n-number';
+
+const US_BLOCK_START = 0xa00001;
+const US_BLOCK_END = 0xadf7c7;
+
+describe('N-numbers', () => {
+  it('maps the ends of the US block', () => {
+    assert.equal(nNumberToIcao24('N1'), 'a00001');
+    assert.equal(nNumberToIcao24('N1A'), 'a00002');
+    assert.equal(nNumberToIcao24('N1AA'), 'a00003');
+    assert.equal(nNumberToIcao24('N99999'), 'adf7c7');
+    assert.equal(icao24ToNNumber('a00001'), 'N1');
+    assert.equal(icao24ToNNumber('ADF7C7'), 'N99999');
+  });
+
+  it('accepts registry spellings without the N', () => {
+    assert.equal(nNumberToIcao24('12345'), nNumberToIcao24('N12345'));
+    assert.equal(nNumberToIcao24(' n1a '), 'a00002');
+  });
+
+  it('rejects invalid N-numbers and foreign addresses', () => {
+    for (const value of ['N0', 'N01', 'N1I', 'N1O', 'N123456', 'N1ABC', 'NA']) {
+      assert.equal(isValidNNumber(value), false, value);
+      assert.equal(nNumberToIcao24(value), null, value);
+    }
+    assert.equal(icao24ToNNumber('a00000'), null);
+    assert.equal(icao24ToNNumber('adf7c8'), null);
+    assert.equal(icao24ToNNumber('4840d6'), null);
+  });
+
+  it('round-trips every address of the US block', () => {
+    for (let address = US_BLOCK_START; address <= US_BLOCK_END; address++) {
+      const icao24 = address.toString(16);
+      const nNumber = icao24ToNNumber(icao24);
+      if (nNumber === null || !isValidNNumber(nNumber)) {
+        assert.fail(`${icao24} -> ${nNumber}`);
+      }
+      if (nNumberToIcao24(nNumber) !== icao24) {
+        assert.fail(`${icao24} -> ${nNumber} -> ${nNumberToIcao24(nNumber)}`);
+      }
+    }
+  });
+});
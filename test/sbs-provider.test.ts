@@ -0,0 +1,129 @@
+// test/sbs-provider.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { SbsProvider } from '@/lib/services/providers/SbsProvider';
+import { parseSbsMessage } from '@/lib/services/providers/sbs-parser';
+
+// A recorded port 30003 stream: two aircraft with positions, one without,
+// plus lines the parser ignores
+const RECORDING = fs.readFileSync(
+  path.join(__dirname, 'fixtures', 'basestation.sbs')
+);
+const VALID_MESSAGES = 10;
+
+/**
+ * Serve the recording to each client in small chunks, splitting lines
+ * the way TCP segments do
+ */
+function startReplay(): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    for (let i = 0; i < RECORDING.length; i += 37) {
+      socket.write(RECORDING.subarray(i, i + 37));
+    }
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  );
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('parseSbsMessage', () => {
+  it('reads the fields of a MSG line', () => {
+    assert.deepEqual(
+      parseSbsMessage(
+        'MSG,3,1,1,4840D6,1,2023/11/14,22:13:19.300,2023/11/14,22:13:19.300,,38000,,,52.25720,3.91937,,,0,0,0,0'
+      ),
+      {
+        transmissionType: 3,
+        icao24: '4840d6',
+        callsign: undefined,
+        altitude: 38000,
+        groundSpeed: undefined,
+        track: undefined,
+        latitude: 52.2572,
+        longitude: 3.91937,
+        verticalRate: undefined,
+        squawk: undefined,
+        alert: false,
+        emergency: false,
+        spi: false,
+        onGround: false,
+      }
+    );
+  });
+
+  it('ignores other lines and invalid addresses', () => {
+    assert.equal(parseSbsMessage('CLK,,,,,,2023/11/14,22:13:21.300'), null);
+    assert.equal(parseSbsMessage('MSG,9,1,1,4840D6,1,,,,,,,,,,,,,,,,'), null);
+    assert.equal(
+      parseSbsMessage('MSG,3,1,1,ZZZZZZ,1,,,,,,1000,,,1.0,1.0,,,0,0,0,0'),
+      null
+    );
+  });
+});
+
+describe('SbsProvider replay', () => {
+  let server: net.Server;
+  let provider: SbsProvider;
+
+  before(async () => {
+    server = await startReplay();
+    const { port } = server.address() as net.AddressInfo;
+    provider = new SbsProvider({ host: '127.0.0.1', port });
+    provider.start();
+    await waitFor(() => provider.getMessageCount() === VALID_MESSAGES);
+  });
+
+  after(() => {
+    provider.stop();
+    server.close();
+  });
+
+  it('assembles airborne state from partial messages', async () => {
+    const { states } = await provider.fetchStatesByIcao24s(['4840d6']);
+    assert.equal(states.length, 1);
+
+    const [klm] = states;
+    assert.equal(klm.callsign, 'KLM1023');
+    assert.equal(klm.latitude, 52.2572);
+    assert.equal(klm.longitude, 3.91937);
+    assert.ok(Math.abs(klm.altitude - 11590.02) < 0.01); // latest: 38025 ft
+    assert.ok(Math.abs(klm.velocity - 231.5) < 0.1); // 450 kt
+    assert.equal(klm.heading, 92.5);
+    assert.ok(Math.abs(klm.vertical_rate - -0.325) < 0.001);
+    assert.equal(klm.squawk, '1000');
+    assert.equal(klm.on_ground, false);
+  });
+
+  it('marks surface positions as on the ground', async () => {
+    const { states } = await provider.fetchStatesByIcao24s(['a835af']);
+    assert.equal(states.length, 1);
+    assert.equal(states[0].callsign, 'N646SP');
+    assert.equal(states[0].on_ground, true);
+    assert.equal(states[0].altitude, 0);
+    assert.equal(states[0].squawk, '1200');
+  });
+
+  it('only reports aircraft with a position', async () => {
+    const { states } = await provider.fetchStatesByBounds({
+      minLat: -90,
+      maxLat: 90,
+      minLon: -180,
+      maxLon: 180,
+    });
+    assert.deepEqual(states.map((state) => state.icao24).sort(), [
+      '4840d6',
+      'a835af',
+    ]);
+  });
+});
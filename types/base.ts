@@ -59,6 +59,7 @@ export type OpenSkyStateArray = [
   squawk: string, // [14]
   spi: boolean, // [15]
   positionSource: number, // [16]
+  category: number, // [17], only with extended=1
 ];
 
 export type PartialOpenSkyState = any[];
@@ -84,6 +85,17 @@ export interface Aircraft {
   last_contact: number;
   lastSeen?: number;
 
+  // Extended state vector data
+  callsign?: string;
+  vertical_rate?: number;
+  geo_altitude?: number | null;
+  squawk?: string | null;
+  spi?: boolean;
+  position_source?: number;
+  category?: number;
+  time_position?: number | null;
+  sensors?: number[] | null;
+
   // Registration information
   NAME: string;
   CITY: string;
@@ -91,6 +103,12 @@ export interface Aircraft {
   OWNER_TYPE: string;
   TYPE_AIRCRAFT: string;
 
+  // State of registry from the ICAO24 address block
+  registrationCountry?: string;
+  countryCode?: string;
+  countryFlag?: string;
+  militaryHint?: boolean;
+
   // Tracking state
   isTracked: boolean;
 
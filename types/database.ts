@@ -72,3 +72,109 @@ export interface QueryParams {
     offset?: number;
 }
 
+/**
+ * Registry columns of the aircraft table, as written by the FAA importer
+ */
+export interface RegistryRow {
+    icao24: string;
+    n_number: string | null;
+    serial_number: string | null;
+    manufacturer: string | null;
+    model: string | null;
+    year_mfr: number | null;
+    owner: string | null;
+    name: string | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    type_aircraft: string | null;
+    type_engine: string | null;
+    owner_type: string | null;
+    engine_manufacturer: string | null;
+    engine_model: string | null;
+    num_engines: number | null;
+    num_seats: number | null;
+    status_code: string | null;
+    weight_class: string | null;
+}
+
+/**
+ * A registry match from the aircraft search
+ */
+export interface AircraftSearchResult {
+    icao24: string;
+    n_number: string | null;
+    manufacturer: string | null;
+    model: string | null;
+    name: string | null;
+    city: string | null;
+    state: string | null;
+}
+
+export interface AircraftSearchPage {
+    total: number;
+    results: AircraftSearchResult[];
+}
+
+/**
+ * One stored position report (positions table)
+ */
+export interface PositionRow {
+    icao24: string;
+    ts: number; // unix seconds
+    lat: number;
+    lon: number;
+    altitude: number | null; // meters
+    velocity: number | null; // m/s
+    heading: number | null;
+    on_ground: boolean;
+    source: string; // live data provider
+}
+
+/**
+ * A flight segmented from the position history (flights table)
+ */
+export interface FlightRow {
+    id?: number;
+    icao24: string;
+    start_ts: number; // unix seconds
+    end_ts: number;
+    start_lat: number;
+    start_lon: number;
+    end_lat: number;
+    end_lon: number;
+    max_altitude: number | null; // meters
+    distance_km: number;
+    position_count: number;
+    status: 'active' | 'complete'; // active flights may still grow
+    departure_airport: string | null; // airport code, when known
+    arrival_airport: string | null;
+}
+
+/**
+ * An airport imported from an OurAirports-style CSV (airports table)
+ */
+export interface AirportRow {
+    ident: string;
+    code: string; // ICAO (or GPS/local) code shown to users, e.g. "KSFO"
+    type: string; // large_airport, medium_airport, small_airport, heliport, ...
+    name: string;
+    lat: number;
+    lon: number;
+    elevation_ft: number | null;
+    iso_country: string | null;
+    municipality: string | null;
+    iata_code: string | null;
+}
+
+/**
+ * A registry spelling of a manufacturer mapped to its canonical name
+ * (manufacturer_aliases table). Only approved aliases affect queries.
+ */
+export interface ManufacturerAliasRow {
+    alias: string; // spelling as stored in aircraft.manufacturer
+    canonical: string;
+    status: 'pending' | 'approved' | 'rejected';
+    similarity: number | null; // 0-1 for suggestions, null when added by hand
+    updated_at: number; // unix ms
+}
@@ -1,4 +1,5 @@
 // types/regions.ts
+// minLon > maxLon for boxes crossing the antimeridian
 export interface BoundingBox {
   minLat: number;
   maxLat: number;
@@ -11,6 +11,7 @@ import type {
   PartialOpenSkyState,
   ExtendedAircraft,
 } from '../types/base';
+import { getAllocationFields } from './icao-allocations';
 
 const DEFAULT_VALUES = {
   STRING: 'Unknown',
@@ -52,6 +53,7 @@ export const BaseTransforms = {
 
     return {
       ...base,
+      ...getAllocationFields(partialAircraft.icao24),
       ...partialAircraft,
       icao24: partialAircraft.icao24 || base.icao24,
       'N-NUMBER': partialAircraft['N-NUMBER'] || base['N-NUMBER'],
@@ -0,0 +1,60 @@
+// utils/geo.ts
+import type { BoundingBox } from '../types/regions';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometers
+ */
+export function haversineKm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Bounding box from map edges, which may run past +-180 degrees. Longitudes
+ * are wrapped, so a box spanning the antimeridian gets minLon > maxLon.
+ */
+export function boundingBoxFromEdges(
+  south: number,
+  north: number,
+  west: number,
+  east: number
+): BoundingBox {
+  const wholeWorld = east - west >= 360;
+  return {
+    minLat: Math.max(south, -90),
+    maxLat: Math.min(north, 90),
+    minLon: wholeWorld ? -180 : wrapLongitude(west),
+    maxLon: wholeWorld ? 180 : wrapLongitude(east),
+  };
+}
+
+function wrapLongitude(longitude: number): number {
+  if (longitude >= -180 && longitude <= 180) return longitude;
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Split a box crossing the antimeridian into its western and eastern part
+ */
+export function splitAtAntimeridian(bounds: BoundingBox): BoundingBox[] {
+  if (bounds.minLon <= bounds.maxLon) return [bounds];
+  return [
+    { ...bounds, maxLon: 180 },
+    { ...bounds, minLon: -180 },
+  ];
+}
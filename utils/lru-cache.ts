@@ -0,0 +1,180 @@
+// utils/lru-cache.ts
+
+export interface LruCacheOptions {
+  name: string; // reported in cache stats
+  maxEntries: number;
+  defaultTtlMs: number;
+}
+
+export interface CacheEntry<V> {
+  value: V;
+  storedAt: number; // unix ms
+  expiresAt: number; // unix ms
+}
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number; // dropped to stay within maxEntries
+  expirations: number; // dropped after their TTL
+  hitRate: number; // 0-1, 0 before the first lookup
+}
+
+// Named caches, for the stats API
+const registry = new Map<string, LruCache<unknown>>();
+
+/**
+ * Map-backed cache bounded by entry count and per-entry TTL. Reads move
+ * an entry to the most recently used end; the least recently used entry
+ * is evicted first.
+ */
+export class LruCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(private readonly options: LruCacheOptions) {
+    registry.set(options.name, this as LruCache<unknown>);
+  }
+
+  public get name(): string {
+    return this.options.name;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * The value stored under `key`, or undefined when missing or expired
+   */
+  public get(key: string): V | undefined {
+    return this.getEntry(key)?.value;
+  }
+
+  /**
+   * The entry stored under `key` with its timestamps
+   */
+  public getEntry(key: string): CacheEntry<V> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry;
+  }
+
+  public has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Store a value. `storedAt` backdates entries restored from elsewhere,
+   * which then expire `ttlMs` after that time.
+   */
+  public set(
+    key: string,
+    value: V,
+    ttlMs: number = this.options.defaultTtlMs,
+    storedAt: number = Date.now()
+  ): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt, expiresAt: storedAt + ttlMs });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  public delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry whose key starts with `prefix`. Returns the count.
+   */
+  public deletePrefix(prefix: string): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Drop expired entries now instead of on their next lookup
+   */
+  public prune(): number {
+    const now = Date.now();
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    this.expirations += removed;
+    return removed;
+  }
+
+  public stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      name: this.options.name,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRate:
+        lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+    };
+  }
+
+  public resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+}
+
+/**
+ * Stats of every cache created so far, by name
+ */
+export function getCacheStats(): CacheStats[] {
+  return Array.from(registry.values()).map((cache) => cache.stats());
+}
+
+/**
+ * A named cache, or undefined
+ */
+export function getCache(name: string): LruCache<unknown> | undefined {
+  return registry.get(name);
+}
@@ -0,0 +1,132 @@
+// utils/n-number.ts
+
+/**
+ * US civil registrations (N-numbers) map one-to-one onto the Mode S
+ * addresses a00001 (N1) to adf7c7 (N99999), in N-number sort order.
+ */
+
+// Letters allowed in N-numbers: I and O are never issued
+const LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const DIGITS = '0123456789';
+
+const US_BLOCK_START = 0xa00001;
+
+// Registrations ending after the current position: none, one letter or
+// two letters
+const SUFFIX_SIZE = 1 + LETTERS.length * (1 + LETTERS.length); // 601
+// The last (fifth) character is a single letter or digit, or nothing
+const BUCKET4_SIZE = 1 + LETTERS.length + DIGITS.length; // 35
+const BUCKET3_SIZE = DIGITS.length * BUCKET4_SIZE + SUFFIX_SIZE; // 951
+const BUCKET2_SIZE = DIGITS.length * BUCKET3_SIZE + SUFFIX_SIZE; // 10111
+const BUCKET1_SIZE = DIGITS.length * BUCKET2_SIZE + SUFFIX_SIZE; // 101711
+
+const US_BLOCK_END = US_BLOCK_START + 9 * BUCKET1_SIZE - 1; // adf7c7
+
+// Up to five characters after the N: digits first (no leading zero),
+// then at most two letters
+const N_NUMBER_PATTERN =
+  /^N[1-9](?:[0-9]{0,4}|[0-9]{0,3}[A-HJ-NP-Z]|[0-9]{0,2}[A-HJ-NP-Z]{2})$/;
+
+/**
+ * Upper-case and add the "N" prefix the registry leaves off ("12345")
+ */
+export function normalizeNNumber(value: string): string {
+  const trimmed = value.trim().toUpperCase().replace(/[\s-]/g, '');
+  return trimmed.startsWith('N') ? trimmed : `N${trimmed}`;
+}
+
+/**
+ * Whether a (normalized) N-number is syntactically valid
+ */
+export function isValidNNumber(value: string): boolean {
+  return N_NUMBER_PATTERN.test(normalizeNNumber(value));
+}
+
+/**
+ * Whether an ICAO24 address belongs to the US N-number block
+ */
+export function isUsIcao24(icao24: string): boolean {
+  if (!/^[0-9a-f]{6}$/i.test(icao24.trim())) return false;
+  const address = parseInt(icao24.trim(), 16);
+  return address >= US_BLOCK_START && address <= US_BLOCK_END;
+}
+
+// Offset of a one or two letter suffix within a SUFFIX_SIZE block
+function suffixOffset(suffix: string): number {
+  if (suffix.length === 0) return 0;
+  let offset = LETTERS.indexOf(suffix[0]) * (LETTERS.length + 1) + 1;
+  if (suffix.length === 2) {
+    offset += LETTERS.indexOf(suffix[1]) + 1;
+  }
+  return offset;
+}
+
+function suffixFromOffset(offset: number): string {
+  if (offset === 0) return '';
+  const first = LETTERS[Math.floor((offset - 1) / (LETTERS.length + 1))];
+  const rest = (offset - 1) % (LETTERS.length + 1);
+  return rest === 0 ? first : first + LETTERS[rest - 1];
+}
+
+/**
+ * ICAO24 address (lowercase hex) of a US N-number, or null if the
+ * N-number is not valid
+ */
+export function nNumberToIcao24(nNumber: string): string | null {
+  const normalized = normalizeNNumber(nNumber);
+  if (!N_NUMBER_PATTERN.test(normalized)) return null;
+
+  const chars = normalized.slice(1);
+  let address = US_BLOCK_START + (Number(chars[0]) - 1) * BUCKET1_SIZE;
+  const bucketSizes = [BUCKET2_SIZE, BUCKET3_SIZE, BUCKET4_SIZE];
+
+  for (let position = 1; position < chars.length; position++) {
+    const char = chars[position];
+
+    if (position === 4) {
+      // Fifth character: a letter or a digit, nothing follows
+      address += 1 + (LETTERS + DIGITS).indexOf(char);
+      break;
+    }
+
+    if (LETTERS.includes(char)) {
+      address += suffixOffset(chars.slice(position));
+      break;
+    }
+
+    address += SUFFIX_SIZE + Number(char) * bucketSizes[position - 1];
+  }
+
+  return address.toString(16).padStart(6, '0');
+}
+
+/**
+ * US N-number ("N12345") of an ICAO24 address, or null outside the US block
+ */
+export function icao24ToNNumber(icao24: string): string | null {
+  if (!isUsIcao24(icao24)) return null;
+
+  let remainder = parseInt(icao24.trim(), 16) - US_BLOCK_START;
+  let nNumber = `N${Math.floor(remainder / BUCKET1_SIZE) + 1}`;
+  remainder %= BUCKET1_SIZE;
+
+  for (const bucketSize of [BUCKET2_SIZE, BUCKET3_SIZE]) {
+    if (remainder < SUFFIX_SIZE) {
+      return nNumber + suffixFromOffset(remainder);
+    }
+    remainder -= SUFFIX_SIZE;
+    nNumber += Math.floor(remainder / bucketSize);
+    remainder %= bucketSize;
+  }
+
+  if (remainder < SUFFIX_SIZE) {
+    return nNumber + suffixFromOffset(remainder);
+  }
+  remainder -= SUFFIX_SIZE;
+  nNumber += Math.floor(remainder / BUCKET4_SIZE);
+  remainder %= BUCKET4_SIZE;
+
+  return remainder === 0
+    ? nNumber
+    : nNumber + (LETTERS + DIGITS)[remainder - 1];
+}
@@ -0,0 +1,93 @@
+// utils/registry-codes.ts
+
+/**
+ * FAA registrant types (MASTER "TYPE REGISTRANT")
+ */
+export const OWNER_TYPE_LABELS: Record<string, string> = {
+  '1': 'Individual',
+  '2': 'Partnership',
+  '3': 'Corporation',
+  '4': 'Co-Owned',
+  '5': 'Government',
+  '7': 'LLC',
+  '8': 'Non-Citizen Corporation',
+  '9': 'Non-Citizen Co-Owned',
+};
+
+/**
+ * FAA aircraft types (MASTER "TYPE AIRCRAFT")
+ */
+export const AIRCRAFT_TYPE_LABELS: Record<string, string> = {
+  '1': 'Glider',
+  '2': 'Balloon',
+  '3': 'Blimp / Dirigible',
+  '4': 'Fixed wing single engine',
+  '5': 'Fixed wing multi engine',
+  '6': 'Rotorcraft',
+  '7': 'Weight-shift-control',
+  '8': 'Powered parachute',
+  '9': 'Gyroplane',
+  H: 'Hybrid lift',
+  O: 'Other',
+};
+
+/**
+ * FAA engine types (MASTER "TYPE ENGINE")
+ */
+export const ENGINE_TYPE_LABELS: Record<string, string> = {
+  '0': 'None',
+  '1': 'Reciprocating',
+  '2': 'Turbo-prop',
+  '3': 'Turbo-shaft',
+  '4': 'Turbo-jet',
+  '5': 'Turbo-fan',
+  '6': 'Ramjet',
+  '7': '2 cycle',
+  '8': '4 cycle',
+  '9': 'Unknown',
+  '10': 'Electric',
+  '11': 'Rotary',
+};
+
+/**
+ * FAA weight classes (ACFTREF "AC-WEIGHT"), stored as "CLASS 1" ... "CLASS 4"
+ */
+export const WEIGHT_CLASS_LABELS: Record<string, string> = {
+  'CLASS 1': 'Up to 12,499 lbs',
+  'CLASS 2': '12,500 - 19,999 lbs',
+  'CLASS 3': '20,000 lbs and over',
+  'CLASS 4': 'UAV up to 55 lbs',
+};
+
+// Codes are stored as imported; numeric codes may carry leading zeros
+function lookup(
+  labels: Record<string, string>,
+  code: string | number | null | undefined
+): string | undefined {
+  if (code === null || code === undefined) return undefined;
+  const key = String(code).trim().toUpperCase();
+  if (!key) return undefined;
+  return labels[key] ?? labels[key.replace(/^0+(?=\d)/, '')];
+}
+
+export function getOwnerTypeLabel(ownerType: string): string {
+  return lookup(OWNER_TYPE_LABELS, ownerType) || `Type ${ownerType}`;
+}
+
+export function getAircraftTypeLabel(
+  code: string | null | undefined
+): string | undefined {
+  return lookup(AIRCRAFT_TYPE_LABELS, code);
+}
+
+export function getEngineTypeLabel(
+  code: string | null | undefined
+): string | undefined {
+  return lookup(ENGINE_TYPE_LABELS, code);
+}
+
+export function getWeightClassLabel(
+  weightClass: string | null | undefined
+): string | undefined {
+  return lookup(WEIGHT_CLASS_LABELS, weightClass?.replace(/\s+/g, ' '));
+}
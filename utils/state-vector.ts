@@ -0,0 +1,90 @@
+// utils/state-vector.ts
+
+/**
+ * Emitter categories as numbered by the OpenSky state vector (index 17)
+ */
+export const EMITTER_CATEGORY_LABELS: readonly string[] = [
+  'No information',
+  'No ADS-B category information',
+  'Light (< 15,500 lbs)',
+  'Small (15,500 - 75,000 lbs)',
+  'Large (75,000 - 300,000 lbs)',
+  'High vortex large',
+  'Heavy (> 300,000 lbs)',
+  'High performance',
+  'Rotorcraft',
+  'Glider / sailplane',
+  'Lighter-than-air',
+  'Parachutist / skydiver',
+  'Ultralight / hang-glider',
+  'Reserved',
+  'Unmanned aerial vehicle',
+  'Space / trans-atmospheric vehicle',
+  'Surface vehicle - emergency',
+  'Surface vehicle - service',
+  'Point obstacle',
+  'Cluster obstacle',
+  'Line obstacle',
+];
+
+export const POSITION_SOURCE_LABELS: readonly string[] = [
+  'ADS-B',
+  'ASTERIX',
+  'MLAT',
+  'FLARM',
+];
+
+// Squawk codes reserved for emergencies
+const EMERGENCY_SQUAWKS: Record<string, string> = {
+  '7500': 'Hijack',
+  '7600': 'Radio failure',
+  '7700': 'Emergency',
+};
+
+// First OpenSky category number for each ADS-B category set
+const CATEGORY_SET_OFFSETS: Record<string, number> = { A: 1, B: 8, C: 15 };
+
+/**
+ * Convert an ADS-B category code ("A3", "B1", ...) to the OpenSky number.
+ * Set D and malformed codes return undefined.
+ */
+export function emitterCategoryFromCode(
+  code: string | undefined
+): number | undefined {
+  const match = code
+    ?.trim()
+    .toUpperCase()
+    .match(/^([ABC])([0-7])$/);
+  if (!match) return undefined;
+
+  const index = Number(match[2]);
+  if (index === 0) return 1; // "no category information" in every set
+
+  const category = CATEGORY_SET_OFFSETS[match[1]] + index;
+  return category < EMITTER_CATEGORY_LABELS.length ? category : undefined;
+}
+
+export function getEmitterCategoryLabel(
+  category: number | null | undefined
+): string | null {
+  if (category === null || category === undefined || category < 2) {
+    return null; // Nothing worth showing
+  }
+  return EMITTER_CATEGORY_LABELS[category] ?? null;
+}
+
+export function getPositionSourceLabel(
+  source: number | null | undefined
+): string | null {
+  if (source === null || source === undefined) return null;
+  return POSITION_SOURCE_LABELS[source] ?? null;
+}
+
+/**
+ * Meaning of an emergency squawk, or null for ordinary codes
+ */
+export function getEmergencySquawk(
+  squawk: string | null | undefined
+): string | null {
+  return (squawk && EMERGENCY_SQUAWKS[squawk]) || null;
+}